@@ -0,0 +1,242 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { ClipboardDocumentIcon, KeyIcon, TrashIcon } from '@heroicons/react/24/outline';
+import {
+  getAccessTokens,
+  createAccessToken,
+  deleteAccessToken,
+  type AccessTokenSummary
+} from '../../(lib)/supabase/access-tokens';
+import { ACCESS_TOKEN_EXPIRY_DAYS, ACCESS_TOKEN_SCOPES } from '../../(lib)/access-tokens';
+import type { AccessTokenScope } from '../../(lib)/types';
+
+export function AccessTokensCard() {
+  const [tokens, setTokens] = useState<AccessTokenSummary[]>([]);
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<AccessTokenScope[]>(['geofences:read']);
+  const [expiresInDays, setExpiresInDays] = useState<number | null>(90);
+  const [newToken, setNewToken] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadTokens();
+  }, []);
+
+  const loadTokens = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const result = await getAccessTokens();
+
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
+      setTokens(result.data);
+    } catch (error) {
+      console.error('Failed to load access tokens:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load access tokens');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const toggleScope = (scope: AccessTokenScope) => {
+    setScopes(prev => prev.includes(scope) ? prev.filter(s => s !== scope) : [...prev, scope]);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setIsUpdating(true);
+      setError(null);
+
+      const result = await createAccessToken(name, scopes, expiresInDays);
+
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
+      setTokens(prev => [result.data.token, ...prev]);
+      setNewToken(result.data.accessToken);
+      setName('');
+    } catch (error) {
+      console.error('Failed to create access token:', error);
+      setError(error instanceof Error ? error.message : 'Failed to create access token');
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const revokeToken = async (token: AccessTokenSummary) => {
+    if (!confirm(`Revoke "${token.name}"? Scripts using it will stop working.`)) {
+      return;
+    }
+
+    try {
+      setIsUpdating(true);
+      setError(null);
+
+      const result = await deleteAccessToken(token.id);
+
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
+      setTokens(prev => prev.filter(t => t.id !== token.id));
+    } catch (error) {
+      console.error('Failed to revoke access token:', error);
+      setError(error instanceof Error ? error.message : 'Failed to revoke access token');
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const copyToken = async () => {
+    if (newToken) {
+      await navigator.clipboard.writeText(newToken);
+    }
+  };
+
+  const formatDate = (timestamp: string) => {
+    return new Date(timestamp).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric'
+    });
+  };
+
+  const isExpired = (token: AccessTokenSummary) => !!token.expires_at && new Date(token.expires_at) <= new Date();
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex items-center space-x-3 mb-4">
+        <KeyIcon className="h-6 w-6 text-blue-600" />
+        <h3 className="text-lg font-semibold text-gray-900">API Access Tokens</h3>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md">
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="animate-pulse">
+          <div className="h-4 bg-gray-200 rounded w-1/2 mb-2"></div>
+          <div className="h-4 bg-gray-200 rounded w-3/4"></div>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Script against your geofences with the read-only REST API at <code className="text-xs">/api/v1</code>.
+            Send the token as <code className="text-xs">Authorization: Bearer &lt;token&gt;</code>.
+          </p>
+
+          {newToken && (
+            <div className="rounded-md bg-blue-50 p-4">
+              <p className="text-sm font-medium text-blue-900">Your new token</p>
+              <p className="mt-1 text-xs text-blue-800">Copy it now - it will not be shown again.</p>
+              <div className="mt-2 flex items-center space-x-2">
+                <code className="flex-1 truncate rounded bg-white px-2 py-1 text-xs text-gray-900">{newToken}</code>
+                <button
+                  onClick={copyToken}
+                  className="text-blue-600 hover:text-blue-800 transition-colors"
+                  title="Copy token"
+                >
+                  <ClipboardDocumentIcon className="h-5 w-5" />
+                </button>
+              </div>
+            </div>
+          )}
+
+          {tokens.length > 0 && (
+            <ul className="space-y-2">
+              {tokens.map((token) => (
+                <li key={token.id} className="flex items-center justify-between border border-gray-200 rounded-md p-3">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 truncate">
+                      {token.name}
+                      <span className="ml-2 font-mono text-xs font-normal text-gray-500">{token.token_prefix}…</span>
+                      {isExpired(token) && <span className="ml-2 text-xs font-normal text-red-600">Expired</span>}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {token.scopes.join(', ')}
+                      {' · '}
+                      {token.expires_at ? `Expires ${formatDate(token.expires_at)}` : 'Never expires'}
+                      {' · '}
+                      {token.last_used_at ? `Last used ${formatDate(token.last_used_at)}` : 'Never used'}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => revokeToken(token)}
+                    disabled={isUpdating}
+                    className="text-gray-400 hover:text-red-600 transition-colors disabled:opacity-50"
+                    title="Revoke token"
+                  >
+                    <TrashIcon className="h-4 w-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <form onSubmit={handleCreate} className="space-y-3 border border-gray-200 rounded-md p-4">
+            <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+              <input
+                type="text"
+                required
+                maxLength={50}
+                placeholder="Token name, e.g. Discord bot"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className="rounded-md border-gray-300 shadow-sm text-sm focus:border-indigo-500 focus:ring-indigo-500"
+                disabled={isUpdating}
+              />
+              <select
+                aria-label="Token lifetime"
+                value={expiresInDays ?? ''}
+                onChange={(e) => setExpiresInDays(e.target.value ? parseInt(e.target.value) : null)}
+                className="rounded-md border-gray-300 shadow-sm text-sm focus:border-indigo-500 focus:ring-indigo-500"
+                disabled={isUpdating}
+              >
+                {ACCESS_TOKEN_EXPIRY_DAYS.map((days) => (
+                  <option key={days} value={days}>Expires in {days} days</option>
+                ))}
+                <option value="">Never expires</option>
+              </select>
+            </div>
+            <div className="space-y-2">
+              {ACCESS_TOKEN_SCOPES.map(({ value, label }) => (
+                <label key={value} className="flex items-center space-x-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={scopes.includes(value)}
+                    onChange={() => toggleScope(value)}
+                    className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                    disabled={isUpdating}
+                  />
+                  <span>{label}</span>
+                  <code className="text-xs text-gray-500">{value}</code>
+                </label>
+              ))}
+            </div>
+            <button
+              type="submit"
+              disabled={isUpdating || !name.trim() || scopes.length === 0}
+              className="inline-flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
+            >
+              <KeyIcon className="h-4 w-4" />
+              <span>{isUpdating ? 'Creating...' : 'Create Token'}</span>
+            </button>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -8,107 +8,173 @@ import {
   XCircleIcon,
   ExclamationTriangleIcon,
   TrashIcon,
-  PencilIcon
+  PencilIcon,
+  KeyIcon,
+  ClipboardDocumentIcon,
+  ArrowUpTrayIcon
 } from '@heroicons/react/24/outline';
 import { DeviceRegistrationModal } from '../modals/device-registration-modal';
-import { getDeviceMapping, updateDeviceMapping, deleteDeviceMapping } from '../../(lib)/supabase/devices';
+import { TrackImportModal } from '../modals/track-import-modal';
+import { getDeviceMappings, updateDeviceMapping, deleteDeviceMapping, rotateDeviceToken } from '../../(lib)/supabase/devices';
 
 interface DeviceMapping {
   id: string;
   device_id: string;
   id_user: string;
+  name: string;
   enabled: boolean;
   created_at: string;
   last_location_update?: string;
+  has_token?: boolean;
 }
 
 export function DeviceManagementCard() {
-  const [device, setDevice] = useState<DeviceMapping | null>(null);
+  const [devices, setDevices] = useState<DeviceMapping[]>([]);
   const [isLoading, setIsLoading] = useState(true);
-  const [isUpdating, setIsUpdating] = useState(false);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [showRegistrationModal, setShowRegistrationModal] = useState(false);
+  const [editingDevice, setEditingDevice] = useState<DeviceMapping | null>(null);
+  const [importDevice, setImportDevice] = useState<DeviceMapping | null>(null);
+  // Plain token is only available right after registration, ID change or rotation
+  const [issuedToken, setIssuedToken] = useState<{ deviceId: string; token: string } | null>(null);
+  const [copied, setCopied] = useState(false);
 
   useEffect(() => {
-    fetchDevice();
+    fetchDevices();
   }, []);
 
-  const fetchDevice = async () => {
+  const fetchDevices = async () => {
     try {
       setIsLoading(true);
       setError(null);
 
-      const result = await getDeviceMapping();
+      const result = await getDeviceMappings();
 
       if (!result.success) {
         throw new Error(result.error);
       }
 
-      setDevice(result.data);
+      setDevices(result.data);
     } catch (error) {
-      console.error('Failed to fetch device:', error);
-      setError(error instanceof Error ? error.message : 'Failed to fetch device');
+      console.error('Failed to fetch devices:', error);
+      setError(error instanceof Error ? error.message : 'Failed to fetch devices');
     } finally {
       setIsLoading(false);
     }
   };
 
-  const toggleDeviceEnabled = async () => {
-    if (!device) return;
+  const replaceDevice = (updated: DeviceMapping) => {
+    setDevices(prev => prev.map(d => d.id === updated.id ? updated : d));
+  };
 
+  const showIssuedToken = (deviceId: string, token?: string) => {
+    if (token) {
+      setIssuedToken({ deviceId, token });
+      setCopied(false);
+    }
+  };
+
+  const toggleDeviceEnabled = async (device: DeviceMapping) => {
     try {
-      setIsUpdating(true);
+      setUpdatingId(device.id);
       setError(null);
 
-      const newEnabled = !device.enabled;
-      setDevice(prev => prev ? { ...prev, enabled: newEnabled } : prev);
+      replaceDevice({ ...device, enabled: !device.enabled });
 
-      const result = await updateDeviceMapping(device.device_id, newEnabled);
+      const result = await updateDeviceMapping(device.id, { enabled: !device.enabled });
 
       if (!result.success) {
-        setDevice(prev => prev ? { ...prev, enabled: device.enabled } : prev);
+        replaceDevice(device);
         throw new Error(result.error);
       }
 
-      setDevice(result.data);
+      replaceDevice(result.data);
     } catch (error) {
       console.error('Failed to update device:', error);
       setError(error instanceof Error ? error.message : 'Failed to update device');
     } finally {
-      setIsUpdating(false);
+      setUpdatingId(null);
     }
   };
 
-  const removeDevice = async () => {
-    if (!device || !confirm('Are you sure you want to permanently remove this device? This cannot be undone and location tracking will stop.')) {
+  const removeDevice = async (device: DeviceMapping) => {
+    if (!confirm(`Are you sure you want to permanently remove "${device.name}"? This cannot be undone and location tracking from this device will stop.`)) {
       return;
     }
 
     try {
-      setIsUpdating(true);
+      setUpdatingId(device.id);
       setError(null);
 
-      setDevice(null);
-
-      const result = await deleteDeviceMapping();
+      const result = await deleteDeviceMapping(device.id);
 
       if (!result.success) {
-        setDevice(device);
         throw new Error(result.error);
       }
 
-      setDevice(null);
+      setDevices(prev => prev.filter(d => d.id !== device.id));
+      if (issuedToken?.deviceId === device.device_id) {
+        setIssuedToken(null);
+      }
     } catch (error) {
       console.error('Failed to remove device:', error);
       setError(error instanceof Error ? error.message : 'Failed to remove device');
     } finally {
-      setIsUpdating(false);
+      setUpdatingId(null);
+    }
+  };
+
+  const rotateToken = async (device: DeviceMapping) => {
+    if (device.has_token && !confirm(`Generate a new access token for "${device.name}"? Its current endpoint URL will stop working until you update it in Overland.`)) {
+      return;
+    }
+
+    try {
+      setUpdatingId(device.id);
+      setError(null);
+
+      const result = await rotateDeviceToken(device.id);
+
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
+      replaceDevice(result.data);
+      showIssuedToken(device.device_id, result.data.access_token);
+    } catch (error) {
+      console.error('Failed to rotate token:', error);
+      setError(error instanceof Error ? error.message : 'Failed to rotate token');
+    } finally {
+      setUpdatingId(null);
     }
   };
 
-  const handleDeviceRegistered = (deviceId: string) => {
-    fetchDevice();
+  const openRegistrationModal = (device: DeviceMapping | null) => {
+    setEditingDevice(device);
+    setShowRegistrationModal(true);
+  };
+
+  const handleDeviceRegistered = (deviceId: string, accessToken?: string) => {
+    showIssuedToken(deviceId, accessToken);
+    fetchDevices();
     setShowRegistrationModal(false);
+    setEditingDevice(null);
+  };
+
+  const getEndpointUrl = (token: string) => {
+    return `${window.location.origin}/api/location-update?token=${encodeURIComponent(token)}`;
+  };
+
+  const copyEndpointUrl = async () => {
+    if (!issuedToken) return;
+
+    try {
+      await navigator.clipboard.writeText(getEndpointUrl(issuedToken.token));
+      setCopied(true);
+    } catch (error) {
+      console.error('Failed to copy endpoint URL:', error);
+    }
   };
 
   const formatLastSeen = (timestamp?: string) => {
@@ -178,7 +244,7 @@ export function DeviceManagementCard() {
       <div className="bg-white rounded-lg shadow p-6">
         <div className="flex items-center space-x-3 mb-4">
           <DevicePhoneMobileIcon className="h-6 w-6 text-blue-600" />
-          <h3 className="text-lg font-semibold text-gray-900">GPS Device</h3>
+          <h3 className="text-lg font-semibold text-gray-900">GPS Devices</h3>
         </div>
         <div className="animate-pulse">
           <div className="h-4 bg-gray-200 rounded w-1/2 mb-2"></div>
@@ -194,27 +260,17 @@ export function DeviceManagementCard() {
         <div className="flex items-center justify-between mb-4">
           <div className="flex items-center space-x-3">
             <DevicePhoneMobileIcon className="h-6 w-6 text-blue-600" />
-            <h3 className="text-lg font-semibold text-gray-900">GPS Device</h3>
+            <h3 className="text-lg font-semibold text-gray-900">GPS Devices</h3>
           </div>
           
-          {device && (
-            <div className="flex items-center space-x-2">
-              <button
-                onClick={() => setShowRegistrationModal(true)}
-                className="text-gray-400 hover:text-gray-600 transition-colors"
-                title="Update device"
-              >
-                <PencilIcon className="h-4 w-4" />
-              </button>
-              <button
-                onClick={removeDevice}
-                disabled={isUpdating}
-                className="text-gray-400 hover:text-red-600 transition-colors"
-                title="Remove device"
-              >
-                <TrashIcon className="h-4 w-4" />
-              </button>
-            </div>
+          {devices.length > 0 && (
+            <button
+              onClick={() => openRegistrationModal(null)}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+              title="Add device"
+            >
+              <PlusIcon className="h-5 w-5" />
+            </button>
           )}
         </div>
 
@@ -224,40 +280,112 @@ export function DeviceManagementCard() {
           </div>
         )}
 
-        {device ? (
+        {devices.length > 0 ? (
           <div className="space-y-4">
-            <div className="flex items-center justify-between">
-              <div className="flex items-center space-x-3">
-                {React.createElement(getStatusIcon(device), {
-                  className: `h-5 w-5 ${getStatusColor(device)}`
-                })}
-                <div>
-                  <p className="text-sm font-medium text-gray-900">{getStatusText(device)}</p>
-                  <p className="text-xs text-gray-500">
-                    Last seen: {formatLastSeen(device.last_location_update)}
-                  </p>
+            {devices.map((device) => {
+              const isUpdating = updatingId === device.id;
+
+              return (
+                <div key={device.id} className="border border-gray-200 rounded-md p-3 space-y-3">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-3 min-w-0">
+                      {React.createElement(getStatusIcon(device), {
+                        className: `h-5 w-5 flex-shrink-0 ${getStatusColor(device)}`
+                      })}
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-gray-900 truncate">{device.name}</p>
+                        <p className="text-xs text-gray-500">
+                          {getStatusText(device)} · Last seen: {formatLastSeen(device.last_location_update)}
+                        </p>
+                      </div>
+                    </div>
+
+                    <div className="flex items-center space-x-2 flex-shrink-0">
+                      <button
+                        onClick={() => openRegistrationModal(device)}
+                        className="text-gray-400 hover:text-gray-600 transition-colors"
+                        title="Edit device"
+                      >
+                        <PencilIcon className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => setImportDevice(device)}
+                        className="text-gray-400 hover:text-gray-600 transition-colors"
+                        title="Import a missed track"
+                      >
+                        <ArrowUpTrayIcon className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => rotateToken(device)}
+                        disabled={isUpdating}
+                        className="text-gray-400 hover:text-gray-600 transition-colors"
+                        title={device.has_token ? 'Rotate access token' : 'Generate access token'}
+                      >
+                        <KeyIcon className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => removeDevice(device)}
+                        disabled={isUpdating}
+                        className="text-gray-400 hover:text-red-600 transition-colors"
+                        title="Remove device"
+                      >
+                        <TrashIcon className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </div>
+
+                  <div className="bg-gray-50 rounded-md p-3">
+                    <div className="text-xs text-gray-500 mb-1">Device ID</div>
+                    <div className="text-sm font-mono text-gray-900 break-all">{device.device_id}</div>
+                  </div>
+
+                  {issuedToken?.deviceId === device.device_id ? (
+                    <div className="bg-blue-50 border border-blue-200 rounded-md p-3">
+                      <div className="text-xs text-blue-900 font-medium mb-1">Overland Endpoint URL</div>
+                      <div className="flex items-start space-x-2">
+                        <code className="flex-1 text-xs font-mono text-blue-900 break-all">
+                          {getEndpointUrl(issuedToken.token)}
+                        </code>
+                        <button
+                          onClick={copyEndpointUrl}
+                          className="text-blue-600 hover:text-blue-800 transition-colors"
+                          title="Copy endpoint URL"
+                        >
+                          <ClipboardDocumentIcon className="h-4 w-4" />
+                        </button>
+                      </div>
+                      <p className="text-xs text-blue-700 mt-2">
+                        {copied ? 'Copied! ' : ''}Paste this into Overland&apos;s Receiver Endpoint on this device. It is shown only once.
+                      </p>
+                    </div>
+                  ) : !device.has_token && (
+                    <div className="bg-yellow-50 border border-yellow-200 rounded-md p-3">
+                      <p className="text-xs text-yellow-800">
+                        This device has no access token, so its location updates are rejected. Use the key button to generate one.
+                      </p>
+                    </div>
+                  )}
+
+                  <button
+                    onClick={() => toggleDeviceEnabled(device)}
+                    disabled={isUpdating}
+                    className={`w-full px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+                      device.enabled
+                        ? 'bg-yellow-100 text-yellow-800 hover:bg-yellow-200'
+                        : 'bg-green-100 text-green-800 hover:bg-green-200'
+                    } disabled:opacity-50 disabled:cursor-not-allowed`}
+                  >
+                    {isUpdating ? 'Updating...' : device.enabled ? 'Disable' : 'Enable'}
+                  </button>
                 </div>
-              </div>
-            </div>
-
-            <div className="bg-gray-50 rounded-md p-3">
-              <div className="text-xs text-gray-500 mb-1">Device ID</div>
-              <div className="text-sm font-mono text-gray-900">{device.device_id}</div>
-            </div>
-
-            <div className="flex space-x-3">
-              <button
-                onClick={toggleDeviceEnabled}
-                disabled={isUpdating}
-                className={`flex-1 px-3 py-2 rounded-md text-sm font-medium transition-colors ${
-                  device.enabled
-                    ? 'bg-yellow-100 text-yellow-800 hover:bg-yellow-200'
-                    : 'bg-green-100 text-green-800 hover:bg-green-200'
-                } disabled:opacity-50 disabled:cursor-not-allowed`}
-              >
-                {isUpdating ? 'Updating...' : device.enabled ? 'Disable' : 'Enable'}
-              </button>
-            </div>
+              );
+            })}
+
+            {devices.length > 1 && (
+              <p className="text-xs text-gray-500">
+                When several devices report at once, the most recent accurate location is used.
+              </p>
+            )}
           </div>
         ) : (
           <div className="text-center py-8">
@@ -266,7 +394,7 @@ export function DeviceManagementCard() {
               No GPS device registered. Register your device to enable automatic location tracking.
             </p>
             <button
-              onClick={() => setShowRegistrationModal(true)}
+              onClick={() => openRegistrationModal(null)}
               className="inline-flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
             >
               <PlusIcon className="h-4 w-4" />
@@ -278,9 +406,19 @@ export function DeviceManagementCard() {
 
       <DeviceRegistrationModal
         isOpen={showRegistrationModal}
-        onClose={() => setShowRegistrationModal(false)}
+        onClose={() => {
+          setShowRegistrationModal(false);
+          setEditingDevice(null);
+        }}
         onDeviceRegistered={handleDeviceRegistered}
+        device={editingDevice}
+      />
+
+      <TrackImportModal
+        isOpen={!!importDevice}
+        onClose={() => setImportDevice(null)}
+        device={importDevice}
       />
     </>
   );
-} 
\ No newline at end of file
+}
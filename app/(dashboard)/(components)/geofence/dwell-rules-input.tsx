@@ -0,0 +1,75 @@
+'use client';
+
+import React from 'react';
+import { ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+
+export interface DwellRules {
+  enter_dwell_seconds: number;
+  enter_min_points: number;
+  exit_dwell_seconds: number;
+  exit_min_points: number;
+}
+
+interface DwellRulesInputProps {
+  rules: DwellRules;
+  onChange: (field: keyof DwellRules, value: number) => void;
+  error?: string;
+  disabled?: boolean;
+}
+
+export function DwellRulesInput({ rules, onChange, error, disabled = false }: DwellRulesInputProps) {
+  const rows: Array<{ label: string; dwell: keyof DwellRules; points: keyof DwellRules }> = [
+    { label: 'Arriving', dwell: 'enter_dwell_seconds', points: 'enter_min_points' },
+    { label: 'Leaving', dwell: 'exit_dwell_seconds', points: 'exit_min_points' }
+  ];
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-2">
+        Confirmation Delay (Dwell Time)
+      </label>
+
+      <div className="space-y-2">
+        {rows.map(({ label, dwell, points }) => (
+          <div key={label} className="flex flex-wrap items-center gap-2 text-sm text-gray-700">
+            <span className="w-20">{label}:</span>
+            <input
+              type="number"
+              aria-label={`${label} minutes`}
+              value={rules[dwell] / 60}
+              onChange={(e) => onChange(dwell, Math.round((parseFloat(e.target.value) || 0) * 60))}
+              min="0"
+              max="60"
+              step="0.5"
+              className="w-20 rounded-md border-gray-300 shadow-sm text-sm focus:border-indigo-500 focus:ring-indigo-500"
+              disabled={disabled}
+            />
+            <span className="text-gray-500">min across at least</span>
+            <input
+              type="number"
+              aria-label={`${label} points`}
+              value={rules[points]}
+              onChange={(e) => onChange(points, parseInt(e.target.value) || 1)}
+              min="1"
+              max="20"
+              step="1"
+              className="w-16 rounded-md border-gray-300 shadow-sm text-sm focus:border-indigo-500 focus:ring-indigo-500"
+              disabled={disabled}
+            />
+            <span className="text-gray-500">points</span>
+          </div>
+        ))}
+      </div>
+
+      {error && (
+        <p className="mt-1 text-sm text-red-600 flex items-center">
+          <ExclamationTriangleIcon className="w-4 h-4 mr-1" />
+          {error}
+        </p>
+      )}
+      <p className="mt-1 text-xs text-gray-500">
+        A status change only takes effect once it has held this long - use 0 min and 1 point to switch immediately
+      </p>
+    </div>
+  );
+}
@@ -1,14 +1,34 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { MapPinIcon, HomeIcon, ExclamationTriangleIcon, ChevronDownIcon, ChevronUpIcon } from '@heroicons/react/24/outline';
+import { GeofenceShape, GeofenceStatusOption, GeofenceVertex } from '../../(lib)/types';
+import { DEFAULT_DWELL_RULES, DEFAULT_STALE_AFTER_MINUTES } from '../../(lib)/geofence';
+import type { Coordinates } from '../../(lib)/geofence';
+import { GEOFENCE_LIMITS, GeofenceFormSchema, getFieldErrors, getMaxHysteresis } from '../../(lib)/action-schemas';
+import type { FieldErrors } from '../../(lib)/action-schemas';
+import { PolygonVerticesInput } from './polygon-vertices-input';
+import { DwellRulesInput } from './dwell-rules-input';
+import { GeofenceMapPicker } from './geofence-map-picker';
+import { StatusOptionsInput } from './status-options-input';
+
+const RADIUS = GEOFENCE_LIMITS.radius_meters;
 
 export interface UpdateGeofenceRequest {
   name: string;
+  shape: GeofenceShape;
   center_latitude: number;
   center_longitude: number;
   radius_meters: number;
   hysteresis_meters: number;
+  max_accuracy_meters?: number;
+  enter_dwell_seconds?: number;
+  enter_min_points?: number;
+  exit_dwell_seconds?: number;
+  exit_min_points?: number;
+  stale_after_minutes?: number;
+  polygon_vertices?: GeofenceVertex[];
+  status_options?: GeofenceStatusOption[];
 }
 
 export interface EditGeofenceFormProps {
@@ -16,52 +36,29 @@ export interface EditGeofenceFormProps {
   onSubmit: (data: UpdateGeofenceRequest) => Promise<void>;
   isLoading?: boolean;
   onCancel?: () => void;
+  // Field errors returned by the server action
+  fieldErrors?: FieldErrors;
 }
 
-export function EditGeofenceForm({ initialData, onSubmit, isLoading = false, onCancel }: EditGeofenceFormProps) {
+export function EditGeofenceForm({ initialData, onSubmit, isLoading = false, onCancel, fieldErrors }: EditGeofenceFormProps) {
   const [formData, setFormData] = useState<UpdateGeofenceRequest>(initialData);
 
-  const [errors, setErrors] = useState<Partial<Record<keyof UpdateGeofenceRequest, string>>>({});
+  const [errors, setErrors] = useState<FieldErrors>({});
   const [isGettingLocation, setIsGettingLocation] = useState(false);
   const [showAdvanced, setShowAdvanced] = useState(false);
 
-  // Form validation
-  const validateForm = (): boolean => {
-    const newErrors: Partial<Record<keyof UpdateGeofenceRequest, string>> = {};
-
-    if (!formData.name.trim()) {
-      newErrors.name = 'Geofence name is required';
-    } else if (formData.name.length < 3) {
-      newErrors.name = 'Name must be at least 3 characters';
-    } else if (formData.name.length > 50) {
-      newErrors.name = 'Name must be less than 50 characters';
-    }
-
-    if (formData.center_latitude === 0 && formData.center_longitude === 0) {
-      newErrors.center_latitude = 'Please set a location for your geofence';
-    } else {
-      if (Math.abs(formData.center_latitude) > 90) {
-        newErrors.center_latitude = 'Latitude must be between -90 and 90';
-      }
-      if (Math.abs(formData.center_longitude) > 180) {
-        newErrors.center_longitude = 'Longitude must be between -180 and 180';
-      }
+  // Show what the server rejected next to the matching fields
+  useEffect(() => {
+    if (fieldErrors) {
+      setErrors(fieldErrors);
     }
+  }, [fieldErrors]);
 
-    if (formData.radius_meters < 10) {
-      newErrors.radius_meters = 'Radius must be at least 10 meters';
-    } else if (formData.radius_meters > 100) {
-      newErrors.radius_meters = 'Radius cannot exceed 100 meters';
-    }
-
-    if (formData.hysteresis_meters < 5) {
-      newErrors.hysteresis_meters = 'Hysteresis must be at least 5 meters';
-    } else if (formData.hysteresis_meters >= formData.radius_meters) {
-      newErrors.hysteresis_meters = 'Hysteresis must be less than radius';
-    }
-
-    setErrors(newErrors);
-    return Object.keys(newErrors).length === 0;
+  // Form validation, with the same schema the server action uses
+  const validateForm = (): boolean => {
+    const result = GeofenceFormSchema.safeParse(formData);
+    setErrors(result.success ? {} : getFieldErrors(result.error));
+    return result.success;
   };
 
   // Get user's current location
@@ -102,6 +99,8 @@ export function EditGeofenceForm({ initialData, onSubmit, isLoading = false, onC
     );
   };
 
+  const radiusPercent = ((formData.radius_meters - RADIUS.min) / (RADIUS.max - RADIUS.min)) * 100;
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -116,7 +115,10 @@ export function EditGeofenceForm({ initialData, onSubmit, isLoading = false, onC
     }
   };
 
-  const handleInputChange = (field: keyof UpdateGeofenceRequest, value: string | number) => {
+  const handleInputChange = (
+    field: keyof UpdateGeofenceRequest,
+    value: string | number | GeofenceVertex[] | GeofenceStatusOption[]
+  ) => {
     setFormData({ ...formData, [field]: value });
     // Clear error for this field when user starts typing
     if (errors[field]) {
@@ -124,6 +126,12 @@ export function EditGeofenceForm({ initialData, onSubmit, isLoading = false, onC
     }
   };
 
+  // Picked on the map, so both coordinates change together
+  const handleCenterChange = ({ latitude, longitude }: Coordinates) => {
+    setFormData({ ...formData, center_latitude: latitude, center_longitude: longitude });
+    setErrors({ ...errors, center_latitude: '', center_longitude: '' });
+  };
+
   return (
     <form onSubmit={handleSubmit} className="space-y-6">
       {/* Geofence Name */}
@@ -158,63 +166,111 @@ export function EditGeofenceForm({ initialData, onSubmit, isLoading = false, onC
           Geofence Location
         </h3>
         
-        {/* Get Current Location Button */}
-        <div className="mb-4">
-          <button
-            type="button"
-            onClick={getCurrentLocation}
-            disabled={isGettingLocation || isLoading}
-            className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
-          >
-            <MapPinIcon className="w-4 h-4 mr-2" />
-            {isGettingLocation ? 'Getting Location...' : 'Use Current Location'}
-          </button>
+        {/* Shape Toggle */}
+        <div className="mb-4 inline-flex rounded-md shadow-sm" role="group">
+          {(['circle', 'polygon'] as const).map((shape) => (
+            <button
+              key={shape}
+              type="button"
+              onClick={() => handleInputChange('shape', shape)}
+              disabled={isLoading}
+              className={`px-4 py-2 text-sm font-medium border first:rounded-l-md last:rounded-r-md focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50 ${
+                formData.shape === shape
+                  ? 'bg-indigo-600 text-white border-indigo-600'
+                  : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+              }`}
+            >
+              {shape === 'circle' ? 'Circle' : 'Polygon'}
+            </button>
+          ))}
         </div>
 
-        {/* Manual Coordinates */}
-        <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
-          <div>
-            <label htmlFor="latitude" className="block text-sm font-medium text-gray-700">
-              Latitude
-            </label>
-            <input
-              type="number"
-              id="latitude"
-              step="any"
-              value={formData.center_latitude || ''}
-              onChange={(e) => handleInputChange('center_latitude', parseFloat(e.target.value) || 0)}
-              placeholder="40.3430"
-              className={`mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm ${
-                errors.center_latitude ? 'border-red-300 focus:border-red-500 focus:ring-red-500' : ''
-              }`}
+        {formData.shape === 'polygon' ? (
+          <>
+            <PolygonVerticesInput
+              vertices={formData.polygon_vertices || []}
+              onChange={(vertices) => handleInputChange('polygon_vertices', vertices)}
+              onLocationError={(message) => setErrors({ ...errors, polygon_vertices: message })}
+              hasError={!!errors.polygon_vertices}
               disabled={isLoading}
             />
-          </div>
-          
-          <div>
-            <label htmlFor="longitude" className="block text-sm font-medium text-gray-700">
-              Longitude
-            </label>
-            <input
-              type="number"
-              id="longitude"
-              step="any"
-              value={formData.center_longitude || ''}
-              onChange={(e) => handleInputChange('center_longitude', parseFloat(e.target.value) || 0)}
-              placeholder="-74.6514"
-              className={`mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm ${
-                errors.center_longitude ? 'border-red-300 focus:border-red-500 focus:ring-red-500' : ''
-              }`}
+            {errors.polygon_vertices && (
+              <p className="mt-2 text-sm text-red-600 flex items-center">
+                <ExclamationTriangleIcon className="w-4 h-4 mr-1" />
+                {errors.polygon_vertices}
+              </p>
+            )}
+          </>
+        ) : (
+          <>
+            {/* Get Current Location Button */}
+            <div className="mb-4">
+              <button
+                type="button"
+                onClick={getCurrentLocation}
+                disabled={isGettingLocation || isLoading}
+                className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <MapPinIcon className="w-4 h-4 mr-2" />
+                {isGettingLocation ? 'Getting Location...' : 'Use Current Location'}
+              </button>
+            </div>
+
+            <GeofenceMapPicker
+              center={{ latitude: formData.center_latitude, longitude: formData.center_longitude }}
+              radiusMeters={formData.radius_meters}
+              hysteresisMeters={formData.hysteresis_meters}
+              onCenterChange={handleCenterChange}
+              onRadiusChange={(radius) => handleInputChange('radius_meters', radius)}
               disabled={isLoading}
             />
-          </div>
-        </div>
+
+            {/* Manual Coordinates */}
+            <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
+              <div>
+                <label htmlFor="latitude" className="block text-sm font-medium text-gray-700">
+                  Latitude
+                </label>
+                <input
+                  type="number"
+                  id="latitude"
+                  step="any"
+                  value={formData.center_latitude || ''}
+                  onChange={(e) => handleInputChange('center_latitude', parseFloat(e.target.value) || 0)}
+                  placeholder="40.3430"
+                  className={`mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm ${
+                    errors.center_latitude ? 'border-red-300 focus:border-red-500 focus:ring-red-500' : ''
+                  }`}
+                  disabled={isLoading}
+                />
+              </div>
+          
+              <div>
+                <label htmlFor="longitude" className="block text-sm font-medium text-gray-700">
+                  Longitude
+                </label>
+                <input
+                  type="number"
+                  id="longitude"
+                  step="any"
+                  value={formData.center_longitude || ''}
+                  onChange={(e) => handleInputChange('center_longitude', parseFloat(e.target.value) || 0)}
+                  placeholder="-74.6514"
+                  className={`mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm ${
+                    errors.center_longitude ? 'border-red-300 focus:border-red-500 focus:ring-red-500' : ''
+                  }`}
+                  disabled={isLoading}
+                />
+              </div>
+            </div>
         
-        {(errors.center_latitude || errors.center_longitude) && (
-          <p className="mt-2 text-sm text-red-600 flex items-center">
-            <ExclamationTriangleIcon className="w-4 h-4 mr-1" />
-            {errors.center_latitude || errors.center_longitude}
-          </p>
+            {(errors.center_latitude || errors.center_longitude) && (
+              <p className="mt-2 text-sm text-red-600 flex items-center">
+                <ExclamationTriangleIcon className="w-4 h-4 mr-1" />
+                {errors.center_latitude || errors.center_longitude}
+              </p>
+            )}
+          </>
         )}
       </div>
 
@@ -223,67 +279,70 @@ export function EditGeofenceForm({ initialData, onSubmit, isLoading = false, onC
         <h3 className="text-lg font-medium text-gray-900 mb-4">Detection Settings</h3>
         
         {/* Radius Control */}
-        <div>
-          <div className="flex items-center justify-between mb-3">
-            <label htmlFor="radius" className="block text-sm font-medium text-gray-700">
-              Detection Radius
-            </label>
-            <div className="flex items-center space-x-2">
+        {formData.shape === 'circle' && (
+          <div>
+            <div className="flex items-center justify-between mb-3">
+              <label htmlFor="radius" className="block text-sm font-medium text-gray-700">
+                Detection Radius
+              </label>
+              <div className="flex items-center space-x-2">
+                <input
+                  type="number"
+                  id="radius-number"
+                  value={formData.radius_meters}
+                  onChange={(e) => handleInputChange('radius_meters', parseInt(e.target.value) || RADIUS.min)}
+                  min={RADIUS.min}
+                  max={RADIUS.max}
+                  step="1"
+                  className={`w-20 rounded-md border-gray-300 shadow-sm text-sm focus:border-indigo-500 focus:ring-indigo-500 ${
+                    errors.radius_meters ? 'border-red-300 focus:border-red-500 focus:ring-red-500' : ''
+                  }`}
+                  disabled={isLoading}
+                />
+                <span className="text-sm text-gray-500">meters</span>
+              </div>
+            </div>
+          
+            <div className="relative">
               <input
-                type="number"
-                id="radius-number"
-                value={formData.radius_meters}
-                onChange={(e) => handleInputChange('radius_meters', parseInt(e.target.value) || 10)}
-                min="10"
-                max="100"
+                type="range"
+                id="radius"
+                min={RADIUS.min}
+                max={RADIUS.max}
                 step="1"
-                className={`w-20 rounded-md border-gray-300 shadow-sm text-sm focus:border-indigo-500 focus:ring-indigo-500 ${
-                  errors.radius_meters ? 'border-red-300 focus:border-red-500 focus:ring-red-500' : ''
-                }`}
+                value={formData.radius_meters}
+                onChange={(e) => handleInputChange('radius_meters', parseInt(e.target.value))}
+                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider-thumb:appearance-none slider-thumb:h-4 slider-thumb:w-4 slider-thumb:rounded-full slider-thumb:bg-indigo-500 slider-thumb:cursor-pointer slider-thumb:shadow-lg slider-thumb:border-2 slider-thumb:border-white focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2"
+                style={{
+                  background: `linear-gradient(to right, #6366f1 0%, #6366f1 ${radiusPercent}%, #e5e7eb ${radiusPercent}%, #e5e7eb 100%)`
+                }}
                 disabled={isLoading}
               />
-              <span className="text-sm text-gray-500">meters</span>
-            </div>
-          </div>
-          
-          <div className="relative">
-            <input
-              type="range"
-              id="radius"
-              min="10"
-              max="100"
-              step="1"
-              value={formData.radius_meters}
-              onChange={(e) => handleInputChange('radius_meters', parseInt(e.target.value))}
-              className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider-thumb:appearance-none slider-thumb:h-4 slider-thumb:w-4 slider-thumb:rounded-full slider-thumb:bg-indigo-500 slider-thumb:cursor-pointer slider-thumb:shadow-lg slider-thumb:border-2 slider-thumb:border-white focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2"
-              style={{
-                background: `linear-gradient(to right, #6366f1 0%, #6366f1 ${((formData.radius_meters - 10) / (100 - 10)) * 100}%, #e5e7eb ${((formData.radius_meters - 10) / (100 - 10)) * 100}%, #e5e7eb 100%)`
-              }}
-              disabled={isLoading}
-            />
-            <div className="flex justify-between text-xs text-gray-400 mt-1">
-              <span>10m</span>
-              <span className="text-gray-600 font-medium">
-                {formData.radius_meters}m
-                {formData.radius_meters <= 20 && " (Small dorm)"}
-                {formData.radius_meters > 20 && formData.radius_meters <= 40 && " (Regular room)"}
-                {formData.radius_meters > 40 && formData.radius_meters <= 70 && " (Large room)"}
-                {formData.radius_meters > 70 && " (Suite/floor)"}
-              </span>
-              <span>100m</span>
+              <div className="flex justify-between text-xs text-gray-400 mt-1">
+                <span>{RADIUS.min}m</span>
+                <span className="text-gray-600 font-medium">
+                  {formData.radius_meters}m
+                  {formData.radius_meters <= 20 && " (Small dorm)"}
+                  {formData.radius_meters > 20 && formData.radius_meters <= 40 && " (Regular room)"}
+                  {formData.radius_meters > 40 && formData.radius_meters <= 70 && " (Large room)"}
+                  {formData.radius_meters > 70 && formData.radius_meters <= 150 && " (Suite/floor)"}
+                  {formData.radius_meters > 150 && " (Building)"}
+                </span>
+                <span>{RADIUS.max}m</span>
+              </div>
             </div>
-          </div>
           
-          {errors.radius_meters && (
-            <p className="mt-2 text-sm text-red-600 flex items-center">
-              <ExclamationTriangleIcon className="w-4 h-4 mr-1" />
-              {errors.radius_meters}
+            {errors.radius_meters && (
+              <p className="mt-2 text-sm text-red-600 flex items-center">
+                <ExclamationTriangleIcon className="w-4 h-4 mr-1" />
+                {errors.radius_meters}
+              </p>
+            )}
+            <p className="mt-2 text-xs text-gray-500">
+              How far from the center point to detect as "in room"
             </p>
-          )}
-          <p className="mt-2 text-xs text-gray-500">
-            How far from the center point to detect as "in room"
-          </p>
-        </div>
+          </div>
+        )}
 
         {/* Advanced Options Toggle */}
         <div className="mt-6">
@@ -306,7 +365,7 @@ export function EditGeofenceForm({ initialData, onSubmit, isLoading = false, onC
               <div>
                 <div className="flex items-center justify-between mb-2">
                   <label htmlFor="hysteresis" className="block text-sm font-medium text-gray-700">
-                    Exit Buffer (Hysteresis)
+                    {formData.shape === 'polygon' ? 'Edge Buffer (Hysteresis)' : 'Exit Buffer (Hysteresis)'}
                   </label>
                   <div className="flex items-center space-x-2">
                     <input
@@ -315,7 +374,7 @@ export function EditGeofenceForm({ initialData, onSubmit, isLoading = false, onC
                       value={formData.hysteresis_meters}
                       onChange={(e) => handleInputChange('hysteresis_meters', parseInt(e.target.value) || 5)}
                       min="5"
-                      max={Math.max(5, formData.radius_meters - 5)}
+                      max={Math.max(GEOFENCE_LIMITS.hysteresis_meters.min, getMaxHysteresis(formData.shape, formData.radius_meters, formData.polygon_vertices))}
                       step="1"
                       className={`w-20 rounded-md border-gray-300 shadow-sm text-sm focus:border-indigo-500 focus:ring-indigo-500 ${
                         errors.hysteresis_meters ? 'border-red-300 focus:border-red-500 focus:ring-red-500' : ''
@@ -333,32 +392,142 @@ export function EditGeofenceForm({ initialData, onSubmit, isLoading = false, onC
                   </p>
                 )}
                 <p className="text-xs text-gray-500">
-                  Prevents rapid status changes - must move this distance beyond detection radius to exit
+                  {formData.shape === 'polygon'
+                    ? 'Prevents rapid status changes - must be this far inside the outline to enter and this far outside to exit'
+                    : 'Prevents rapid status changes - must move this distance beyond detection radius to exit'}
                 </p>
               </div>
               
+              {/* GPS Accuracy Control */}
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <label htmlFor="max-accuracy" className="block text-sm font-medium text-gray-700">
+                    Maximum GPS Accuracy
+                  </label>
+                  <div className="flex items-center space-x-2">
+                    <input
+                      type="number"
+                      id="max-accuracy"
+                      value={formData.max_accuracy_meters ?? ''}
+                      onChange={(e) => handleInputChange('max_accuracy_meters', parseInt(e.target.value) || 0)}
+                      min="5"
+                      max="1000"
+                      step="1"
+                      className={`w-20 rounded-md border-gray-300 shadow-sm text-sm focus:border-indigo-500 focus:ring-indigo-500 ${
+                        errors.max_accuracy_meters ? 'border-red-300 focus:border-red-500 focus:ring-red-500' : ''
+                      }`}
+                      disabled={isLoading}
+                    />
+                    <span className="text-sm text-gray-500">meters</span>
+                  </div>
+                </div>
+
+                {errors.max_accuracy_meters && (
+                  <p className="mt-1 text-sm text-red-600 flex items-center">
+                    <ExclamationTriangleIcon className="w-4 h-4 mr-1" />
+                    {errors.max_accuracy_meters}
+                  </p>
+                )}
+                <p className="text-xs text-gray-500">
+                  Location fixes less precise than this are ignored, and fixes whose uncertainty overlaps the boundary never change status
+                </p>
+              </div>
+
+              {/* Staleness Threshold */}
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <label htmlFor="stale-after" className="block text-sm font-medium text-gray-700">
+                    Mark Unknown After
+                  </label>
+                  <div className="flex items-center space-x-2">
+                    <input
+                      type="number"
+                      id="stale-after"
+                      value={(formData.stale_after_minutes ?? DEFAULT_STALE_AFTER_MINUTES) / 60}
+                      onChange={(e) => handleInputChange('stale_after_minutes', Math.round((parseFloat(e.target.value) || 0) * 60))}
+                      min="0"
+                      max="168"
+                      step="1"
+                      className={`w-20 rounded-md border-gray-300 shadow-sm text-sm focus:border-indigo-500 focus:ring-indigo-500 ${
+                        errors.stale_after_minutes ? 'border-red-300 focus:border-red-500 focus:ring-red-500' : ''
+                      }`}
+                      disabled={isLoading}
+                    />
+                    <span className="text-sm text-gray-500">hours</span>
+                  </div>
+                </div>
+
+                {errors.stale_after_minutes && (
+                  <p className="mt-1 text-sm text-red-600 flex items-center">
+                    <ExclamationTriangleIcon className="w-4 h-4 mr-1" />
+                    {errors.stale_after_minutes}
+                  </p>
+                )}
+                <p className="text-xs text-gray-500">
+                  Members whose phones send no location for this long show as Unknown and stop counting as home until their next fix. Use 0 to never mark anyone Unknown
+                </p>
+              </div>
+
+              {/* Dwell Rules */}
+              <DwellRulesInput
+                rules={{
+                  enter_dwell_seconds: formData.enter_dwell_seconds ?? DEFAULT_DWELL_RULES.enter_dwell_seconds,
+                  enter_min_points: formData.enter_min_points ?? DEFAULT_DWELL_RULES.enter_min_points,
+                  exit_dwell_seconds: formData.exit_dwell_seconds ?? DEFAULT_DWELL_RULES.exit_dwell_seconds,
+                  exit_min_points: formData.exit_min_points ?? DEFAULT_DWELL_RULES.exit_min_points
+                }}
+                onChange={handleInputChange}
+                error={errors.enter_dwell_seconds || errors.enter_min_points || errors.exit_dwell_seconds || errors.exit_min_points}
+                disabled={isLoading}
+              />
+
               {/* Visual Guide */}
               <div className="bg-white rounded border p-3">
                 <h4 className="text-sm font-medium text-gray-900 mb-2">How it Works</h4>
-                <div className="space-y-1 text-xs text-gray-600">
-                  <div className="flex items-center">
-                    <div className="w-3 h-3 rounded-full bg-indigo-500 mr-2"></div>
-                    <span>Detection zone: {formData.radius_meters}m radius</span>
-                  </div>
-                  <div className="flex items-center">
-                    <div className="w-3 h-3 rounded-full bg-emerald-500 mr-2"></div>
-                    <span>Exit buffer: +{formData.hysteresis_meters}m beyond detection zone</span>
+                {formData.shape === 'polygon' ? (
+                  <div className="space-y-1 text-xs text-gray-600">
+                    <div className="flex items-center">
+                      <div className="w-3 h-3 rounded-full bg-indigo-500 mr-2"></div>
+                      <span>Detection zone: inside the {(formData.polygon_vertices || []).length}-corner outline</span>
+                    </div>
+                    <div className="flex items-center">
+                      <div className="w-3 h-3 rounded-full bg-emerald-500 mr-2"></div>
+                      <span>Edge buffer: {formData.hysteresis_meters}m on either side of the outline</span>
+                    </div>
                   </div>
-                  <div className="mt-2 text-xs text-gray-500">
-                    Total exit distance: {formData.radius_meters + formData.hysteresis_meters}m from center
+                ) : (
+                  <div className="space-y-1 text-xs text-gray-600">
+                    <div className="flex items-center">
+                      <div className="w-3 h-3 rounded-full bg-indigo-500 mr-2"></div>
+                      <span>Detection zone: {formData.radius_meters}m radius</span>
+                    </div>
+                    <div className="flex items-center">
+                      <div className="w-3 h-3 rounded-full bg-emerald-500 mr-2"></div>
+                      <span>Exit buffer: +{formData.hysteresis_meters}m beyond detection zone</span>
+                    </div>
+                    <div className="mt-2 text-xs text-gray-500">
+                      Total exit distance: {formData.radius_meters + formData.hysteresis_meters}m from center
+                    </div>
                   </div>
-                </div>
+                )}
               </div>
             </div>
           )}
         </div>
       </div>
 
+      {/* Status Vocabulary */}
+      {formData.status_options && (
+        <div className="border-t pt-6">
+          <StatusOptionsInput
+            options={formData.status_options}
+            onChange={(options) => handleInputChange('status_options', options)}
+            error={errors.status_options}
+            disabled={isLoading}
+          />
+        </div>
+      )}
+
       {/* Form Actions */}
       <div className="flex justify-end space-x-3 pt-6 border-t">
         {onCancel && (
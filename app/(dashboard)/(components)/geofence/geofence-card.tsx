@@ -5,7 +5,8 @@ import { GeofenceCardProps } from '../../(lib)/types';
 import { 
   MapPinIcon, 
   UserGroupIcon, 
-  StarIcon
+  StarIcon,
+  HomeIcon
 } from '@heroicons/react/24/outline';
 
 export function GeofenceCard({ geofence, onViewDetails }: GeofenceCardProps) {
@@ -63,6 +64,14 @@ export function GeofenceCard({ geofence, onViewDetails }: GeofenceCardProps) {
               {geofence.member_count} {geofence.member_count === 1 ? 'member' : 'members'}
             </span>
           </div>
+          <div className={`flex items-center text-sm font-medium ${
+            geofence.occupancy_count > 0 ? 'text-green-600' : 'text-gray-400'
+          }`}>
+            <HomeIcon className="flex-shrink-0 mr-1.5 h-4 w-4" />
+            <span>
+              {geofence.occupancy_count}/{geofence.member_count} home
+            </span>
+          </div>
         </div>
       </div>
     </div>
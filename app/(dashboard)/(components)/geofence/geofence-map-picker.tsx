@@ -0,0 +1,220 @@
+'use client';
+
+import React, { useEffect, useRef } from 'react';
+import type { Circle, Map as LeafletMap, Marker } from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+import { calculateDistance, createTestLocation } from '../../(lib)/geofence';
+import type { Coordinates } from '../../(lib)/geofence';
+import { GEOFENCE_LIMITS } from '../../(lib)/action-schemas';
+import { createTiledMap, loadLeaflet } from '../../(lib)/map-tiles';
+
+const RADIUS = GEOFENCE_LIMITS.radius_meters;
+
+interface GeofenceMapPickerProps {
+  center: Coordinates;
+  radiusMeters: number;
+  hysteresisMeters: number;
+  onCenterChange: (center: Coordinates) => void;
+  onRadiusChange: (radiusMeters: number) => void;
+  disabled?: boolean;
+}
+
+interface PickerLayers {
+  map: LeafletMap;
+  centerMarker: Marker;
+  radiusHandle: Marker;
+  boundary: Circle;
+  enterRing: Circle;
+  exitRing: Circle;
+}
+
+// The forms use 0,0 for a center that hasn't been picked yet
+const hasCenter = (center: Coordinates) => center.latitude !== 0 || center.longitude !== 0;
+
+const roundCoordinate = (value: number) => Math.round(value * 10000000) / 10000000;
+
+const clampRadius = (meters: number) => Math.min(RADIUS.max, Math.max(RADIUS.min, Math.round(meters)));
+
+export function GeofenceMapPicker({
+  center,
+  radiusMeters,
+  hysteresisMeters,
+  onCenterChange,
+  onRadiusChange,
+  disabled = false
+}: GeofenceMapPickerProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const layersRef = useRef<PickerLayers | null>(null);
+  const hasFittedRef = useRef(false);
+
+  // Leaflet handlers are bound once, so they read the latest props from here
+  const propsRef = useRef({ center, radiusMeters, hysteresisMeters, onCenterChange, onRadiusChange, disabled });
+  propsRef.current = { center, radiusMeters, hysteresisMeters, onCenterChange, onRadiusChange, disabled };
+
+  // Move the circles and handle without touching form state, e.g. mid-drag
+  const drawShape = (centerPoint: Coordinates, radius: number, hysteresis: number) => {
+    const layers = layersRef.current;
+    if (!layers) return;
+
+    const latLng: [number, number] = [centerPoint.latitude, centerPoint.longitude];
+    const edge = createTestLocation(centerPoint.latitude, centerPoint.longitude, radius, 90);
+    const visible = hasCenter(centerPoint);
+
+    layers.centerMarker.setLatLng(latLng).setOpacity(visible ? 1 : 0);
+    layers.radiusHandle.setLatLng([edge.latitude, edge.longitude]).setOpacity(visible ? 1 : 0);
+    layers.boundary.setLatLng(latLng).setRadius(visible ? radius : 0);
+    layers.enterRing.setLatLng(latLng).setRadius(visible ? Math.max(radius - hysteresis, 0) : 0);
+    layers.exitRing.setLatLng(latLng).setRadius(visible ? radius + hysteresis : 0);
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+
+    loadLeaflet().then(L => {
+      if (cancelled || !containerRef.current) return;
+
+      const map = createTiledMap(L, containerRef.current);
+      const { center: initial, radiusMeters: radius } = propsRef.current;
+      const latLng: [number, number] = [initial.latitude, initial.longitude];
+
+      const centerMarker = L.marker(latLng, {
+        draggable: true,
+        icon: L.divIcon({
+          className: '',
+          html: '<div class="h-4 w-4 rounded-full bg-indigo-600 border-2 border-white shadow"></div>',
+          iconSize: [16, 16],
+          iconAnchor: [8, 8]
+        }),
+        title: 'Geofence center'
+      }).addTo(map);
+
+      const radiusHandle = L.marker(latLng, {
+        draggable: true,
+        icon: L.divIcon({
+          className: '',
+          html: '<div class="h-3 w-3 rounded-full bg-white border-2 border-indigo-600 shadow cursor-ew-resize"></div>',
+          iconSize: [12, 12],
+          iconAnchor: [6, 6]
+        }),
+        title: 'Drag to resize'
+      }).addTo(map);
+
+      const ring = { weight: 1, dashArray: '4 4', fill: false, interactive: false };
+
+      layersRef.current = {
+        map,
+        centerMarker,
+        radiusHandle,
+        boundary: L.circle(latLng, { radius, color: '#6366f1', weight: 2, fillOpacity: 0.1, interactive: false }).addTo(map),
+        enterRing: L.circle(latLng, { radius: 0, color: '#10b981', ...ring }).addTo(map),
+        exitRing: L.circle(latLng, { radius: 0, color: '#f59e0b', ...ring }).addTo(map)
+      };
+
+      const handleCenterDrag = () => {
+        const { lat, lng } = centerMarker.getLatLng();
+        const { radiusMeters, hysteresisMeters } = propsRef.current;
+        drawShape({ latitude: lat, longitude: lng }, radiusMeters, hysteresisMeters);
+      };
+
+      const commitCenter = (lat: number, lng: number) => {
+        propsRef.current.onCenterChange({ latitude: roundCoordinate(lat), longitude: roundCoordinate(lng) });
+      };
+
+      centerMarker.on('drag', handleCenterDrag);
+      centerMarker.on('dragend', () => {
+        const { lat, lng } = centerMarker.getLatLng();
+        commitCenter(lat, lng);
+      });
+
+      const draggedRadius = () => {
+        const { lat, lng } = radiusHandle.getLatLng();
+        return clampRadius(calculateDistance(propsRef.current.center, { latitude: lat, longitude: lng }));
+      };
+
+      radiusHandle.on('drag', () => {
+        const { center: current, hysteresisMeters } = propsRef.current;
+        drawShape(current, draggedRadius(), hysteresisMeters);
+      });
+      radiusHandle.on('dragend', () => {
+        const radius = draggedRadius();
+        const { center: current, hysteresisMeters } = propsRef.current;
+        // Snap the handle back onto the circle when the radius was clamped
+        drawShape(current, radius, hysteresisMeters);
+        propsRef.current.onRadiusChange(radius);
+      });
+
+      map.on('click', event => {
+        if (centerMarker.dragging?.enabled()) {
+          commitCenter(event.latlng.lat, event.latlng.lng);
+        }
+      });
+
+      // The map mounts inside a modal that may still be sizing itself
+      setTimeout(() => {
+        map.invalidateSize();
+        syncLayers();
+      }, 0);
+    });
+
+    return () => {
+      cancelled = true;
+      layersRef.current?.map.remove();
+      layersRef.current = null;
+      hasFittedRef.current = false;
+    };
+  }, []);
+
+  // Follow edits from the coordinate, radius and hysteresis inputs
+  const syncLayers = () => {
+    const layers = layersRef.current;
+    if (!layers) return;
+
+    const { center: current, radiusMeters: radius, hysteresisMeters: hysteresis, disabled: locked } = propsRef.current;
+    drawShape(current, radius, hysteresis);
+
+    for (const marker of [layers.centerMarker, layers.radiusHandle]) {
+      if (locked) {
+        marker.dragging?.disable();
+      } else {
+        marker.dragging?.enable();
+      }
+    }
+
+    if (!hasCenter(current)) return;
+
+    if (!hasFittedRef.current) {
+      layers.map.fitBounds(layers.exitRing.getBounds(), { padding: [24, 24] });
+      hasFittedRef.current = true;
+    } else if (!layers.map.getBounds().contains([current.latitude, current.longitude])) {
+      layers.map.panTo([current.latitude, current.longitude]);
+    }
+  };
+
+  useEffect(syncLayers);
+
+  return (
+    <div className="mb-4">
+      <div
+        ref={containerRef}
+        className="h-64 w-full rounded-md border border-gray-300 overflow-hidden z-0"
+      />
+      <div className="mt-2 flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-gray-500">
+        <span className="flex items-center">
+          <span className="inline-block w-3 h-0.5 bg-indigo-500 mr-1" />
+          Detection boundary
+        </span>
+        <span className="flex items-center">
+          <span className="inline-block w-3 border-t border-dashed border-emerald-500 mr-1" />
+          Enter at {Math.max(radiusMeters - hysteresisMeters, 0)}m
+        </span>
+        <span className="flex items-center">
+          <span className="inline-block w-3 border-t border-dashed border-amber-500 mr-1" />
+          Exit at {radiusMeters + hysteresisMeters}m
+        </span>
+      </div>
+      <p className="mt-1 text-xs text-gray-500">
+        Click the map or drag the pin to set the center; drag the white handle to resize.
+      </p>
+    </div>
+  );
+}
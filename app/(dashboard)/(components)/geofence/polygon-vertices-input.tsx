@@ -0,0 +1,139 @@
+'use client';
+
+import React, { useState } from 'react';
+import { MapPinIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { GeofenceVertex } from '../../(lib)/types';
+
+interface PolygonVerticesInputProps {
+  vertices: GeofenceVertex[];
+  onChange: (vertices: GeofenceVertex[]) => void;
+  onLocationError?: (message: string) => void;
+  hasError?: boolean;
+  disabled?: boolean;
+}
+
+export function PolygonVerticesInput({
+  vertices,
+  onChange,
+  onLocationError,
+  hasError = false,
+  disabled = false
+}: PolygonVerticesInputProps) {
+  const [isGettingLocation, setIsGettingLocation] = useState(false);
+
+  const updateVertex = (index: number, field: keyof GeofenceVertex, value: number) => {
+    onChange(vertices.map((v, i) => (i === index ? { ...v, [field]: value } : v)));
+  };
+
+  const removeVertex = (index: number) => {
+    onChange(vertices.filter((_, i) => i !== index));
+  };
+
+  // Walk to each corner of the building and add it from the device location
+  const addCurrentLocation = () => {
+    if (!navigator.geolocation) {
+      onLocationError?.('Geolocation is not supported by this browser');
+      return;
+    }
+
+    setIsGettingLocation(true);
+
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        onChange([
+          ...vertices,
+          {
+            latitude: Math.round(position.coords.latitude * 10000000) / 10000000,
+            longitude: Math.round(position.coords.longitude * 10000000) / 10000000
+          }
+        ]);
+        setIsGettingLocation(false);
+      },
+      (error) => {
+        let message = 'Unable to get your location';
+        if (error.code === error.PERMISSION_DENIED) {
+          message = 'Location access denied. Please enable location permission.';
+        } else if (error.code === error.POSITION_UNAVAILABLE) {
+          message = 'Location information is unavailable.';
+        }
+        onLocationError?.(message);
+        setIsGettingLocation(false);
+      },
+      {
+        enableHighAccuracy: true,
+        timeout: 10000,
+        maximumAge: 0
+      }
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        <button
+          type="button"
+          onClick={addCurrentLocation}
+          disabled={isGettingLocation || disabled}
+          className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <MapPinIcon className="w-4 h-4 mr-2" />
+          {isGettingLocation ? 'Getting Location...' : 'Add Current Location as Corner'}
+        </button>
+        <button
+          type="button"
+          onClick={() => onChange([...vertices, { latitude: 0, longitude: 0 }])}
+          disabled={disabled}
+          className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <PlusIcon className="w-4 h-4 mr-2" />
+          Add Corner
+        </button>
+      </div>
+
+      {vertices.length === 0 && (
+        <p className="text-sm text-gray-500">
+          Add at least 3 corners, in order around the outline of the building.
+        </p>
+      )}
+
+      {vertices.map((vertex, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <span className="w-6 text-sm text-gray-500 text-right">{index + 1}.</span>
+          <input
+            type="number"
+            step="any"
+            aria-label={`Corner ${index + 1} latitude`}
+            value={vertex.latitude || ''}
+            onChange={(e) => updateVertex(index, 'latitude', parseFloat(e.target.value) || 0)}
+            placeholder="Latitude"
+            className={`block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm ${
+              hasError ? 'border-red-300 focus:border-red-500 focus:ring-red-500' : ''
+            }`}
+            disabled={disabled}
+          />
+          <input
+            type="number"
+            step="any"
+            aria-label={`Corner ${index + 1} longitude`}
+            value={vertex.longitude || ''}
+            onChange={(e) => updateVertex(index, 'longitude', parseFloat(e.target.value) || 0)}
+            placeholder="Longitude"
+            className={`block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm ${
+              hasError ? 'border-red-300 focus:border-red-500 focus:ring-red-500' : ''
+            }`}
+            disabled={disabled}
+          />
+          <button
+            type="button"
+            onClick={() => removeVertex(index)}
+            disabled={disabled}
+            className="p-1 text-gray-400 hover:text-red-600 transition-colors disabled:opacity-50"
+            title="Remove corner"
+          >
+            <TrashIcon className="h-4 w-4" />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+'use client';
+
+import React from 'react';
+import { ExclamationTriangleIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { GeofenceStatusOption, StatusColorName, StatusIconName, StatusPresence } from '../../(lib)/types';
+import {
+  STATUS_COLOR_NAMES,
+  STATUS_ICON_NAMES,
+  MAX_STATUS_OPTIONS,
+  MAX_STATUS_LABEL_LENGTH,
+  createStatusKey
+} from '../../(lib)/status-options';
+import { STATUS_ICONS, STATUS_SWATCH_CLASSES } from '../members/status-style';
+
+interface StatusOptionsInputProps {
+  options: GeofenceStatusOption[];
+  onChange: (options: GeofenceStatusOption[]) => void;
+  error?: string;
+  disabled?: boolean;
+}
+
+// GPS sets these two, so they can be relabelled but not removed
+const BUILT_IN_KEYS = ['IN_ROOM', 'AWAY'];
+
+export function StatusOptionsInput({ options, onChange, error, disabled = false }: StatusOptionsInputProps) {
+  const updateOption = (index: number, changes: Partial<GeofenceStatusOption>) => {
+    onChange(options.map((option, i) => (i === index ? { ...option, ...changes } : option)));
+  };
+
+  const addOption = () => {
+    const label = 'New Status';
+    onChange([
+      ...options,
+      {
+        key: createStatusKey(label, options.map(option => option.key)),
+        label,
+        icon: 'book-open',
+        color: 'blue',
+        presence: 'present'
+      }
+    ]);
+  };
+
+  const removeOption = (index: number) => {
+    onChange(options.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-2">
+        Statuses
+      </label>
+
+      <div className="space-y-2">
+        {options.map((option, index) => {
+          const Icon = STATUS_ICONS[option.icon];
+          const isBuiltIn = BUILT_IN_KEYS.includes(option.key);
+
+          return (
+            <div key={option.key} className="flex flex-wrap items-center gap-2">
+              <span className={`flex h-8 w-8 items-center justify-center rounded-full text-white ${STATUS_SWATCH_CLASSES[option.color]}`}>
+                <Icon className="h-4 w-4" />
+              </span>
+              <input
+                type="text"
+                aria-label="Status label"
+                value={option.label}
+                onChange={(e) => updateOption(index, { label: e.target.value })}
+                maxLength={MAX_STATUS_LABEL_LENGTH}
+                className="w-32 rounded-md border-gray-300 shadow-sm text-sm focus:border-indigo-500 focus:ring-indigo-500"
+                disabled={disabled}
+              />
+              <select
+                aria-label="Status icon"
+                value={option.icon}
+                onChange={(e) => updateOption(index, { icon: e.target.value as StatusIconName })}
+                className="rounded-md border-gray-300 shadow-sm text-sm focus:border-indigo-500 focus:ring-indigo-500"
+                disabled={disabled}
+              >
+                {STATUS_ICON_NAMES.map((icon) => (
+                  <option key={icon} value={icon}>{icon.replace('-', ' ')}</option>
+                ))}
+              </select>
+              <select
+                aria-label="Status color"
+                value={option.color}
+                onChange={(e) => updateOption(index, { color: e.target.value as StatusColorName })}
+                className="rounded-md border-gray-300 shadow-sm text-sm focus:border-indigo-500 focus:ring-indigo-500"
+                disabled={disabled}
+              >
+                {STATUS_COLOR_NAMES.map((color) => (
+                  <option key={color} value={color}>{color}</option>
+                ))}
+              </select>
+              <select
+                aria-label="Counts as"
+                value={option.presence}
+                onChange={(e) => updateOption(index, { presence: e.target.value as StatusPresence })}
+                className="rounded-md border-gray-300 shadow-sm text-sm focus:border-indigo-500 focus:ring-indigo-500 disabled:bg-gray-100"
+                disabled={disabled || isBuiltIn}
+              >
+                <option value="present">Inside</option>
+                <option value="absent">Outside</option>
+              </select>
+              <button
+                type="button"
+                onClick={() => removeOption(index)}
+                disabled={disabled || isBuiltIn}
+                className="p-1 text-gray-400 hover:text-red-600 disabled:opacity-30 disabled:cursor-not-allowed"
+                title={isBuiltIn ? 'Built-in statuses cannot be removed' : 'Remove status'}
+              >
+                <TrashIcon className="h-4 w-4" />
+              </button>
+            </div>
+          );
+        })}
+      </div>
+
+      {options.length < MAX_STATUS_OPTIONS && (
+        <button
+          type="button"
+          onClick={addOption}
+          disabled={disabled}
+          className="mt-2 inline-flex items-center text-sm font-medium text-indigo-600 hover:text-indigo-800 disabled:opacity-50"
+        >
+          <PlusIcon className="w-4 h-4 mr-1" />
+          Add Status
+        </button>
+      )}
+
+      {error && (
+        <p className="mt-1 text-sm text-red-600 flex items-center">
+          <ExclamationTriangleIcon className="w-4 h-4 mr-1" />
+          {error}
+        </p>
+      )}
+      <p className="mt-1 text-xs text-gray-500">
+        Members can pick any of these. GPS only switches between In Room and Away when someone actually arrives or leaves.
+      </p>
+    </div>
+  );
+}
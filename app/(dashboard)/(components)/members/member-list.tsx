@@ -6,10 +6,15 @@ import {
   UserGroupIcon, 
   ClockIcon,
   StarIcon,
-  XMarkIcon
+  XMarkIcon,
+  HandRaisedIcon
 } from '@heroicons/react/24/outline';
-import { GeofenceMemberWithUser } from '../../(lib)/types';
+import { GeofenceMemberWithUser, GeofenceStatusOption } from '../../(lib)/types';
+import { isManualOverrideActive } from '../../(lib)/geofence';
+import { DEFAULT_STATUS_OPTIONS, findStatusOption } from '../../(lib)/status-options';
+import { STATUS_BADGE_CLASSES, STATUS_ICONS } from './status-style';
 import { removeMember } from '../../(lib)/supabase/members';
+import { getDistanceBandLabel } from '../../(lib)/privacy';
 
 interface MemberListProps {
   members: GeofenceMemberWithUser[];
@@ -17,6 +22,7 @@ interface MemberListProps {
   currentUserId?: string;
   currentUserRole?: 'owner' | 'member';
   geofenceId?: string;
+  statusOptions?: GeofenceStatusOption[];
   onMemberRemoved?: () => void;
 }
 
@@ -24,30 +30,32 @@ interface MemberCardProps {
   member: GeofenceMemberWithUser;
   isCurrentUser: boolean;
   canRemove: boolean;
+  statusOptions: GeofenceStatusOption[];
   onRemove: (member: GeofenceMemberWithUser) => void;
 }
 
-function MemberCard({ member, isCurrentUser, canRemove, onRemove }: MemberCardProps) {
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'IN_ROOM':
-        return 'text-green-400 bg-green-400/10 border-green-400/20';
-      case 'AWAY':
-        return 'text-gray-400 bg-gray-400/10 border-gray-400/20';
-      default:
-        return 'text-gray-400 bg-gray-400/10 border-gray-400/20';
-    }
+function MemberCard({ member, isCurrentUser, canRemove, statusOptions, onRemove }: MemberCardProps) {
+  const statusOption = findStatusOption(member.status, statusOptions);
+
+  const getStatusColor = () => {
+    return STATUS_BADGE_CLASSES[statusOption?.color || 'gray'];
   };
 
-  const getStatusText = (status: string) => {
-    switch (status) {
-      case 'IN_ROOM':
-        return 'In Room';
-      case 'AWAY':
-        return 'Away';
-      default:
-        return 'Unknown';
-    }
+  const getStatusText = () => {
+    return statusOption?.label || 'Unknown';
+  };
+
+  const StatusIcon = statusOption ? STATUS_ICONS[statusOption.icon] : null;
+
+  const isManual = isManualOverrideActive(member);
+  // Only set for members who share their distance
+  const distanceBand = getDistanceBandLabel(member.distance_band);
+
+  const formatTime = (timestamp: string) => {
+    return new Date(timestamp).toLocaleTimeString('en-US', {
+      hour: 'numeric',
+      minute: '2-digit'
+    });
   };
 
   const formatLastUpdate = (timestamp: string) => {
@@ -98,8 +106,13 @@ function MemberCard({ member, isCurrentUser, canRemove, onRemove }: MemberCardPr
         </div>
         
         <div className="flex items-center gap-2">
-          <div className={`px-3 py-1 rounded-full border text-sm font-medium ${getStatusColor(member.status)}`}>
-            {getStatusText(member.status)}
+          <div className={`flex items-center gap-1 px-3 py-1 rounded-full border text-sm font-medium ${getStatusColor()}`}>
+            {isManual ? (
+              <HandRaisedIcon className="h-3 w-3" title="Set manually" />
+            ) : StatusIcon && (
+              <StatusIcon className="h-3 w-3" />
+            )}
+            {getStatusText()}
           </div>
           {canRemove && (
             <button
@@ -120,6 +133,14 @@ function MemberCard({ member, isCurrentUser, canRemove, onRemove }: MemberCardPr
         <div className="flex items-center gap-1">
           <ClockIcon className="h-3 w-3" />
           <span>Last update: {formatLastUpdate(member.last_updated)}</span>
+          {isManual && (
+            <span>
+              · Manual{member.manual_expires_at ? ` until ${formatTime(member.manual_expires_at)}` : ''}
+            </span>
+          )}
+          {distanceBand && (
+            <span>· {distanceBand}</span>
+          )}
         </div>
         
         {member.joined_at && (
@@ -138,6 +159,7 @@ export function MemberList({
   currentUserId, 
   currentUserRole,
   geofenceId,
+  statusOptions = DEFAULT_STATUS_OPTIONS,
   onMemberRemoved 
 }: MemberListProps) {
   const [removingMember, setRemovingMember] = useState<string | null>(null);
@@ -245,6 +267,7 @@ export function MemberList({
               member={member}
               isCurrentUser={isCurrentUser}
               canRemove={canRemove}
+              statusOptions={statusOptions}
               onRemove={handleRemoveMember}
             />
           );
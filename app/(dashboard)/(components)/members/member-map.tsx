@@ -0,0 +1,183 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import type { LayerGroup, Map as LeafletMap } from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+import { MapIcon } from '@heroicons/react/24/outline';
+import { Geofence, GeofenceMemberWithUser, GeofenceStatusOption } from '../../(lib)/types';
+import { findStatusOption } from '../../(lib)/status-options';
+import { sharesPosition } from '../../(lib)/privacy';
+import { createTiledMap, loadLeaflet } from '../../(lib)/map-tiles';
+import { STATUS_SWATCH_CLASSES } from './status-style';
+
+type PositionFreshness = 'live' | 'recent' | 'stale';
+
+// Fixes newer than these are drawn as live or recent; anything older fades out
+const LIVE_SECONDS = 5 * 60;
+const RECENT_SECONDS = 60 * 60;
+
+const FRESHNESS_CLASSES: Record<PositionFreshness, string> = {
+  live: 'ring-2 ring-white',
+  recent: 'opacity-75',
+  stale: 'opacity-40 grayscale'
+};
+
+interface MemberMapProps {
+  geofence: Pick<Geofence, 'shape' | 'center_latitude' | 'center_longitude' | 'radius_meters' | 'polygon_vertices'>;
+  members: GeofenceMemberWithUser[];
+  currentUserId?: string;
+  statusOptions: GeofenceStatusOption[];
+}
+
+interface MapLayers {
+  map: LeafletMap;
+  markers: LayerGroup;
+  L: typeof import('leaflet');
+}
+
+function getFreshness(lastGpsUpdate: string | undefined, now: number): PositionFreshness {
+  if (!lastGpsUpdate) return 'stale';
+
+  const ageSeconds = (now - new Date(lastGpsUpdate).getTime()) / 1000;
+  if (ageSeconds < LIVE_SECONDS) return 'live';
+  if (ageSeconds < RECENT_SECONDS) return 'recent';
+  return 'stale';
+}
+
+function formatAge(timestamp: string | undefined, now: number): string {
+  if (!timestamp) return 'Never';
+
+  const diffMins = Math.floor((now - new Date(timestamp).getTime()) / 60000);
+  if (diffMins < 1) return 'Just now';
+  if (diffMins < 60) return `${diffMins}m ago`;
+
+  const diffHours = Math.floor(diffMins / 60);
+  if (diffHours < 24) return `${diffHours}h ago`;
+
+  return `${Math.floor(diffHours / 24)}d ago`;
+}
+
+function getMemberName(member: GeofenceMemberWithUser): string {
+  return member.users?.full_name || member.users?.email?.split('@')[0] || 'Unknown User';
+}
+
+function getInitials(name: string): string {
+  return name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map(part => part[0].toUpperCase())
+    .join('');
+}
+
+export function MemberMap({
+  geofence,
+  members,
+  currentUserId,
+  statusOptions
+}: MemberMapProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [layers, setLayers] = useState<MapLayers | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  const sharedMembers = members.filter(member =>
+    sharesPosition(member.privacy) && member.last_latitude != null && member.last_longitude != null
+  );
+
+  // Age markers between realtime updates
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 60000);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Create the map with the geofence outline
+  useEffect(() => {
+    let cancelled = false;
+    let map: LeafletMap | null = null;
+
+    loadLeaflet().then(L => {
+      if (cancelled || !containerRef.current) return;
+
+      map = createTiledMap(L, containerRef.current);
+      const style = { color: '#6366f1', weight: 2, fillOpacity: 0.1, interactive: false };
+
+      const outline = geofence.shape === 'polygon' && geofence.polygon_vertices?.length
+        ? L.polygon(geofence.polygon_vertices.map(v => [v.latitude, v.longitude] as [number, number]), style)
+        : L.circle([geofence.center_latitude, geofence.center_longitude], { radius: geofence.radius_meters, ...style });
+
+      outline.addTo(map);
+      map.fitBounds(outline.getBounds(), { padding: [24, 24] });
+
+      setLayers({ map, markers: L.layerGroup().addTo(map), L });
+    });
+
+    return () => {
+      cancelled = true;
+      map?.remove();
+      setLayers(null);
+    };
+  }, [geofence]);
+
+  // Redraw member markers whenever the realtime member list changes
+  useEffect(() => {
+    if (!layers) return;
+
+    const { L, markers } = layers;
+    markers.clearLayers();
+
+    for (const member of sharedMembers) {
+      const name = getMemberName(member);
+      const statusOption = findStatusOption(member.status, statusOptions);
+      const freshness = getFreshness(member.last_gps_update, now);
+
+      const badge = document.createElement('div');
+      badge.className = `flex h-8 w-8 items-center justify-center rounded-full border-2 border-gray-900 text-xs font-semibold text-white shadow ${
+        STATUS_SWATCH_CLASSES[statusOption?.color || 'gray']
+      } ${FRESHNESS_CLASSES[freshness]}`;
+      badge.textContent = getInitials(name);
+
+      // Built as elements so member names are never parsed as HTML
+      const tooltip = document.createElement('div');
+      const title = document.createElement('strong');
+      title.textContent = member.id_user === currentUserId ? `${name} (You)` : name;
+      const detail = document.createElement('div');
+      detail.textContent = `${statusOption?.label || 'Unknown'} · ${formatAge(member.last_gps_update, now)}`;
+      tooltip.append(title, detail);
+
+      L.marker([member.last_latitude!, member.last_longitude!], {
+        icon: L.divIcon({ className: '', html: badge, iconSize: [32, 32], iconAnchor: [16, 16] }),
+        keyboard: false,
+        zIndexOffset: freshness === 'live' ? 1000 : 0
+      })
+        .bindTooltip(tooltip, { direction: 'top', offset: [0, -16] })
+        .addTo(markers);
+    }
+  }, [layers, members, statusOptions, currentUserId, now]);
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 mb-4">
+        <MapIcon className="h-5 w-5 text-indigo-400" />
+        <h2 className="text-xl font-semibold text-white">Map</h2>
+      </div>
+
+      <div
+        ref={containerRef}
+        className="h-80 w-full rounded-lg overflow-hidden z-0"
+      />
+
+      <div className="mt-3 flex flex-wrap items-center justify-between gap-2 text-xs text-gray-400">
+        <span>
+          {sharedMembers.length === 0
+            ? 'No one is sharing their exact position. Members who choose to appear here.'
+            : `${sharedMembers.length} of ${members.length} members sharing their position`}
+        </span>
+        <span className="flex items-center gap-3">
+          <span>Bright: last 5 min</span>
+          <span className="opacity-75">Dimmed: last hour</span>
+          <span className="opacity-40">Faded: older</span>
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,195 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import {
+  ClockIcon,
+  ArrowRightIcon
+} from '@heroicons/react/24/outline';
+import { GeofenceMemberWithUser, GeofenceStatusOption, PresenceEvent } from '../../(lib)/types';
+import { getPresenceTimeline } from '../../(lib)/supabase/members';
+import { DEFAULT_STATUS_OPTIONS, findStatusOption } from '../../(lib)/status-options';
+import { STATUS_ICONS, STATUS_TEXT_CLASSES } from './status-style';
+
+interface PresenceTimelineProps {
+  geofenceId: string;
+  members: GeofenceMemberWithUser[];
+  currentUserId?: string;
+  statusOptions?: GeofenceStatusOption[];
+}
+
+// yyyy-mm-dd in local time, as used by <input type="date">
+const toDateInputValue = (date: Date) => {
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 10);
+};
+
+export function PresenceTimeline({
+  geofenceId,
+  members,
+  currentUserId,
+  statusOptions = DEFAULT_STATUS_OPTIONS
+}: PresenceTimelineProps) {
+  const [selectedUserId, setSelectedUserId] = useState<string>(currentUserId || '');
+  const [fromDate, setFromDate] = useState(() => toDateInputValue(new Date(Date.now() - 6 * 24 * 60 * 60 * 1000)));
+  const [toDate, setToDate] = useState(() => toDateInputValue(new Date()));
+  const [events, setEvents] = useState<PresenceEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Default to the current user, or the first member once the list loads
+  useEffect(() => {
+    if (!selectedUserId && members.length > 0) {
+      setSelectedUserId(currentUserId || members[0].id_user);
+    }
+  }, [members, currentUserId, selectedUserId]);
+
+  useEffect(() => {
+    if (!selectedUserId) return;
+
+    const fetchTimeline = async () => {
+      try {
+        setIsLoading(true);
+        setError(null);
+
+        // Date inputs are local calendar days; the range end is the start of the next day
+        const from = new Date(`${fromDate}T00:00:00`);
+        const to = new Date(`${toDate}T00:00:00`);
+        to.setDate(to.getDate() + 1);
+
+        const result = await getPresenceTimeline(geofenceId, selectedUserId, from.toISOString(), to.toISOString());
+
+        if (!result.success) {
+          throw new Error(result.error);
+        }
+
+        setEvents(result.data);
+      } catch (error) {
+        console.error('Failed to fetch presence timeline:', error);
+        setError(error instanceof Error ? error.message : 'Failed to fetch presence timeline');
+        setEvents([]);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchTimeline();
+  }, [geofenceId, selectedUserId, fromDate, toDate]);
+
+  // Statuses removed from the vocabulary since the event was recorded show their key
+  const getStatusText = (status: string) => findStatusOption(status, statusOptions)?.label || status;
+
+  const formatDay = (timestamp: string) => {
+    return new Date(timestamp).toLocaleDateString('en-US', {
+      weekday: 'long',
+      month: 'long',
+      day: 'numeric'
+    });
+  };
+
+  const formatTime = (timestamp: string) => {
+    return new Date(timestamp).toLocaleTimeString('en-US', {
+      hour: 'numeric',
+      minute: '2-digit'
+    });
+  };
+
+  // Group events by calendar day, preserving newest-first order
+  const eventsByDay = events.reduce((acc, event) => {
+    const day = formatDay(event.occurred_at);
+    (acc[day] = acc[day] || []).push(event);
+    return acc;
+  }, {} as Record<string, PresenceEvent[]>);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3">
+        <ClockIcon className="h-6 w-6 text-gray-400" />
+        <h3 className="text-lg font-semibold text-white">Presence Timeline</h3>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <select
+          value={selectedUserId}
+          onChange={(e) => setSelectedUserId(e.target.value)}
+          className="bg-gray-700 text-white rounded-lg border-gray-600 text-sm focus:border-indigo-500 focus:ring-indigo-500"
+        >
+          {members.map((member) => (
+            <option key={member.id_user} value={member.id_user}>
+              {member.users?.full_name || 'Unknown User'}
+              {member.id_user === currentUserId ? ' (You)' : ''}
+            </option>
+          ))}
+        </select>
+        <input
+          type="date"
+          value={fromDate}
+          max={toDate}
+          onChange={(e) => setFromDate(e.target.value)}
+          className="bg-gray-700 text-white rounded-lg border-gray-600 text-sm focus:border-indigo-500 focus:ring-indigo-500"
+        />
+        <input
+          type="date"
+          value={toDate}
+          min={fromDate}
+          onChange={(e) => setToDate(e.target.value)}
+          className="bg-gray-700 text-white rounded-lg border-gray-600 text-sm focus:border-indigo-500 focus:ring-indigo-500"
+        />
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-900/30 border border-red-700 rounded-lg">
+          <p className="text-sm text-red-300">{error}</p>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="space-y-2">
+          {[...Array(3)].map((_, i) => (
+            <div key={i} className="h-10 bg-gray-700 rounded-lg animate-pulse"></div>
+          ))}
+        </div>
+      ) : events.length === 0 ? (
+        <p className="text-gray-400 text-sm py-4 text-center">
+          No arrivals or departures in this period.
+        </p>
+      ) : (
+        <div className="space-y-4">
+          {Object.entries(eventsByDay).map(([day, dayEvents]) => (
+            <div key={day}>
+              <h4 className="text-sm font-medium text-gray-300 mb-2">{day}</h4>
+              <ol className="border-l border-gray-600 ml-2 space-y-2">
+                {dayEvents.map((event) => {
+                  const toOption = findStatusOption(event.to_status, statusOptions);
+                  const ToIcon = STATUS_ICONS[toOption?.icon || 'map-pin'];
+
+                  return (
+                    <li key={event.id} className="ml-4 flex items-center justify-between bg-gray-700 rounded-lg px-3 py-2">
+                      <div className="flex items-center gap-2 text-sm">
+                        <ToIcon className={`h-4 w-4 ${STATUS_TEXT_CLASSES[toOption?.color || 'gray']}`} />
+                        <span className="text-gray-400">{getStatusText(event.from_status)}</span>
+                        <ArrowRightIcon className="h-3 w-3 text-gray-500" />
+                        <span className={toOption && toOption.color !== 'gray' ? STATUS_TEXT_CLASSES[toOption.color] : 'text-white'}>
+                          {getStatusText(event.to_status)}
+                        </span>
+                      </div>
+                      <div className="text-xs text-gray-400 text-right">
+                        <div>{formatTime(event.occurred_at)}</div>
+                        {event.source === 'manual' ? (
+                          <div>Set manually</div>
+                        ) : event.distance_meters != null ? (
+                          <div>{`${Math.round(event.distance_meters)}m from center${event.source === 'import' ? ' (imported)' : ''}`}</div>
+                        ) : event.source === 'import' ? (
+                          <div>Imported</div>
+                        ) : null}
+                      </div>
+                    </li>
+                  );
+                })}
+              </ol>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
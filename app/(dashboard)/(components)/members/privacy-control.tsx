@@ -0,0 +1,69 @@
+'use client';
+
+import React, { useState } from 'react';
+import { EyeIcon } from '@heroicons/react/24/outline';
+import { GeofenceMemberWithUser, MemberPrivacy } from '../../(lib)/types';
+import { DEFAULT_MEMBER_PRIVACY, MEMBER_PRIVACY_LEVELS } from '../../(lib)/privacy';
+
+interface PrivacyControlProps {
+  member?: GeofenceMemberWithUser;
+  onPrivacyChange: (privacy: MemberPrivacy) => Promise<void>;
+}
+
+export function PrivacyControl({ member, onPrivacyChange }: PrivacyControlProps) {
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!member) return null;
+
+  const privacy = member.privacy ?? DEFAULT_MEMBER_PRIVACY;
+
+  const handleChange = async (next: MemberPrivacy) => {
+    setIsUpdating(true);
+    setError(null);
+
+    try {
+      await onPrivacyChange(next);
+    } catch (error) {
+      console.error('Failed to update privacy:', error);
+      setError(error instanceof Error ? error.message : 'Failed to update privacy settings');
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-3">
+        <EyeIcon className="h-6 w-6 text-gray-400" />
+        <h3 className="text-lg font-semibold text-white">What Members See</h3>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {MEMBER_PRIVACY_LEVELS.map((level) => (
+          <button
+            key={level.value}
+            onClick={() => handleChange(level.value)}
+            disabled={isUpdating || level.value === privacy}
+            className={`text-left px-4 py-3 rounded-lg transition-colors disabled:cursor-not-allowed ${
+              level.value === privacy
+                ? 'bg-indigo-600 text-white'
+                : 'bg-gray-700 hover:bg-gray-600 text-gray-200 disabled:opacity-50'
+            }`}
+          >
+            <span className="block font-semibold">{level.label}</span>
+            <span className={`block text-xs ${level.value === privacy ? 'text-indigo-100' : 'text-gray-400'}`}>
+              {level.description}
+            </span>
+          </button>
+        ))}
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-900/30 border border-red-700 rounded-lg">
+          <p className="text-sm text-red-300">{error}</p>
+        </div>
+      )}
+    </div>
+  );
+}
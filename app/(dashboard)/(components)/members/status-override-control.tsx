@@ -0,0 +1,160 @@
+'use client';
+
+import React, { useState } from 'react';
+import { HandRaisedIcon, SignalIcon } from '@heroicons/react/24/outline';
+import { GeofenceMemberWithUser, GeofenceStatusOption } from '../../(lib)/types';
+import { isManualOverrideActive } from '../../(lib)/geofence';
+import { DEFAULT_STATUS_OPTIONS } from '../../(lib)/status-options';
+import { STATUS_ICONS } from './status-style';
+
+interface StatusOverrideControlProps {
+  member?: GeofenceMemberWithUser;
+  statusOptions?: GeofenceStatusOption[];
+  onStatusUpdate: (status: string, expiresAt?: string | null) => Promise<void>;
+  onClearOverride: () => Promise<void>;
+}
+
+type ExpiryOption = 'none' | '1h' | '4h' | 'time';
+
+// Next occurrence of a local HH:MM, today or tomorrow
+const nextOccurrence = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const date = new Date();
+  date.setHours(hours, minutes, 0, 0);
+  if (date.getTime() <= Date.now()) {
+    date.setDate(date.getDate() + 1);
+  }
+  return date;
+};
+
+export function StatusOverrideControl({
+  member,
+  statusOptions = DEFAULT_STATUS_OPTIONS,
+  onStatusUpdate,
+  onClearOverride
+}: StatusOverrideControlProps) {
+  const [expiry, setExpiry] = useState<ExpiryOption>('none');
+  const [untilTime, setUntilTime] = useState('18:00');
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!member) return null;
+
+  const isManual = isManualOverrideActive(member);
+  // Statuses cannot be set while sharing is paused
+  const isPaused = member.privacy === 'paused';
+
+  const getExpiresAt = (): string | null => {
+    switch (expiry) {
+      case '1h':
+        return new Date(Date.now() + 60 * 60 * 1000).toISOString();
+      case '4h':
+        return new Date(Date.now() + 4 * 60 * 60 * 1000).toISOString();
+      case 'time':
+        return nextOccurrence(untilTime).toISOString();
+      default:
+        return null;
+    }
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    setIsUpdating(true);
+    setError(null);
+
+    try {
+      await action();
+    } catch (error) {
+      console.error('Failed to update status:', error);
+      setError(error instanceof Error ? error.message : 'Failed to update status');
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const formatTime = (timestamp: string) => {
+    return new Date(timestamp).toLocaleTimeString('en-US', {
+      hour: 'numeric',
+      minute: '2-digit'
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <HandRaisedIcon className="h-6 w-6 text-gray-400" />
+          <h3 className="text-lg font-semibold text-white">Your Status</h3>
+        </div>
+        <p className="text-sm text-gray-400">
+          {isPaused
+            ? 'Paused'
+            : isManual
+            ? `Set manually${member.manual_expires_at ? ` until ${formatTime(member.manual_expires_at)}` : ''}`
+            : 'From GPS'}
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+        {statusOptions.map((option) => {
+          const Icon = STATUS_ICONS[option.icon];
+
+          return (
+            <button
+              key={option.key}
+              onClick={() => run(() => onStatusUpdate(option.key, getExpiresAt()))}
+              disabled={isUpdating || isPaused}
+              className={`flex items-center justify-center gap-2 px-4 py-2 rounded-lg font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                member.status === option.key
+                  ? 'bg-indigo-600 hover:bg-indigo-700 text-white'
+                  : 'bg-gray-700 hover:bg-gray-600 text-gray-200'
+              }`}
+            >
+              <Icon className="h-4 w-4" />
+              {option.label}
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <select
+          value={expiry}
+          onChange={(e) => setExpiry(e.target.value as ExpiryOption)}
+          className="bg-gray-700 text-white rounded-lg border-gray-600 text-sm focus:border-indigo-500 focus:ring-indigo-500"
+          disabled={isUpdating}
+        >
+          <option value="none">Until I change it</option>
+          <option value="1h">For 1 hour</option>
+          <option value="4h">For 4 hours</option>
+          <option value="time">Until a time...</option>
+        </select>
+        {expiry === 'time' && (
+          <input
+            type="time"
+            value={untilTime}
+            onChange={(e) => setUntilTime(e.target.value)}
+            className="bg-gray-700 text-white rounded-lg border-gray-600 text-sm focus:border-indigo-500 focus:ring-indigo-500"
+            disabled={isUpdating}
+          />
+        )}
+
+        {isManual && (
+          <button
+            onClick={() => run(onClearOverride)}
+            disabled={isUpdating}
+            className="flex items-center gap-1 text-indigo-400 hover:text-indigo-300 transition-colors disabled:opacity-50"
+          >
+            <SignalIcon className="h-4 w-4" />
+            Back to GPS
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-900/30 border border-red-700 rounded-lg">
+          <p className="text-sm text-red-300">{error}</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+import type { ComponentType, SVGProps } from 'react';
+import {
+  HomeIcon,
+  MapPinIcon,
+  BookOpenIcon,
+  MoonIcon,
+  BriefcaseIcon,
+  AcademicCapIcon,
+  HeartIcon,
+  BoltIcon,
+  SunIcon,
+  ShoppingBagIcon,
+  TruckIcon,
+  GlobeAltIcon,
+  QuestionMarkCircleIcon
+} from '@heroicons/react/24/outline';
+import type { StatusColorName, StatusIconName } from '../../(lib)/types';
+
+// Icons for statuses; owners pick from STATUS_ICON_NAMES
+export const STATUS_ICONS: Record<StatusIconName, ComponentType<SVGProps<SVGSVGElement>>> = {
+  'home': HomeIcon,
+  'map-pin': MapPinIcon,
+  'book-open': BookOpenIcon,
+  'moon': MoonIcon,
+  'briefcase': BriefcaseIcon,
+  'academic-cap': AcademicCapIcon,
+  'heart': HeartIcon,
+  'bolt': BoltIcon,
+  'sun': SunIcon,
+  'shopping-bag': ShoppingBagIcon,
+  'truck': TruckIcon,
+  'globe': GlobeAltIcon,
+  'question-mark-circle': QuestionMarkCircleIcon
+};
+
+// Full class strings so Tailwind keeps them in the build
+export const STATUS_BADGE_CLASSES: Record<StatusColorName, string> = {
+  green: 'text-green-400 bg-green-400/10 border-green-400/20',
+  gray: 'text-gray-400 bg-gray-400/10 border-gray-400/20',
+  blue: 'text-blue-400 bg-blue-400/10 border-blue-400/20',
+  indigo: 'text-indigo-400 bg-indigo-400/10 border-indigo-400/20',
+  purple: 'text-purple-400 bg-purple-400/10 border-purple-400/20',
+  pink: 'text-pink-400 bg-pink-400/10 border-pink-400/20',
+  red: 'text-red-400 bg-red-400/10 border-red-400/20',
+  orange: 'text-orange-400 bg-orange-400/10 border-orange-400/20',
+  yellow: 'text-yellow-400 bg-yellow-400/10 border-yellow-400/20',
+  teal: 'text-teal-400 bg-teal-400/10 border-teal-400/20'
+};
+
+export const STATUS_TEXT_CLASSES: Record<StatusColorName, string> = {
+  green: 'text-green-400',
+  gray: 'text-gray-400',
+  blue: 'text-blue-400',
+  indigo: 'text-indigo-400',
+  purple: 'text-purple-400',
+  pink: 'text-pink-400',
+  red: 'text-red-400',
+  orange: 'text-orange-400',
+  yellow: 'text-yellow-400',
+  teal: 'text-teal-400'
+};
+
+export const STATUS_SWATCH_CLASSES: Record<StatusColorName, string> = {
+  green: 'bg-green-500',
+  gray: 'bg-gray-500',
+  blue: 'bg-blue-500',
+  indigo: 'bg-indigo-500',
+  purple: 'bg-purple-500',
+  pink: 'bg-pink-500',
+  red: 'bg-red-500',
+  orange: 'bg-orange-500',
+  yellow: 'bg-yellow-500',
+  teal: 'bg-teal-500'
+};
@@ -9,28 +9,44 @@ import { createGeofence } from '../../(lib)/supabase/geofences';
 export function CreateGeofenceModal({ isOpen, onClose, onGeofenceCreated }: CreateGeofenceModalProps) {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string> | undefined>();
   const [success, setSuccess] = useState<CreateGeofenceResponse | null>(null);
 
   // Handle form submission using server action
   const handleSubmit = async (formData: CreateGeofenceRequest) => {
     setIsLoading(true);
     setError(null);
+    setFieldErrors(undefined);
 
     try {
       // Convert form data to FormData for server action
       const serverFormData = new FormData();
       serverFormData.append('name', formData.name);
-      serverFormData.append('center_latitude', formData.center_latitude.toString());
-      serverFormData.append('center_longitude', formData.center_longitude.toString());
-      serverFormData.append('radius_meters', formData.radius_meters.toString());
+      serverFormData.append('shape', formData.shape);
+      if (formData.shape === 'polygon') {
+        serverFormData.append('polygon_vertices', JSON.stringify(formData.polygon_vertices || []));
+      } else {
+        serverFormData.append('center_latitude', formData.center_latitude.toString());
+        serverFormData.append('center_longitude', formData.center_longitude.toString());
+        serverFormData.append('radius_meters', formData.radius_meters.toString());
+      }
       if (formData.hysteresis_meters) {
         serverFormData.append('hysteresis_meters', formData.hysteresis_meters.toString());
       }
+      if (formData.max_accuracy_meters) {
+        serverFormData.append('max_accuracy_meters', formData.max_accuracy_meters.toString());
+      }
+      for (const field of ['enter_dwell_seconds', 'enter_min_points', 'exit_dwell_seconds', 'exit_min_points', 'stale_after_minutes'] as const) {
+        if (formData[field] !== undefined) {
+          serverFormData.append(field, formData[field]!.toString());
+        }
+      }
 
       // Call server action
       const result = await createGeofence(serverFormData);
 
       if (!result.success) {
+        setFieldErrors(result.fieldErrors);
         throw new Error(result.error);
       }
 
@@ -58,6 +74,7 @@ export function CreateGeofenceModal({ isOpen, onClose, onGeofenceCreated }: Crea
   // Handle modal close with cleanup
   const handleClose = () => {
     setError(null);
+    setFieldErrors(undefined);
     setSuccess(null);
     setIsLoading(false);
     onClose();
@@ -147,6 +164,7 @@ export function CreateGeofenceModal({ isOpen, onClose, onGeofenceCreated }: Crea
                 onSubmit={handleSubmit}
                 isLoading={isLoading}
                 onCancel={handleClose}
+                fieldErrors={fieldErrors}
               />
             )}
           </div>
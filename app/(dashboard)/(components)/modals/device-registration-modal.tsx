@@ -1,25 +1,33 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { XMarkIcon, CheckCircleIcon, DevicePhoneMobileIcon } from '@heroicons/react/24/outline';
-import { updateDeviceMapping } from '../../(lib)/supabase/devices';
+import { createDeviceMapping, updateDeviceMapping } from '../../(lib)/supabase/devices';
 
 interface DeviceRegistrationModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onDeviceRegistered?: (deviceId: string) => void;
+  onDeviceRegistered?: (deviceId: string, accessToken?: string) => void;
+  // Existing device to edit; omit to register a new one
+  device?: { id: string; device_id: string; name: string } | null;
 }
 
-interface DeviceRegistrationData {
-  device_id: string;
-  enabled: boolean;
-}
-
-export function DeviceRegistrationModal({ isOpen, onClose, onDeviceRegistered }: DeviceRegistrationModalProps) {
+export function DeviceRegistrationModal({ isOpen, onClose, onDeviceRegistered, device }: DeviceRegistrationModalProps) {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
   const [deviceId, setDeviceId] = useState('');
+  const [name, setName] = useState('');
+
+  const isEditing = !!device;
+
+  // Prefill the form whenever the modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setDeviceId(device?.device_id || '');
+      setName(device?.name || '');
+    }
+  }, [isOpen, device]);
 
   // Handle form submission
   const handleSubmit = async (e: React.FormEvent) => {
@@ -30,23 +38,30 @@ export function DeviceRegistrationModal({ isOpen, onClose, onDeviceRegistered }:
       return;
     }
 
+    if (!name.trim()) {
+      setError('Device name is required');
+      return;
+    }
+
     setIsLoading(true);
     setError(null);
 
     try {
       // Call server action
-      const result = await updateDeviceMapping(deviceId.trim(), true);
+      const result = device
+        ? await updateDeviceMapping(device.id, { device_id: deviceId.trim(), name: name.trim() })
+        : await createDeviceMapping(deviceId.trim(), name.trim());
 
       if (!result.success) {
         throw new Error(result.error);
       }
 
       // Success - show success message
-      setSuccess('Device registered successfully!');
+      setSuccess(isEditing ? 'Device updated successfully!' : 'Device registered successfully!');
       
       // Notify parent component
       if (onDeviceRegistered) {
-        onDeviceRegistered(deviceId.trim());
+        onDeviceRegistered(deviceId.trim(), result.data.access_token);
       }
       
       // Close modal immediately instead of waiting
@@ -63,6 +78,7 @@ export function DeviceRegistrationModal({ isOpen, onClose, onDeviceRegistered }:
   // Reset modal state when closing
   const handleClose = () => {
     setDeviceId('');
+    setName('');
     setError(null);
     setSuccess(null);
     setIsLoading(false);
@@ -87,7 +103,7 @@ export function DeviceRegistrationModal({ isOpen, onClose, onDeviceRegistered }:
             <div className="flex items-center space-x-3">
               <DevicePhoneMobileIcon className="h-6 w-6 text-blue-600" />
               <h3 className="text-lg font-semibold text-gray-900">
-                Register GPS Device
+                {isEditing ? 'Edit GPS Device' : 'Register GPS Device'}
               </h3>
             </div>
             
@@ -119,6 +135,22 @@ export function DeviceRegistrationModal({ isOpen, onClose, onDeviceRegistered }:
 
           {/* Form */}
           <form onSubmit={handleSubmit} className="space-y-6">
+            <div>
+              <label htmlFor="device_name" className="block text-sm font-medium text-gray-700 mb-2">
+                Device Name
+              </label>
+              <input
+                type="text"
+                id="device_name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g., Phone, Tablet"
+                maxLength={50}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                disabled={isLoading || !!success}
+              />
+            </div>
+
             <div>
               <label htmlFor="device_id" className="block text-sm font-medium text-gray-700 mb-2">
                 Device ID
@@ -133,7 +165,9 @@ export function DeviceRegistrationModal({ isOpen, onClose, onDeviceRegistered }:
                 disabled={isLoading || !!success}
               />
               <p className="text-xs text-gray-500 mt-1">
-                Find this in your Overland GPS app settings
+                {isEditing
+                  ? 'Changing the Device ID issues a new endpoint URL'
+                  : 'Find this in your Overland GPS app settings'}
               </p>
             </div>
 
@@ -161,10 +195,10 @@ export function DeviceRegistrationModal({ isOpen, onClose, onDeviceRegistered }:
               
               <button
                 type="submit"
-                disabled={isLoading || !!success || !deviceId.trim()}
+                disabled={isLoading || !!success || !deviceId.trim() || !name.trim()}
                 className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
               >
-                {isLoading ? 'Registering...' : 'Register Device'}
+                {isLoading ? 'Saving...' : isEditing ? 'Save Changes' : 'Register Device'}
               </button>
             </div>
           </form>
@@ -3,7 +3,11 @@
 import React, { useState } from 'react';
 import { XMarkIcon, CheckCircleIcon } from '@heroicons/react/24/outline';
 import { EditGeofenceForm, UpdateGeofenceRequest } from '../geofence/edit-geofence-form';
+import { WebhookSettings } from '../webhooks/webhook-settings';
 import { updateGeofence } from '../../(lib)/supabase/geofences';
+import { DEFAULT_MAX_ACCURACY_METERS, DEFAULT_DWELL_RULES, DEFAULT_STALE_AFTER_MINUTES } from '../../(lib)/geofence';
+import { getStatusOptions } from '../../(lib)/status-options';
+import type { GeofenceShape, GeofenceStatusOption, GeofenceVertex } from '../../(lib)/types';
 
 export interface GeofenceSettingsModalProps {
   isOpen: boolean;
@@ -11,10 +15,19 @@ export interface GeofenceSettingsModalProps {
   geofence: {
     id_geofence: string;
     name: string;
+    shape?: GeofenceShape;
     center_latitude: number;
     center_longitude: number;
     radius_meters: number;
     hysteresis_meters: number;
+    max_accuracy_meters?: number | null;
+    enter_dwell_seconds?: number;
+    enter_min_points?: number;
+    exit_dwell_seconds?: number;
+    exit_min_points?: number;
+    stale_after_minutes?: number;
+    polygon_vertices?: GeofenceVertex[] | null;
+    status_options?: GeofenceStatusOption[] | null;
   };
   onGeofenceUpdated?: (updatedGeofence: any) => void;
 }
@@ -27,17 +40,23 @@ export function GeofenceSettingsModal({
 }: GeofenceSettingsModalProps) {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string> | undefined>();
   const [success, setSuccess] = useState<any | null>(null);
 
   // Handle form submission using server action
   const handleSubmit = async (formData: UpdateGeofenceRequest) => {
     setIsLoading(true);
     setError(null);
+    setFieldErrors(undefined);
 
     try {
       // Convert form data to FormData for server action
       const serverFormData = new FormData();
       if (formData.name) serverFormData.append('name', formData.name);
+      serverFormData.append('shape', formData.shape);
+      if (formData.shape === 'polygon') {
+        serverFormData.append('polygon_vertices', JSON.stringify(formData.polygon_vertices || []));
+      }
       if (formData.center_latitude !== undefined) {
         serverFormData.append('center_latitude', formData.center_latitude.toString());
       }
@@ -50,11 +69,23 @@ export function GeofenceSettingsModal({
       if (formData.hysteresis_meters !== undefined) {
         serverFormData.append('hysteresis_meters', formData.hysteresis_meters.toString());
       }
+      if (formData.max_accuracy_meters !== undefined) {
+        serverFormData.append('max_accuracy_meters', formData.max_accuracy_meters.toString());
+      }
+      for (const field of ['enter_dwell_seconds', 'enter_min_points', 'exit_dwell_seconds', 'exit_min_points', 'stale_after_minutes'] as const) {
+        if (formData[field] !== undefined) {
+          serverFormData.append(field, formData[field]!.toString());
+        }
+      }
+      if (formData.status_options) {
+        serverFormData.append('status_options', JSON.stringify(formData.status_options));
+      }
 
       // Call server action
       const result = await updateGeofence(geofence.id_geofence, serverFormData);
 
       if (!result.success) {
+        setFieldErrors(result.fieldErrors);
         throw new Error(result.error);
       }
 
@@ -82,6 +113,7 @@ export function GeofenceSettingsModal({
   // Handle modal close with cleanup
   const handleClose = () => {
     setError(null);
+    setFieldErrors(undefined);
     setSuccess(null);
     setIsLoading(false);
     onClose();
@@ -94,10 +126,19 @@ export function GeofenceSettingsModal({
 
   const initialData: UpdateGeofenceRequest = {
     name: geofence.name,
+    shape: geofence.shape || 'circle',
     center_latitude: geofence.center_latitude,
     center_longitude: geofence.center_longitude,
     radius_meters: geofence.radius_meters,
-    hysteresis_meters: geofence.hysteresis_meters
+    hysteresis_meters: geofence.hysteresis_meters,
+    max_accuracy_meters: geofence.max_accuracy_meters ?? DEFAULT_MAX_ACCURACY_METERS,
+    enter_dwell_seconds: geofence.enter_dwell_seconds ?? DEFAULT_DWELL_RULES.enter_dwell_seconds,
+    enter_min_points: geofence.enter_min_points ?? DEFAULT_DWELL_RULES.enter_min_points,
+    exit_dwell_seconds: geofence.exit_dwell_seconds ?? DEFAULT_DWELL_RULES.exit_dwell_seconds,
+    exit_min_points: geofence.exit_min_points ?? DEFAULT_DWELL_RULES.exit_min_points,
+    stale_after_minutes: geofence.stale_after_minutes ?? DEFAULT_STALE_AFTER_MINUTES,
+    polygon_vertices: geofence.polygon_vertices || [],
+    status_options: getStatusOptions(geofence)
   };
 
   return (
@@ -177,8 +218,16 @@ export function GeofenceSettingsModal({
                 onSubmit={handleSubmit}
                 isLoading={isLoading}
                 onCancel={handleClose}
+                fieldErrors={fieldErrors}
               />
             )}
+
+            {/* Webhooks */}
+            {!success && (
+              <div className="mt-8 border-t border-gray-200 pt-6">
+                <WebhookSettings geofenceId={geofence.id_geofence} />
+              </div>
+            )}
           </div>
         </div>
       </div>
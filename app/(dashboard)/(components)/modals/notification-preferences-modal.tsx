@@ -0,0 +1,289 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { XMarkIcon, BellIcon, CheckCircleIcon } from '@heroicons/react/24/outline';
+import { getNotificationPreferences, updateNotificationPreferences } from '../../(lib)/supabase/notifications';
+import { DEFAULT_NOTIFICATION_SETTINGS } from '../../(lib)/notification-preferences';
+import type { NotificationSettings } from '../../(lib)/notification-preferences';
+import type { GeofenceMemberWithUser, NotificationEventType } from '../../(lib)/types';
+
+interface NotificationPreferencesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  geofence: { id_geofence: string; name: string };
+  members: GeofenceMemberWithUser[];
+  currentUserId?: string;
+}
+
+const EVENT_OPTIONS: Array<{ value: NotificationEventType; label: string }> = [
+  { value: 'arrive', label: 'Someone arrives' },
+  { value: 'leave', label: 'Someone leaves' },
+  { value: 'first_arrived', label: 'First person arrives' },
+  { value: 'last_left', label: 'Last person leaves' }
+];
+
+const INTERVAL_OPTIONS = [0, 5, 15, 30, 60, 180];
+
+export function NotificationPreferencesModal({
+  isOpen,
+  onClose,
+  geofence,
+  members,
+  currentUserId
+}: NotificationPreferencesModalProps) {
+  const [settings, setSettings] = useState<NotificationSettings>(DEFAULT_NOTIFICATION_SETTINGS);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  // Quiet hours are evaluated in the timezone of the browser that saved them
+  const timezone = typeof Intl !== 'undefined' ? Intl.DateTimeFormat().resolvedOptions().timeZone : 'UTC';
+  const otherMembers = members.filter(member => member.id_user !== currentUserId);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadSettings();
+    }
+  }, [isOpen]);
+
+  const loadSettings = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      setSaved(false);
+
+      const result = await getNotificationPreferences(geofence.id_geofence);
+
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
+      setSettings(result.data);
+    } catch (error) {
+      console.error('Failed to load notification settings:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load notification settings');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const toggleEvent = (event: NotificationEventType) => {
+    setSettings(prev => ({
+      ...prev,
+      events: prev.events.includes(event) ? prev.events.filter(e => e !== event) : [...prev.events, event]
+    }));
+    setSaved(false);
+  };
+
+  const toggleMember = (userId: string) => {
+    setSettings(prev => {
+      const followed = prev.followed_user_ids ?? otherMembers.map(member => member.id_user);
+      const next = followed.includes(userId) ? followed.filter(id => id !== userId) : [...followed, userId];
+      // Following everyone is stored as null so new members are followed too
+      const followsEveryone = otherMembers.every(member => next.includes(member.id_user));
+      return { ...prev, followed_user_ids: followsEveryone ? null : next };
+    });
+    setSaved(false);
+  };
+
+  const toggleQuietHours = (enabled: boolean) => {
+    setSettings(prev => ({
+      ...prev,
+      quiet_hours_start: enabled ? '22:00' : null,
+      quiet_hours_end: enabled ? '07:00' : null
+    }));
+    setSaved(false);
+  };
+
+  const handleSave = async () => {
+    try {
+      setIsSaving(true);
+      setError(null);
+
+      const result = await updateNotificationPreferences(geofence.id_geofence, { ...settings, timezone });
+
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
+      setSettings(result.data);
+      setSaved(true);
+    } catch (error) {
+      console.error('Failed to save notification settings:', error);
+      setError(error instanceof Error ? error.message : 'Failed to save notification settings');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const isFollowing = (userId: string) => !settings.followed_user_ids || settings.followed_user_ids.includes(userId);
+  const hasQuietHours = !!settings.quiet_hours_start && !!settings.quiet_hours_end;
+  const isDisabled = isLoading || isSaving;
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex min-h-screen items-center justify-center p-4">
+        {/* Backdrop */}
+        <div
+          className="fixed inset-0 bg-black bg-opacity-25 backdrop-blur-sm"
+          onClick={onClose}
+        />
+
+        {/* Modal */}
+        <div className="relative w-full max-w-lg transform rounded-lg bg-white p-6 shadow-xl transition-all">
+          {/* Header */}
+          <div className="flex items-center justify-between mb-6">
+            <div className="flex items-center space-x-3">
+              <BellIcon className="h-6 w-6 text-blue-600" />
+              <h3 className="text-lg font-semibold text-gray-900">
+                Alerts for {geofence.name}
+              </h3>
+            </div>
+
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+            >
+              <XMarkIcon className="h-6 w-6" />
+            </button>
+          </div>
+
+          {/* Error Message */}
+          {error && (
+            <div className="mb-6 rounded-md bg-red-50 p-4">
+              <p className="text-sm text-red-800">{error}</p>
+            </div>
+          )}
+
+          {saved && (
+            <div className="mb-6 flex items-center space-x-3 rounded-md bg-green-50 p-4">
+              <CheckCircleIcon className="h-5 w-5 text-green-600" />
+              <p className="text-sm font-medium text-green-800">Alert settings saved</p>
+            </div>
+          )}
+
+          <div className="space-y-6">
+            {/* Events */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Notify me when</label>
+              <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+                {EVENT_OPTIONS.map(({ value, label }) => (
+                  <label key={value} className="flex items-center space-x-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={settings.events.includes(value)}
+                      onChange={() => toggleEvent(value)}
+                      className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                      disabled={isDisabled}
+                    />
+                    <span>{label}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            {/* Followed Members */}
+            {otherMembers.length > 0 && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Arrivals and departures of</label>
+                <div className="space-y-2">
+                  {otherMembers.map((member) => (
+                    <label key={member.id_user} className="flex items-center space-x-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={isFollowing(member.id_user)}
+                        onChange={() => toggleMember(member.id_user)}
+                        className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                        disabled={isDisabled}
+                      />
+                      <span>{member.users?.full_name || 'Unknown User'}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Quiet Hours */}
+            <div>
+              <label className="flex items-center space-x-2 text-sm font-medium text-gray-700 mb-2">
+                <input
+                  type="checkbox"
+                  checked={hasQuietHours}
+                  onChange={(e) => toggleQuietHours(e.target.checked)}
+                  className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                  disabled={isDisabled}
+                />
+                <span>Quiet hours</span>
+              </label>
+              {hasQuietHours && (
+                <div className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="time"
+                    aria-label="Quiet hours start"
+                    value={settings.quiet_hours_start || ''}
+                    onChange={(e) => setSettings({ ...settings, quiet_hours_start: e.target.value })}
+                    className="rounded-md border-gray-300 shadow-sm text-sm focus:border-indigo-500 focus:ring-indigo-500"
+                    disabled={isDisabled}
+                  />
+                  <span className="text-gray-500">to</span>
+                  <input
+                    type="time"
+                    aria-label="Quiet hours end"
+                    value={settings.quiet_hours_end || ''}
+                    onChange={(e) => setSettings({ ...settings, quiet_hours_end: e.target.value })}
+                    className="rounded-md border-gray-300 shadow-sm text-sm focus:border-indigo-500 focus:ring-indigo-500"
+                    disabled={isDisabled}
+                  />
+                </div>
+              )}
+              <p className="mt-1 text-xs text-gray-500">Times are in {timezone}</p>
+            </div>
+
+            {/* Minimum Interval */}
+            <div>
+              <label htmlFor="min_interval" className="block text-sm font-medium text-gray-700 mb-2">
+                At most one alert every
+              </label>
+              <select
+                id="min_interval"
+                value={settings.min_interval_minutes}
+                onChange={(e) => setSettings({ ...settings, min_interval_minutes: parseInt(e.target.value) })}
+                className="rounded-md border-gray-300 shadow-sm text-sm focus:border-indigo-500 focus:ring-indigo-500"
+                disabled={isDisabled}
+              >
+                {INTERVAL_OPTIONS.map((minutes) => (
+                  <option key={minutes} value={minutes}>
+                    {minutes === 0 ? 'No limit' : minutes < 60 ? `${minutes} minutes` : `${minutes / 60} hour${minutes === 60 ? '' : 's'}`}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {/* Buttons */}
+          <div className="flex space-x-3 mt-6">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 transition-colors"
+              disabled={isSaving}
+            >
+              Close
+            </button>
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={isDisabled}
+              className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
+            >
+              {isSaving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
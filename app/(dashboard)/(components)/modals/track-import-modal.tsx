@@ -0,0 +1,219 @@
+'use client';
+
+import React, { useState } from 'react';
+import { XMarkIcon, CheckCircleIcon, ArrowUpTrayIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { importTrack } from '../../(lib)/supabase/imports';
+import type { TrackImportSummary } from '../../(lib)/types';
+
+interface TrackImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  device: { id: string; name: string } | null;
+}
+
+export function TrackImportModal({ isOpen, onClose, device }: TrackImportModalProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [summary, setSummary] = useState<TrackImportSummary | null>(null);
+
+  // Preview first; the same file is then imported for real
+  const runImport = async (dryRun: boolean) => {
+    if (!file || !device) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('device', device.id);
+      formData.append('dry_run', String(dryRun));
+
+      const result = await importTrack(formData);
+
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
+      setSummary(result.data);
+    } catch (error) {
+      console.error('Failed to import track:', error);
+      setError(error instanceof Error ? error.message : 'Failed to import track');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Reset modal state when closing
+  const handleClose = () => {
+    setFile(null);
+    setError(null);
+    setSummary(null);
+    setIsLoading(false);
+    onClose();
+  };
+
+  const formatDateTime = (timestamp: string) => {
+    return new Date(timestamp).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit'
+    });
+  };
+
+  const getStatusText = (status: string) => status === 'IN_ROOM' ? 'In Room' : 'Away';
+
+  if (!isOpen || !device) return null;
+
+  const isImported = summary && !summary.dry_run;
+  const writableCount = summary?.geofences
+    .filter(g => !g.conflict)
+    .reduce((total, g) => total + g.transitions.length, 0) ?? 0;
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex min-h-screen items-center justify-center p-4">
+        {/* Backdrop */}
+        <div
+          className="fixed inset-0 bg-black bg-opacity-25 backdrop-blur-sm"
+          onClick={handleClose}
+        />
+
+        {/* Modal */}
+        <div className="relative w-full max-w-lg transform rounded-lg bg-white p-6 shadow-xl transition-all">
+          {/* Header */}
+          <div className="flex items-center justify-between mb-6">
+            <div className="flex items-center space-x-3">
+              <ArrowUpTrayIcon className="h-6 w-6 text-blue-600" />
+              <h3 className="text-lg font-semibold text-gray-900">
+                Import Track for {device.name}
+              </h3>
+            </div>
+
+            <button
+              onClick={handleClose}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+            >
+              <XMarkIcon className="h-6 w-6" />
+            </button>
+          </div>
+
+          {/* Error Message */}
+          {error && (
+            <div className="mb-6 rounded-md bg-red-50 p-4">
+              <p className="text-sm text-red-800">{error}</p>
+            </div>
+          )}
+
+          {isImported ? (
+            <div className="mb-6 flex items-center space-x-3 rounded-md bg-green-50 p-4">
+              <CheckCircleIcon className="h-6 w-6 text-green-600" />
+              <div>
+                <p className="text-sm font-medium text-green-800">Track imported</p>
+                <p className="text-xs text-green-600 mt-1">
+                  {summary.point_count} points and {writableCount} transitions added to history. Live status was not changed.
+                </p>
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-2 mb-6">
+              <label htmlFor="track_file" className="block text-sm font-medium text-gray-700">
+                Track File
+              </label>
+              <input
+                type="file"
+                id="track_file"
+                accept=".gpx,.geojson,.json,.csv"
+                onChange={(e) => {
+                  setFile(e.target.files?.[0] || null);
+                  setSummary(null);
+                }}
+                className="block w-full text-sm text-gray-700 file:mr-3 file:rounded-md file:border-0 file:bg-blue-50 file:px-3 file:py-2 file:text-sm file:font-medium file:text-blue-700 hover:file:bg-blue-100"
+                disabled={isLoading}
+              />
+              <p className="text-xs text-gray-500">
+                GPX, GeoJSON FeatureCollection, or CSV with latitude, longitude and timestamp columns (max 5 MB)
+              </p>
+            </div>
+          )}
+
+          {/* Preview */}
+          {summary && (
+            <div className="mb-6 space-y-3">
+              <p className="text-sm text-gray-700">
+                {summary.point_count} points from {formatDateTime(summary.from)} to {formatDateTime(summary.to)}
+                {summary.skipped_count > 0 && ` (${summary.skipped_count} skipped)`}
+              </p>
+
+              {summary.geofences.length === 0 && (
+                <p className="text-sm text-gray-500">You are not a member of any geofence.</p>
+              )}
+
+              {summary.geofences.map((geofence) => (
+                <div key={geofence.id_geofence} className="bg-gray-50 rounded-md p-3">
+                  <div className="flex items-center justify-between mb-1">
+                    <span className="text-sm font-medium text-gray-900">{geofence.name}</span>
+                    <span className="text-xs text-gray-500">
+                      {geofence.transitions.length} transition{geofence.transitions.length === 1 ? '' : 's'}
+                    </span>
+                  </div>
+
+                  {geofence.conflict && (
+                    <p className="text-xs text-yellow-700 flex items-center mb-1">
+                      <ExclamationTriangleIcon className="w-4 h-4 mr-1" />
+                      This period already has recorded arrivals or departures - skipped
+                    </p>
+                  )}
+
+                  <ul className="space-y-1">
+                    {geofence.transitions.map((transition) => (
+                      <li key={transition.occurred_at} className="text-xs text-gray-600">
+                        {formatDateTime(transition.occurred_at)}: {getStatusText(transition.from_status)} → {getStatusText(transition.to_status)}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Buttons */}
+          <div className="flex space-x-3">
+            <button
+              type="button"
+              onClick={handleClose}
+              className="flex-1 px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 transition-colors"
+              disabled={isLoading}
+            >
+              {isImported ? 'Close' : 'Cancel'}
+            </button>
+
+            {!isImported && (
+              summary ? (
+                <button
+                  type="button"
+                  onClick={() => runImport(false)}
+                  disabled={isLoading}
+                  className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
+                >
+                  {isLoading ? 'Importing...' : 'Import'}
+                </button>
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => runImport(true)}
+                  disabled={isLoading || !file}
+                  className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
+                >
+                  {isLoading ? 'Checking...' : 'Preview'}
+                </button>
+              )
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,226 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { BellIcon, BellSlashIcon, TrashIcon } from '@heroicons/react/24/outline';
+import {
+  getPushSubscriptions,
+  savePushSubscription,
+  deletePushSubscription,
+  type PushDevice,
+  type PushSubscriptionInput
+} from '../../(lib)/supabase/notifications';
+
+const VAPID_PUBLIC_KEY = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
+
+// PushManager expects the VAPID key as raw bytes
+const urlBase64ToUint8Array = (base64: string) => {
+  const padded = (base64 + '='.repeat((4 - (base64.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  const raw = window.atob(padded);
+  return Uint8Array.from(raw, (char) => char.charCodeAt(0));
+};
+
+// Short label for the device list, e.g. "Chrome on Android"
+const describeThisDevice = () => {
+  const agent = navigator.userAgent;
+  const browser = /Edg\//.test(agent) ? 'Edge'
+    : /Firefox\//.test(agent) ? 'Firefox'
+    : /Chrome\//.test(agent) ? 'Chrome'
+    : /Safari\//.test(agent) ? 'Safari'
+    : 'Browser';
+  const platform = /Android/.test(agent) ? 'Android'
+    : /iPhone|iPad/.test(agent) ? 'iOS'
+    : /Mac OS X/.test(agent) ? 'macOS'
+    : /Windows/.test(agent) ? 'Windows'
+    : /Linux/.test(agent) ? 'Linux'
+    : 'this device';
+  return `${browser} on ${platform}`;
+};
+
+export function PushNotificationsCard() {
+  const [devices, setDevices] = useState<PushDevice[]>([]);
+  const [currentEndpoint, setCurrentEndpoint] = useState<string | null>(null);
+  const [isSupported, setIsSupported] = useState(true);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const supported = 'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window;
+    setIsSupported(supported);
+    loadDevices(supported);
+  }, []);
+
+  const loadDevices = async (supported: boolean) => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const result = await getPushSubscriptions();
+
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
+      setDevices(result.data);
+
+      if (supported) {
+        const registration = await navigator.serviceWorker.ready;
+        const subscription = await registration.pushManager.getSubscription();
+        setCurrentEndpoint(subscription?.endpoint ?? null);
+      }
+    } catch (error) {
+      console.error('Failed to load notification devices:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load notification settings');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const enableNotifications = async () => {
+    if (!VAPID_PUBLIC_KEY) {
+      setError('Push notifications are not configured on this server');
+      return;
+    }
+
+    try {
+      setIsUpdating(true);
+      setError(null);
+
+      const permission = await Notification.requestPermission();
+      if (permission !== 'granted') {
+        throw new Error('Notifications are blocked. Allow them in your browser settings and try again.');
+      }
+
+      const registration = await navigator.serviceWorker.ready;
+      const subscription = await registration.pushManager.getSubscription()
+        ?? await registration.pushManager.subscribe({
+          userVisibleOnly: true,
+          applicationServerKey: urlBase64ToUint8Array(VAPID_PUBLIC_KEY)
+        });
+
+      const result = await savePushSubscription(
+        subscription.toJSON() as PushSubscriptionInput,
+        describeThisDevice()
+      );
+
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
+      setCurrentEndpoint(subscription.endpoint);
+      setDevices(prev => [...prev.filter(d => d.id !== result.data.id), result.data]);
+    } catch (error) {
+      console.error('Failed to enable notifications:', error);
+      setError(error instanceof Error ? error.message : 'Failed to enable notifications');
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const removeDevice = async (device: PushDevice) => {
+    try {
+      setIsUpdating(true);
+      setError(null);
+
+      if (device.endpoint === currentEndpoint) {
+        const registration = await navigator.serviceWorker.ready;
+        const subscription = await registration.pushManager.getSubscription();
+        await subscription?.unsubscribe();
+        setCurrentEndpoint(null);
+      }
+
+      const result = await deletePushSubscription(device.id);
+
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
+      setDevices(prev => prev.filter(d => d.id !== device.id));
+    } catch (error) {
+      console.error('Failed to remove notification device:', error);
+      setError(error instanceof Error ? error.message : 'Failed to remove notification device');
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const formatDate = (timestamp: string) => {
+    return new Date(timestamp).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric'
+    });
+  };
+
+  const thisDeviceEnabled = devices.some(d => d.endpoint === currentEndpoint);
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex items-center space-x-3 mb-4">
+        <BellIcon className="h-6 w-6 text-blue-600" />
+        <h3 className="text-lg font-semibold text-gray-900">Notifications</h3>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md">
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="animate-pulse">
+          <div className="h-4 bg-gray-200 rounded w-1/2 mb-2"></div>
+          <div className="h-4 bg-gray-200 rounded w-3/4"></div>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Get a notification when a roommate arrives or leaves.
+          </p>
+
+          {devices.length > 0 && (
+            <ul className="space-y-2">
+              {devices.map((device) => (
+                <li key={device.id} className="flex items-center justify-between border border-gray-200 rounded-md p-3">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 truncate">
+                      {device.device_name}
+                      {device.endpoint === currentEndpoint && (
+                        <span className="ml-2 text-xs font-normal text-blue-600">This device</span>
+                      )}
+                    </p>
+                    <p className="text-xs text-gray-500">Enabled {formatDate(device.created_at)}</p>
+                  </div>
+                  <button
+                    onClick={() => removeDevice(device)}
+                    disabled={isUpdating}
+                    className="text-gray-400 hover:text-red-600 transition-colors disabled:opacity-50"
+                    title="Stop notifications on this device"
+                  >
+                    <TrashIcon className="h-4 w-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {!isSupported ? (
+            <div className="flex items-center space-x-2 text-sm text-gray-500">
+              <BellSlashIcon className="h-4 w-4" />
+              <span>This browser does not support push notifications. On iPhone, add GeoDorm to your Home Screen first.</span>
+            </div>
+          ) : !thisDeviceEnabled && (
+            <button
+              onClick={enableNotifications}
+              disabled={isUpdating}
+              className="inline-flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
+            >
+              <BellIcon className="h-4 w-4" />
+              <span>{isUpdating ? 'Enabling...' : 'Enable on This Device'}</span>
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
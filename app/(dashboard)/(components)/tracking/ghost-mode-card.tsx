@@ -0,0 +1,223 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { EyeSlashIcon, PlayIcon } from '@heroicons/react/24/outline';
+import {
+  getTrackingPause,
+  pauseTracking,
+  resumeTracking,
+  setPauseMode,
+  type TrackingPauseSettings
+} from '../../(lib)/supabase/tracking';
+import type { PauseMode } from '../../(lib)/types';
+
+const PAUSE_DURATIONS = [
+  { hours: 1, label: '1 hour' },
+  { hours: 4, label: '4 hours' },
+  { hours: 8, label: '8 hours' },
+  { hours: 24, label: '1 day' }
+];
+
+const PAUSE_MODES: { value: PauseMode; label: string; description: string }[] = [
+  { value: 'store', label: 'Keep in my history', description: 'Locations are saved but do not change your status' },
+  { value: 'drop', label: 'Discard', description: 'Locations sent while paused are thrown away' }
+];
+
+// datetime-local inputs work in local time without a zone
+const toLocalInputValue = (date: Date) => {
+  const offset = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+};
+
+export function GhostModeCard() {
+  const [settings, setSettings] = useState<TrackingPauseSettings | null>(null);
+  const [customUntil, setCustomUntil] = useState('');
+  const [now, setNow] = useState(() => Date.now());
+  const [isLoading, setIsLoading] = useState(true);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  // Flip back to "Tracking is on" when the pause runs out
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 30 * 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const loadSettings = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const result = await getTrackingPause();
+
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
+      setSettings(result.data);
+    } catch (error) {
+      console.error('Failed to load ghost mode:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load ghost mode');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const runUpdate = async (update: () => ReturnType<typeof getTrackingPause>, fallback: string) => {
+    try {
+      setIsUpdating(true);
+      setError(null);
+
+      const result = await update();
+
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
+      setSettings(result.data);
+      setNow(Date.now());
+    } catch (error) {
+      console.error(`${fallback}:`, error);
+      setError(error instanceof Error ? error.message : fallback);
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const pauseFor = (hours: number) => {
+    const until = new Date(Date.now() + hours * 60 * 60 * 1000).toISOString();
+    return runUpdate(() => pauseTracking(until), 'Failed to pause tracking');
+  };
+
+  const pauseUntilCustom = () => {
+    if (!customUntil) {
+      setError('Choose when the pause ends');
+      return;
+    }
+
+    const until = new Date(customUntil).toISOString();
+    return runUpdate(() => pauseTracking(until), 'Failed to pause tracking');
+  };
+
+  const resume = () => runUpdate(resumeTracking, 'Failed to resume tracking');
+
+  const changeMode = (mode: PauseMode) => runUpdate(() => setPauseMode(mode), 'Failed to update ghost mode');
+
+  const formatTime = (timestamp: string) => {
+    return new Date(timestamp).toLocaleString('en-US', {
+      weekday: 'short',
+      hour: 'numeric',
+      minute: '2-digit'
+    });
+  };
+
+  const pausedUntil = settings?.paused_until && new Date(settings.paused_until).getTime() > now
+    ? settings.paused_until
+    : null;
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex items-center space-x-3 mb-4">
+        <EyeSlashIcon className="h-6 w-6 text-gray-600" />
+        <h3 className="text-lg font-semibold text-gray-900">Ghost Mode</h3>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md">
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="animate-pulse">
+          <div className="h-4 bg-gray-200 rounded w-1/2 mb-2"></div>
+          <div className="h-4 bg-gray-200 rounded w-3/4"></div>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {pausedUntil ? (
+            <div className="flex items-center justify-between bg-gray-50 border border-gray-200 rounded-md p-3">
+              <div>
+                <p className="text-sm font-medium text-gray-900">Tracking paused until {formatTime(pausedUntil)}</p>
+                <p className="text-xs text-gray-500">Everyone sees you as Paused. Your status updates again with your next location after that.</p>
+              </div>
+              <button
+                onClick={resume}
+                disabled={isUpdating}
+                className="inline-flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
+              >
+                <PlayIcon className="h-4 w-4" />
+                <span>{isUpdating ? 'Resuming...' : 'Resume Now'}</span>
+              </button>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-600">
+              Pause tracking in all your geofences for a while. Members see you as Paused until it ends.
+            </p>
+          )}
+
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-2">{pausedUntil ? 'Change the end' : 'Pause for'}</p>
+            <div className="flex flex-wrap gap-2">
+              {PAUSE_DURATIONS.map((duration) => (
+                <button
+                  key={duration.hours}
+                  onClick={() => pauseFor(duration.hours)}
+                  disabled={isUpdating}
+                  className="px-3 py-1.5 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  {duration.label}
+                </button>
+              ))}
+            </div>
+            <div className="flex items-center gap-2 mt-2">
+              <input
+                type="datetime-local"
+                value={customUntil}
+                min={toLocalInputValue(new Date(now))}
+                onChange={(e) => setCustomUntil(e.target.value)}
+                disabled={isUpdating}
+                className="px-3 py-1.5 text-sm border border-gray-300 rounded-md text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <button
+                onClick={pauseUntilCustom}
+                disabled={isUpdating || !customUntil}
+                className="px-3 py-1.5 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                Pause Until
+              </button>
+            </div>
+          </div>
+
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-2">Locations sent while paused</p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {PAUSE_MODES.map((mode) => {
+                const selected = (settings?.pause_mode ?? 'store') === mode.value;
+                return (
+                  <button
+                    key={mode.value}
+                    onClick={() => changeMode(mode.value)}
+                    disabled={isUpdating || selected}
+                    className={`text-left px-3 py-2 rounded-md border transition-colors disabled:cursor-not-allowed ${
+                      selected
+                        ? 'border-blue-600 bg-blue-50'
+                        : 'border-gray-300 hover:bg-gray-50 disabled:opacity-50'
+                    }`}
+                  >
+                    <span className="block text-sm font-medium text-gray-900">{mode.label}</span>
+                    <span className="block text-xs text-gray-500">{mode.description}</span>
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
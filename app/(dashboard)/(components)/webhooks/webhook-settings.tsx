@@ -0,0 +1,355 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { ArrowPathIcon, ClipboardDocumentIcon, GlobeAltIcon, TrashIcon } from '@heroicons/react/24/outline';
+import {
+  createWebhookEndpoint,
+  deleteWebhookEndpoint,
+  getWebhookDeliveries,
+  getWebhookEndpoints,
+  retryWebhookDelivery,
+  updateWebhookEndpoint
+} from '../../(lib)/supabase/webhooks';
+import type { WebhookDeliveryLogEntry, WebhookEndpointSummary } from '../../(lib)/supabase/webhooks';
+import type { WebhookDeliveryStatus, WebhookEventType } from '../../(lib)/types';
+
+interface WebhookSettingsProps {
+  geofenceId: string;
+}
+
+const EVENT_OPTIONS: Array<{ value: WebhookEventType; label: string }> = [
+  { value: 'member.status_changed', label: 'Member status changed' },
+  { value: 'member.joined', label: 'Member joined' },
+  { value: 'member.left', label: 'Member left' },
+  { value: 'geofence.updated', label: 'Geofence updated' }
+];
+
+const DELIVERY_STATUS_STYLES: Record<WebhookDeliveryStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  succeeded: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800'
+};
+
+const EMPTY_FORM = { url: '', description: '', events: EVENT_OPTIONS.map(option => option.value) };
+
+export function WebhookSettings({ geofenceId }: WebhookSettingsProps) {
+  const [endpoints, setEndpoints] = useState<WebhookEndpointSummary[]>([]);
+  const [deliveries, setDeliveries] = useState<WebhookDeliveryLogEntry[]>([]);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [newSecret, setNewSecret] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadWebhooks();
+  }, [geofenceId]);
+
+  const loadWebhooks = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const [endpointsResult, deliveriesResult] = await Promise.all([
+        getWebhookEndpoints(geofenceId),
+        getWebhookDeliveries(geofenceId)
+      ]);
+
+      if (!endpointsResult.success) {
+        throw new Error(endpointsResult.error);
+      }
+      if (!deliveriesResult.success) {
+        throw new Error(deliveriesResult.error);
+      }
+
+      setEndpoints(endpointsResult.data);
+      setDeliveries(deliveriesResult.data);
+    } catch (error) {
+      console.error('Failed to load webhooks:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load webhooks');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const toggleFormEvent = (event: WebhookEventType) => {
+    setForm(prev => ({
+      ...prev,
+      events: prev.events.includes(event) ? prev.events.filter(e => e !== event) : [...prev.events, event]
+    }));
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setBusyId('new');
+      setError(null);
+
+      const result = await createWebhookEndpoint(geofenceId, form);
+
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
+      setEndpoints(prev => [...prev, result.data.endpoint]);
+      setNewSecret(result.data.secret);
+      setForm(EMPTY_FORM);
+    } catch (error) {
+      console.error('Failed to add webhook:', error);
+      setError(error instanceof Error ? error.message : 'Failed to add webhook');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleToggleEnabled = async (endpoint: WebhookEndpointSummary) => {
+    try {
+      setBusyId(endpoint.id);
+      setError(null);
+
+      const result = await updateWebhookEndpoint(endpoint.id, { ...endpoint, enabled: !endpoint.enabled });
+
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
+      setEndpoints(prev => prev.map(e => e.id === endpoint.id ? result.data : e));
+    } catch (error) {
+      console.error('Failed to update webhook:', error);
+      setError(error instanceof Error ? error.message : 'Failed to update webhook');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (endpoint: WebhookEndpointSummary) => {
+    if (!confirm(`Stop sending events to ${endpoint.url}? Its delivery log will be deleted too.`)) {
+      return;
+    }
+
+    try {
+      setBusyId(endpoint.id);
+      setError(null);
+
+      const result = await deleteWebhookEndpoint(endpoint.id);
+
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
+      setEndpoints(prev => prev.filter(e => e.id !== endpoint.id));
+      setDeliveries(prev => prev.filter(d => d.endpoint_id !== endpoint.id));
+    } catch (error) {
+      console.error('Failed to delete webhook:', error);
+      setError(error instanceof Error ? error.message : 'Failed to delete webhook');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRetry = async (delivery: WebhookDeliveryLogEntry) => {
+    try {
+      setBusyId(delivery.id);
+      setError(null);
+
+      const result = await retryWebhookDelivery(delivery.id);
+
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
+      await loadWebhooks();
+    } catch (error) {
+      console.error('Failed to retry webhook delivery:', error);
+      setError(error instanceof Error ? error.message : 'Failed to retry delivery');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const copySecret = async () => {
+    if (newSecret) {
+      await navigator.clipboard.writeText(newSecret);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <GlobeAltIcon className="h-6 w-6 text-blue-600" />
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Webhooks</h3>
+            <p className="text-sm text-gray-500">Send signed events to Home Assistant, bots and other services</p>
+          </div>
+        </div>
+        <button
+          type="button"
+          onClick={loadWebhooks}
+          disabled={isLoading}
+          className="text-gray-400 hover:text-gray-600 disabled:opacity-50 transition-colors"
+          aria-label="Refresh webhooks"
+        >
+          <ArrowPathIcon className={`h-5 w-5 ${isLoading ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+
+      {/* Error Message */}
+      {error && (
+        <div className="rounded-md bg-red-50 p-4">
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
+      {/* Signing Secret */}
+      {newSecret && (
+        <div className="rounded-md bg-blue-50 p-4">
+          <p className="text-sm font-medium text-blue-900">Signing secret</p>
+          <p className="mt-1 text-xs text-blue-800">
+            Copy it now - it will not be shown again. Verify the webhook-signature header with it.
+          </p>
+          <div className="mt-2 flex items-center space-x-2">
+            <code className="flex-1 truncate rounded bg-white px-2 py-1 text-xs text-gray-900">{newSecret}</code>
+            <button
+              type="button"
+              onClick={copySecret}
+              className="text-blue-600 hover:text-blue-800 transition-colors"
+              aria-label="Copy signing secret"
+            >
+              <ClipboardDocumentIcon className="h-5 w-5" />
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Endpoints */}
+      {endpoints.length > 0 && (
+        <ul className="divide-y divide-gray-200 rounded-md border border-gray-200">
+          {endpoints.map((endpoint) => (
+            <li key={endpoint.id} className="flex items-start justify-between p-3">
+              <div className="min-w-0 flex-1">
+                <p className="truncate text-sm font-medium text-gray-900">{endpoint.description || endpoint.url}</p>
+                {endpoint.description && <p className="truncate text-xs text-gray-500">{endpoint.url}</p>}
+                <div className="mt-1 flex flex-wrap gap-1">
+                  {endpoint.events.map(event => (
+                    <span key={event} className="rounded bg-gray-100 px-1.5 py-0.5 text-xs text-gray-600">{event}</span>
+                  ))}
+                </div>
+              </div>
+              <div className="ml-3 flex items-center space-x-3">
+                <label className="flex items-center space-x-1 text-xs text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={endpoint.enabled}
+                    onChange={() => handleToggleEnabled(endpoint)}
+                    className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                    disabled={busyId === endpoint.id}
+                  />
+                  <span>Enabled</span>
+                </label>
+                <button
+                  type="button"
+                  onClick={() => handleDelete(endpoint)}
+                  disabled={busyId === endpoint.id}
+                  className="text-gray-400 hover:text-red-600 disabled:opacity-50 transition-colors"
+                  aria-label="Delete webhook"
+                >
+                  <TrashIcon className="h-5 w-5" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Add Endpoint */}
+      <form onSubmit={handleCreate} className="space-y-3 rounded-md border border-gray-200 p-4">
+        <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+          <input
+            type="url"
+            required
+            placeholder="https://example.com/webhook"
+            value={form.url}
+            onChange={(e) => setForm({ ...form, url: e.target.value })}
+            className="rounded-md border-gray-300 shadow-sm text-sm focus:border-indigo-500 focus:ring-indigo-500"
+            disabled={busyId === 'new'}
+          />
+          <input
+            type="text"
+            maxLength={100}
+            placeholder="Description (optional)"
+            value={form.description}
+            onChange={(e) => setForm({ ...form, description: e.target.value })}
+            className="rounded-md border-gray-300 shadow-sm text-sm focus:border-indigo-500 focus:ring-indigo-500"
+            disabled={busyId === 'new'}
+          />
+        </div>
+        <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+          {EVENT_OPTIONS.map(({ value, label }) => (
+            <label key={value} className="flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={form.events.includes(value)}
+                onChange={() => toggleFormEvent(value)}
+                className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                disabled={busyId === 'new'}
+              />
+              <span>{label}</span>
+            </label>
+          ))}
+        </div>
+        <button
+          type="submit"
+          disabled={busyId === 'new' || !form.url || form.events.length === 0}
+          className="px-4 py-2 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
+        >
+          {busyId === 'new' ? 'Adding...' : 'Add Webhook'}
+        </button>
+      </form>
+
+      {/* Delivery Log */}
+      <div>
+        <h4 className="text-sm font-medium text-gray-700 mb-2">Recent deliveries</h4>
+        {deliveries.length === 0 ? (
+          <p className="text-sm text-gray-500">No deliveries yet</p>
+        ) : (
+          <ul className="max-h-64 divide-y divide-gray-200 overflow-y-auto rounded-md border border-gray-200">
+            {deliveries.map((delivery) => (
+              <li key={delivery.id} className="flex items-center justify-between p-3 text-sm">
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center space-x-2">
+                    <span className={`rounded px-1.5 py-0.5 text-xs font-medium ${DELIVERY_STATUS_STYLES[delivery.status]}`}>
+                      {delivery.status}
+                    </span>
+                    <span className="font-medium text-gray-900">{delivery.event_type}</span>
+                  </div>
+                  <p className="mt-1 truncate text-xs text-gray-500">
+                    {new Date(delivery.created_at).toLocaleString()} · {delivery.endpoint_url}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {delivery.attempt_count} attempt{delivery.attempt_count === 1 ? '' : 's'}
+                    {delivery.last_error && ` · ${delivery.last_error}`}
+                    {delivery.status === 'pending' && delivery.next_attempt_at &&
+                      ` · next try ${new Date(delivery.next_attempt_at).toLocaleTimeString()}`}
+                  </p>
+                </div>
+                {delivery.status !== 'succeeded' && (
+                  <button
+                    type="button"
+                    onClick={() => handleRetry(delivery)}
+                    disabled={busyId === delivery.id}
+                    className="ml-3 text-xs font-medium text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                  >
+                    {busyId === delivery.id ? 'Sending...' : 'Retry'}
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
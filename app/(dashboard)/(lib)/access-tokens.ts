@@ -0,0 +1,28 @@
+import type { AccessTokenScope } from './types';
+
+/**
+ * Personal access tokens for the /api/v1 REST API
+ *
+ * Tokens look like gdp_<40 characters> and are sent as a Bearer header. This
+ * module has no Node dependencies so middleware can recognise tokens; hashing
+ * and lookup happen in api-auth.ts inside the route handlers.
+ */
+
+export const ACCESS_TOKEN_PREFIX = 'gdp_';
+
+export const ACCESS_TOKEN_SCOPES: Array<{ value: AccessTokenScope; label: string }> = [
+  { value: 'geofences:read', label: 'Read geofences and member statuses' },
+  { value: 'history:read', label: 'Read presence history' }
+];
+
+export const ACCESS_TOKEN_EXPIRY_DAYS = [7, 30, 90, 365];
+
+export function extractAccessToken(request: Request): string | null {
+  const authorization = request.headers.get('authorization');
+  if (!authorization?.toLowerCase().startsWith('bearer ')) {
+    return null;
+  }
+
+  const token = authorization.slice(7).trim();
+  return token.startsWith(ACCESS_TOKEN_PREFIX) ? token : null;
+}
@@ -0,0 +1,463 @@
+import { z } from 'zod';
+import { calculatePolygonCenter, calculatePolygonInnerRadius, calculatePolygonRadius } from './geofence';
+import { validateStatusOptions } from './status-options';
+import { ACCESS_TOKEN_EXPIRY_DAYS, ACCESS_TOKEN_SCOPES } from './access-tokens';
+import { MAX_NOTIFICATION_INTERVAL_MINUTES, NOTIFICATION_EVENT_TYPES, isValidTimeZone } from './notification-preferences';
+import { MAX_TRACK_FILE_BYTES } from './track-import';
+import { isAllowedWebhookHost } from './webhook-hosts';
+import type { GeofenceShape, GeofenceVertex, WebhookEventType } from './types';
+
+/**
+ * Input schemas for the dashboard's server actions
+ *
+ * Every action parses its arguments with parseActionInput() before touching
+ * the database, and the geofence forms run GeofenceFormSchema on the client
+ * so both sides enforce the same limits. Failures carry one message per
+ * field in ServerActionResult's fieldErrors.
+ */
+
+export type FieldErrors = Record<string, string>;
+
+export const GEOFENCE_LIMITS = {
+  name: { min: 3, max: 50 },
+  radius_meters: { min: 10, max: 1000 },
+  hysteresis_meters: { min: 5 },
+  max_accuracy_meters: { min: 5, max: 1000 },
+  dwell_seconds: { min: 0, max: 3600 },
+  min_points: { min: 1, max: 20 },
+  stale_after_minutes: { min: 60, max: 7 * 24 * 60 },
+  polygon_vertices: { min: 3, max: 50 }
+} as const;
+
+/**
+ * Exit buffer used when none is given: 10% of the size, between 5 and 50 meters
+ */
+export function getDefaultHysteresis(radiusMeters: number): number {
+  return Math.max(GEOFENCE_LIMITS.hysteresis_meters.min, Math.round(Math.min(radiusMeters * 0.1, 50)));
+}
+
+/**
+ * Widest edge buffer a polygon allows: half of how far inside it a point can
+ * get, so fixes well short of the middle still clear the buffer even after
+ * their accuracy is taken into account
+ */
+function getMaxPolygonHysteresis(vertices: GeofenceVertex[]): number {
+  return Math.floor(calculatePolygonInnerRadius(vertices) / 2);
+}
+
+/**
+ * Widest buffer a geofence allows, shared by the forms and the server. A
+ * circle's exit buffer must stay within its radius.
+ */
+export function getMaxHysteresis(shape: GeofenceShape, radiusMeters: number, vertices?: GeofenceVertex[] | null): number {
+  return shape === 'polygon' ? getMaxPolygonHysteresis(vertices || []) : radiusMeters - 1;
+}
+
+/**
+ * One message per top-level field, the first issue reported for it.
+ * Issues that are not about a single field are keyed by ''.
+ */
+export function getFieldErrors(error: z.ZodError): FieldErrors {
+  const fieldErrors: FieldErrors = {};
+
+  for (const issue of error.issues) {
+    const field = String(issue.path[0] ?? '');
+    fieldErrors[field] ??= issue.message;
+  }
+
+  return fieldErrors;
+}
+
+/**
+ * Validate a server action's input, returning the parsed value or a failed
+ * ServerActionResult that can be returned as-is
+ */
+export function parseActionInput<T extends z.ZodType>(
+  schema: T,
+  input: unknown
+): { success: true; data: z.output<T> } | { success: false; error: string; fieldErrors: FieldErrors } {
+  const result = schema.safeParse(input);
+
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+
+  return {
+    success: false,
+    error: result.error.issues[0]?.message ?? 'Invalid input',
+    fieldErrors: getFieldErrors(result.error)
+  };
+}
+
+// FormData sends every value as a string and an empty input as ''
+const formNumber = <T extends z.ZodType>(schema: T) =>
+  z.preprocess(value => (typeof value === 'string' ? (value.trim() ? Number(value) : undefined) : value), schema);
+
+// Lists travel through FormData as JSON; unparseable text is left for the schema to reject
+const formJson = <T extends z.ZodType>(schema: T) =>
+  z.preprocess(value => {
+    if (typeof value !== 'string') {
+      return value;
+    }
+    if (!value) {
+      return undefined;
+    }
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value;
+    }
+  }, schema);
+
+const isValidDate = (value: string) => !isNaN(new Date(value).getTime());
+
+const toUrl = (value: string): URL | null => {
+  try {
+    return new URL(value);
+  } catch {
+    return null;
+  }
+};
+
+const Latitude = z
+  .number({ error: 'Valid latitude and longitude coordinates are required' })
+  .min(-90, 'Latitude must be between -90 and 90')
+  .max(90, 'Latitude must be between -90 and 90');
+
+const Longitude = z
+  .number({ error: 'Valid latitude and longitude coordinates are required' })
+  .min(-180, 'Longitude must be between -180 and 180')
+  .max(180, 'Longitude must be between -180 and 180');
+
+const UserId = z.string({ error: 'User ID is required' }).trim().min(1, 'User ID is required');
+
+// =============================================================================
+// Geofences
+// =============================================================================
+
+const { name: NAME, radius_meters: RADIUS, max_accuracy_meters: ACCURACY, dwell_seconds: DWELL, min_points: POINTS, stale_after_minutes: STALE, polygon_vertices: VERTICES } = GEOFENCE_LIMITS;
+
+const DWELL_ERROR = 'Dwell time must be 0-60 minutes across 1-20 points';
+const DwellSeconds = z.number({ error: DWELL_ERROR }).int(DWELL_ERROR).min(DWELL.min, DWELL_ERROR).max(DWELL.max, DWELL_ERROR);
+const MinPoints = z.number({ error: DWELL_ERROR }).int(DWELL_ERROR).min(POINTS.min, DWELL_ERROR).max(POINTS.max, DWELL_ERROR);
+
+const ACCURACY_ERROR = `Maximum GPS accuracy must be between ${ACCURACY.min} and ${ACCURACY.max} meters`;
+const STALE_ERROR = `Unknown status must start after ${STALE.min / 60}-${STALE.max / 60} hours, or 0 for never`;
+const RADIUS_ERROR = `Radius must be between ${RADIUS.min} and ${RADIUS.max} meters`;
+
+const GeofenceSettingsFields = {
+  name: z
+    .string({ error: 'Geofence name is required' })
+    .trim()
+    .min(1, 'Geofence name is required')
+    .min(NAME.min, `Name must be at least ${NAME.min} characters`)
+    .max(NAME.max, `Name must be less than ${NAME.max} characters`),
+  hysteresis_meters: formNumber(
+    z.number({ error: 'Hysteresis must be a whole number of meters' })
+      .int('Hysteresis must be a whole number of meters')
+      .min(GEOFENCE_LIMITS.hysteresis_meters.min, `Hysteresis must be at least ${GEOFENCE_LIMITS.hysteresis_meters.min} meters`)
+      .optional()
+  ),
+  max_accuracy_meters: formNumber(
+    z.number({ error: ACCURACY_ERROR }).int(ACCURACY_ERROR).min(ACCURACY.min, ACCURACY_ERROR).max(ACCURACY.max, ACCURACY_ERROR).optional()
+  ),
+  enter_dwell_seconds: formNumber(DwellSeconds.optional()),
+  enter_min_points: formNumber(MinPoints.optional()),
+  exit_dwell_seconds: formNumber(DwellSeconds.optional()),
+  exit_min_points: formNumber(MinPoints.optional()),
+  stale_after_minutes: formNumber(
+    z.number({ error: STALE_ERROR }).int(STALE_ERROR)
+      .refine(value => value === 0 || (value >= STALE.min && value <= STALE.max), STALE_ERROR)
+      .optional()
+  ),
+  status_options: formJson(
+    z.unknown().transform((value, ctx) => {
+      const validation = validateStatusOptions(value);
+      if ('error' in validation) {
+        ctx.issues.push({ code: 'custom', message: validation.error, input: value });
+        return z.NEVER;
+      }
+      return validation.options;
+    }).optional()
+  )
+};
+
+const CircleGeofenceSchema = z.object({
+  ...GeofenceSettingsFields,
+  shape: z.literal('circle'),
+  center_latitude: formNumber(Latitude),
+  center_longitude: formNumber(Longitude),
+  radius_meters: formNumber(z.number({ error: RADIUS_ERROR }).int(RADIUS_ERROR).min(RADIUS.min, RADIUS_ERROR).max(RADIUS.max, RADIUS_ERROR))
+}).refine(value => value.center_latitude !== 0 || value.center_longitude !== 0, {
+  message: 'Please set a location for your geofence',
+  path: ['center_latitude']
+});
+
+const PolygonGeofenceSchema = z.object({
+  ...GeofenceSettingsFields,
+  shape: z.literal('polygon'),
+  polygon_vertices: formJson(
+    z.array(z.object({ latitude: Latitude, longitude: Longitude }), { error: 'A polygon needs at least 3 corners' })
+      .min(VERTICES.min, `A polygon needs at least ${VERTICES.min} corners`)
+      .max(VERTICES.max, `A polygon can have at most ${VERTICES.max} corners`)
+  )
+}).refine(value => !value.polygon_vertices.some(vertex => vertex.latitude === 0 && vertex.longitude === 0), {
+  message: 'Please set a location for every corner',
+  path: ['polygon_vertices']
+});
+
+/**
+ * A geofence's boundary and detection settings, as entered in the create and
+ * edit forms. Polygons get their center and covering radius filled in, and a
+ * missing hysteresis defaults from the size.
+ */
+export const GeofenceFormSchema = z
+  .discriminatedUnion('shape', [CircleGeofenceSchema, PolygonGeofenceSchema], {
+    error: 'Geofence shape must be circle or polygon'
+  })
+  .transform((value, ctx) => {
+    const center = value.shape === 'polygon'
+      ? calculatePolygonCenter(value.polygon_vertices)
+      : { latitude: value.center_latitude, longitude: value.center_longitude };
+    const polygon_vertices = value.shape === 'polygon' ? value.polygon_vertices : null;
+    const radius_meters = value.shape === 'polygon'
+      ? Math.ceil(calculatePolygonRadius(value.polygon_vertices, center))
+      : value.radius_meters;
+
+    if (value.shape === 'polygon' && (radius_meters < RADIUS.min || radius_meters > RADIUS.max)) {
+      ctx.issues.push({
+        code: 'custom',
+        message: `Polygon must span between ${RADIUS.min} and ${RADIUS.max} meters from its center`,
+        path: ['polygon_vertices'],
+        input: polygon_vertices
+      });
+      return z.NEVER;
+    }
+
+    // A polygon's buffer is limited by its narrowest width, not its length
+    const maxHysteresis = getMaxHysteresis(value.shape, radius_meters, polygon_vertices);
+    const hysteresis_meters = value.hysteresis_meters
+      ?? Math.max(GEOFENCE_LIMITS.hysteresis_meters.min, Math.min(getDefaultHysteresis(radius_meters), maxHysteresis));
+
+    if (hysteresis_meters > maxHysteresis) {
+      ctx.issues.push({
+        code: 'custom',
+        message: value.shape === 'polygon'
+          ? maxHysteresis < GEOFENCE_LIMITS.hysteresis_meters.min
+            ? 'Polygon is too narrow for an edge buffer; make it wider'
+            : `Edge buffer must be at most ${maxHysteresis} meters so members can get past it into the polygon`
+          : 'Hysteresis must be less than radius',
+        path: ['hysteresis_meters'],
+        input: value.hysteresis_meters
+      });
+      return z.NEVER;
+    }
+
+    return {
+      name: value.name,
+      shape: value.shape,
+      center_latitude: center.latitude,
+      center_longitude: center.longitude,
+      radius_meters,
+      hysteresis_meters,
+      polygon_vertices,
+      max_accuracy_meters: value.max_accuracy_meters,
+      enter_dwell_seconds: value.enter_dwell_seconds,
+      enter_min_points: value.enter_min_points,
+      exit_dwell_seconds: value.exit_dwell_seconds,
+      exit_min_points: value.exit_min_points,
+      stale_after_minutes: value.stale_after_minutes,
+      status_options: value.status_options
+    };
+  });
+
+export type GeofenceFormValues = z.output<typeof GeofenceFormSchema>;
+
+export const InviteCodeSchema = z.object({
+  invite_code: z.string({ error: 'Invite code is required' }).trim().min(1, 'Invite code is required')
+});
+
+// =============================================================================
+// Members
+// =============================================================================
+
+export const MemberRoleSchema = z.object({
+  id_user: UserId,
+  role: z.enum(['owner', 'member'], { error: 'Role must be owner or member' })
+});
+
+export const PresenceTimelineRangeSchema = z.object({
+  id_user: UserId,
+  from: z.string().refine(isValidDate, 'A valid date range is required'),
+  to: z.string().refine(isValidDate, 'A valid date range is required')
+}).refine(value => new Date(value.from) < new Date(value.to), {
+  message: 'A valid date range is required',
+  path: ['to']
+});
+
+export const ManualStatusSchema = z.object({
+  status: z.string({ error: 'Choose a status' }).trim().min(1, 'Choose a status'),
+  expires_at: z
+    .string()
+    .refine(value => isValidDate(value) && new Date(value).getTime() > Date.now(), 'Expiry must be a time in the future')
+    .nullable()
+});
+
+export const MemberPrivacySchema = z.object({
+  privacy: z.enum(['status', 'distance', 'exact', 'paused'], { error: 'Choose what to share with this geofence' })
+});
+
+// =============================================================================
+// Ghost mode
+// =============================================================================
+
+export const MAX_PAUSE_HOURS = 7 * 24;
+
+export const TrackingPauseSchema = z.object({
+  paused_until: z
+    .string({ error: 'Choose when the pause ends' })
+    .refine(value => isValidDate(value) && new Date(value).getTime() > Date.now(), 'The pause must end in the future')
+    .refine(
+      value => new Date(value).getTime() <= Date.now() + MAX_PAUSE_HOURS * 60 * 60 * 1000,
+      `Pauses can last at most ${MAX_PAUSE_HOURS / 24} days`
+    )
+});
+
+export const PauseModeSchema = z.object({
+  pause_mode: z.enum(['drop', 'store'], { error: 'Choose what happens to locations while paused' })
+});
+
+// =============================================================================
+// Devices and track imports
+// =============================================================================
+
+const MAX_DEVICE_NAME_LENGTH = 50;
+const DEVICE_NAME_ERROR = `Device name is required and must be at most ${MAX_DEVICE_NAME_LENGTH} characters`;
+
+const DeviceId = z.string({ error: 'Device ID is required' }).trim().min(1, 'Device ID is required');
+const DeviceName = z.string({ error: DEVICE_NAME_ERROR }).trim().min(1, DEVICE_NAME_ERROR).max(MAX_DEVICE_NAME_LENGTH, DEVICE_NAME_ERROR);
+
+export const DeviceMappingInputSchema = z.object({
+  device_id: DeviceId,
+  name: DeviceName
+});
+
+export const DeviceMappingUpdateSchema = z.object({
+  device_id: DeviceId.optional(),
+  name: DeviceName.optional(),
+  enabled: z.boolean({ error: 'Enabled must be true or false' }).optional()
+});
+
+export const TrackImportSchema = z.object({
+  file: z
+    .custom<File>(value => value instanceof File && value.size > 0, 'Track file is required')
+    .refine(file => file.size <= MAX_TRACK_FILE_BYTES, `Track file must be smaller than ${MAX_TRACK_FILE_BYTES / (1024 * 1024)} MB`),
+  device: z.string({ error: 'Device is required' }).min(1, 'Device is required'),
+  dry_run: z.string().optional().transform(value => value === 'true')
+});
+
+// =============================================================================
+// Notifications
+// =============================================================================
+
+const MAX_PUSH_DEVICE_NAME_LENGTH = 100;
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)(:[0-5]\d)?$/;
+
+// The parts of a subscription mean nothing to the user, so they share one message
+const INVALID_SUBSCRIPTION = 'Invalid push subscription';
+
+export const PushSubscriptionSchema = z.object({
+  subscription: z.object({
+    endpoint: z.string({ error: INVALID_SUBSCRIPTION }).refine(value => toUrl(value)?.protocol === 'https:', INVALID_SUBSCRIPTION),
+    keys: z.object({
+      p256dh: z.string({ error: INVALID_SUBSCRIPTION }).min(1, INVALID_SUBSCRIPTION),
+      auth: z.string({ error: INVALID_SUBSCRIPTION }).min(1, INVALID_SUBSCRIPTION)
+    }, { error: INVALID_SUBSCRIPTION })
+  }, { error: INVALID_SUBSCRIPTION }),
+  device_name: z
+    .string()
+    .optional()
+    .transform(value => value?.trim().slice(0, MAX_PUSH_DEVICE_NAME_LENGTH) || 'This device')
+});
+
+const QuietHour = z.preprocess(
+  value => value || null,
+  z.string().regex(TIME_PATTERN, 'Quiet hours must be times like 22:00').nullable()
+);
+
+export const NotificationSettingsSchema = z.object({
+  followed_user_ids: z
+    .array(z.string(), { error: 'Followed members must be a list of user IDs' })
+    .nullable()
+    .transform(ids => (ids === null ? null : [...new Set(ids)])),
+  events: z
+    .array(z.enum(NOTIFICATION_EVENT_TYPES), { error: 'Unknown notification event' })
+    .transform(events => [...new Set(events)]),
+  quiet_hours_start: QuietHour,
+  quiet_hours_end: QuietHour,
+  timezone: z.string({ error: 'Unknown timezone' }).refine(isValidTimeZone, 'Unknown timezone'),
+  min_interval_minutes: z
+    .number({ error: `Minimum interval must be 0-${MAX_NOTIFICATION_INTERVAL_MINUTES} minutes` })
+    .int(`Minimum interval must be 0-${MAX_NOTIFICATION_INTERVAL_MINUTES} minutes`)
+    .min(0, `Minimum interval must be 0-${MAX_NOTIFICATION_INTERVAL_MINUTES} minutes`)
+    .max(MAX_NOTIFICATION_INTERVAL_MINUTES, `Minimum interval must be 0-${MAX_NOTIFICATION_INTERVAL_MINUTES} minutes`)
+}).refine(value => !value.quiet_hours_start === !value.quiet_hours_end, {
+  message: 'Quiet hours need both a start and an end time',
+  path: ['quiet_hours_end']
+}).transform(value => ({
+  ...value,
+  quiet_hours_start: value.quiet_hours_start ? value.quiet_hours_start.slice(0, 5) : null,
+  quiet_hours_end: value.quiet_hours_end ? value.quiet_hours_end.slice(0, 5) : null
+}));
+
+// =============================================================================
+// Webhooks and access tokens
+// =============================================================================
+
+const MAX_WEBHOOK_URL_LENGTH = 2048;
+const MAX_WEBHOOK_DESCRIPTION_LENGTH = 100;
+
+export const WEBHOOK_EVENT_TYPES: WebhookEventType[] = ['member.status_changed', 'member.joined', 'member.left', 'geofence.updated'];
+
+export const WebhookEndpointInputSchema = z.object({
+  url: z
+    .string({ error: 'Enter a valid URL' })
+    .trim()
+    .refine(value => toUrl(value) !== null, { message: 'Enter a valid URL', abort: true })
+    .refine(value => toUrl(value)?.protocol === 'https:', 'Webhook URLs must use https')
+    .refine(value => isAllowedWebhookHost(toUrl(value)!.hostname), 'Webhook URLs must point to a public address')
+    .refine(value => value.length <= MAX_WEBHOOK_URL_LENGTH, `Webhook URLs can be at most ${MAX_WEBHOOK_URL_LENGTH} characters`),
+  description: z
+    .string()
+    .trim()
+    .max(MAX_WEBHOOK_DESCRIPTION_LENGTH, `Descriptions can be at most ${MAX_WEBHOOK_DESCRIPTION_LENGTH} characters`)
+    .default(''),
+  events: z
+    .array(z.enum(WEBHOOK_EVENT_TYPES, { error: 'Unknown webhook event' }), { error: 'Choose at least one event' })
+    .min(1, 'Choose at least one event')
+    .transform(events => WEBHOOK_EVENT_TYPES.filter(event => events.includes(event)))
+});
+
+export const WebhookEndpointUpdateSchema = WebhookEndpointInputSchema.extend({
+  enabled: z.boolean({ error: 'Enabled must be true or false' })
+});
+
+const MAX_TOKEN_NAME_LENGTH = 50;
+const ACCESS_TOKEN_SCOPE_VALUES = ACCESS_TOKEN_SCOPES.map(scope => scope.value);
+
+export const AccessTokenInputSchema = z.object({
+  name: z
+    .string({ error: `Token name must be 1-${MAX_TOKEN_NAME_LENGTH} characters` })
+    .trim()
+    .min(1, `Token name must be 1-${MAX_TOKEN_NAME_LENGTH} characters`)
+    .max(MAX_TOKEN_NAME_LENGTH, `Token name must be 1-${MAX_TOKEN_NAME_LENGTH} characters`),
+  scopes: z
+    .array(z.enum(ACCESS_TOKEN_SCOPE_VALUES, { error: 'Unknown token scope' }), { error: 'Choose at least one scope' })
+    .min(1, 'Choose at least one scope')
+    .transform(scopes => ACCESS_TOKEN_SCOPE_VALUES.filter(scope => scopes.includes(scope))),
+  // null for a token that never expires
+  expires_in_days: z
+    .number({ error: 'Unsupported token lifetime' })
+    .refine(days => ACCESS_TOKEN_EXPIRY_DAYS.includes(days), 'Unsupported token lifetime')
+    .nullable()
+});
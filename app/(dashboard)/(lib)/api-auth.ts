@@ -0,0 +1,109 @@
+import { createHash } from 'crypto';
+import { nanoid } from 'nanoid';
+import { NextResponse } from 'next/server';
+import type { AdminClient } from './supabase/client';
+import { ACCESS_TOKEN_PREFIX, extractAccessToken } from './access-tokens';
+import type { AccessTokenScope } from './types';
+
+/**
+ * Authentication for the /api/v1 REST API
+ *
+ * Middleware lets requests with a personal access token through; each route
+ * then resolves the token to its user and checks the scope it needs. Only the
+ * SHA-256 hash of a token is stored, so a token is shown once when created.
+ */
+
+export type ApiAuthResult =
+  | { ok: true; userId: string; scopes: AccessTokenScope[] }
+  | { ok: false; response: NextResponse };
+
+// last_used_at is only refreshed this often to avoid a write per request
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function generateAccessToken(): string {
+  return `${ACCESS_TOKEN_PREFIX}${nanoid(40)}`;
+}
+
+export function hashAccessToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export function apiError(status: number, error: string): NextResponse {
+  return NextResponse.json({ error }, { status });
+}
+
+/**
+ * Resolve the request's personal access token and require a scope
+ */
+export async function authenticateApiRequest(
+  supabase: AdminClient,
+  request: Request,
+  scope: AccessTokenScope
+): Promise<ApiAuthResult> {
+  const token = extractAccessToken(request);
+  if (!token) {
+    return { ok: false, response: apiError(401, 'Personal access token required') };
+  }
+
+  // The hash is unique, so looking it up is equivalent to a constant-time compare
+  const { data: record, error } = await supabase
+    .from('personal_access_tokens')
+    .select('id, id_user, scopes, expires_at, last_used_at')
+    .eq('token_hash', hashAccessToken(token))
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  if (!record) {
+    return { ok: false, response: apiError(401, 'Invalid personal access token') };
+  }
+
+  const now = new Date();
+
+  if (record.expires_at && new Date(record.expires_at) <= now) {
+    return { ok: false, response: apiError(401, 'Personal access token has expired') };
+  }
+
+  if (!record.scopes.includes(scope)) {
+    return { ok: false, response: apiError(403, `Token is missing the ${scope} scope`) };
+  }
+
+  if (!record.last_used_at || now.getTime() - new Date(record.last_used_at).getTime() > LAST_USED_RESOLUTION_MS) {
+    await supabase
+      .from('personal_access_tokens')
+      .update({ last_used_at: now.toISOString() })
+      .eq('id', record.id);
+  }
+
+  return { ok: true, userId: record.id_user, scopes: record.scopes };
+}
+
+/**
+ * Look up the user's role in a geofence, or null when they are not a member
+ */
+export async function getApiMembership(
+  supabase: AdminClient,
+  geofenceId: string,
+  userId: string
+): Promise<'owner' | 'member' | null> {
+  if (!UUID_PATTERN.test(geofenceId)) {
+    return null;
+  }
+
+  const { data: membership, error } = await supabase
+    .from('geofence_members')
+    .select('role')
+    .eq('id_geofence', geofenceId)
+    .eq('id_user', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return membership?.role ?? null;
+}
@@ -0,0 +1,253 @@
+import { z } from 'zod';
+
+/**
+ * Request and response schemas for the HTTP API
+ *
+ * Route handlers validate incoming bodies and query strings against these,
+ * and openapi.ts turns them into the OpenAPI document. Every schema a route
+ * refers to is registered under a component name in apiSchemas.
+ */
+
+export const apiSchemas = z.registry<{ id: string }>();
+
+// Trackers send timestamps in several ISO 8601 variants, e.g. a -0700 offset without a colon
+const Timestamp = z
+  .string()
+  .refine(value => !isNaN(new Date(value).getTime()), 'Invalid timestamp')
+  .describe('ISO 8601 timestamp');
+
+const Latitude = z.number().min(-90).max(90);
+const Longitude = z.number().min(-180).max(180);
+
+// =============================================================================
+// Shared
+// =============================================================================
+
+export const ApiErrorSchema = z.object({
+  error: z.string(),
+  message: z.string().optional(),
+  code: z.string().optional().describe('Machine-readable reason, set by middleware'),
+  issues: z.array(z.object({
+    path: z.string(),
+    message: z.string()
+  })).optional().describe('Validation failures, for 400 responses')
+}).describe('Error response');
+apiSchemas.add(ApiErrorSchema, { id: 'ApiError' });
+
+/**
+ * Result envelope returned by every server action, e.g. serverActionResult(GeofenceSchema)
+ */
+export function serverActionResult<T extends z.ZodType>(data: T) {
+  return z.discriminatedUnion('success', [
+    z.object({ success: z.literal(true), data }),
+    z.object({
+      success: z.literal(false),
+      error: z.string(),
+      fieldErrors: z.record(z.string(), z.string()).optional().describe('Input validation failures, one message per field'),
+      details: z.unknown().optional()
+    })
+  ]);
+}
+
+export const ServerActionResultSchema = serverActionResult(z.unknown()).describe(
+  'Result envelope returned by every dashboard server action'
+);
+apiSchemas.add(ServerActionResultSchema, { id: 'ServerActionResult' });
+
+// =============================================================================
+// Location ingestion
+// =============================================================================
+
+export const OverlandLocationSchema = z.object({
+  type: z.literal('Feature').optional(),
+  geometry: z.object({
+    type: z.literal('Point').optional(),
+    coordinates: z.tuple([Longitude, Latitude]).rest(z.number()).describe('[longitude, latitude, altitude?]')
+  }),
+  properties: z.looseObject({
+    device_id: z.string().min(1).describe('Registered Device ID, set in the Overland settings'),
+    timestamp: Timestamp,
+    horizontal_accuracy: z.number().optional().describe('Meters; negative when unknown')
+  })
+}).describe('GeoJSON point feature as sent by Overland');
+apiSchemas.add(OverlandLocationSchema, { id: 'OverlandLocation' });
+
+export const OverlandBatchSchema = z.looseObject({
+  locations: z.array(OverlandLocationSchema)
+}).describe('Batch of queued points sent by Overland');
+apiSchemas.add(OverlandBatchSchema, { id: 'OverlandBatch' });
+
+export const SimpleLocationSchema = z.looseObject({
+  device_id: z.string().min(1),
+  latitude: Latitude,
+  longitude: Longitude,
+  timestamp: Timestamp,
+  accuracy: z.number().optional().describe('Meters'),
+  accuracy_meters: z.number().optional().describe('Meters; alias of accuracy')
+}).describe('Single point in the simple format');
+apiSchemas.add(SimpleLocationSchema, { id: 'SimpleLocation' });
+
+export const LocationUpdateRequestSchema = z.union([OverlandBatchSchema, SimpleLocationSchema]);
+apiSchemas.add(LocationUpdateRequestSchema, { id: 'LocationUpdateRequest' });
+
+export const LocationUpdateResponseSchema = z.object({
+  result: z.literal('ok')
+}).describe('Overland deletes its queued points once it receives this');
+apiSchemas.add(LocationUpdateResponseSchema, { id: 'LocationUpdateResponse' });
+
+export const OwnTracksMessageSchema = z.looseObject({
+  _type: z.string().describe('Only location and transition messages are processed')
+}).describe('Any OwnTracks JSON message');
+apiSchemas.add(OwnTracksMessageSchema, { id: 'OwnTracksMessage' });
+
+export const OwnTracksLocationSchema = z.looseObject({
+  _type: z.enum(['location', 'transition']),
+  lat: Latitude,
+  lon: Longitude,
+  tst: z.number().positive().describe('Unix time in seconds'),
+  acc: z.number().optional().describe('Meters'),
+  t: z.string().optional().describe("Trigger; 'u' for a manual publish, which also returns waypoints")
+}).describe('OwnTracks location or transition message');
+apiSchemas.add(OwnTracksLocationSchema, { id: 'OwnTracksLocation' });
+
+export const OwnTracksResponseSchema = z.array(z.looseObject({
+  _type: z.enum(['card', 'location', 'transition', 'cmd'])
+})).describe("Friends' cards, locations and transitions, and optionally the user's geofences as waypoints");
+apiSchemas.add(OwnTracksResponseSchema, { id: 'OwnTracksResponse' });
+
+// =============================================================================
+// Clerk webhook
+// =============================================================================
+
+export const ClerkWebhookEventSchema = z.looseObject({
+  type: z.string().describe('user.created, user.updated and user.deleted are handled'),
+  data: z.looseObject({
+    id: z.string()
+  })
+}).describe('Clerk user event delivered through Svix');
+apiSchemas.add(ClerkWebhookEventSchema, { id: 'ClerkWebhookEvent' });
+
+// =============================================================================
+// REST API v1
+// =============================================================================
+
+const StatusOptionSchema = z.object({
+  key: z.string(),
+  label: z.string(),
+  icon: z.string(),
+  color: z.string(),
+  presence: z.enum(['present', 'absent'])
+});
+
+export const GeofenceSummarySchema = z.object({
+  id_geofence: z.string(),
+  name: z.string(),
+  shape: z.enum(['circle', 'polygon']),
+  role: z.enum(['owner', 'member']),
+  member_count: z.number().int(),
+  occupancy_count: z.number().int().describe('Members whose status counts as present'),
+  created_at: z.string()
+});
+apiSchemas.add(GeofenceSummarySchema, { id: 'GeofenceSummary' });
+
+export const GeofenceListResponseSchema = z.object({
+  data: z.array(GeofenceSummarySchema)
+});
+apiSchemas.add(GeofenceListResponseSchema, { id: 'GeofenceListResponse' });
+
+export const MemberStatusSchema = z.object({
+  id_user: z.string(),
+  name: z.string(),
+  role: z.enum(['owner', 'member']),
+  status: z.string().describe('A key from the geofence status_options'),
+  status_label: z.string(),
+  present: z.boolean(),
+  status_source: z.enum(['gps', 'manual']),
+  manual_expires_at: z.string().nullable(),
+  last_updated: z.string(),
+  last_gps_update: z.string().nullable(),
+  joined_at: z.string()
+});
+apiSchemas.add(MemberStatusSchema, { id: 'MemberStatus' });
+
+export const GeofenceDetailSchema = z.object({
+  id_geofence: z.string(),
+  name: z.string(),
+  shape: z.enum(['circle', 'polygon']),
+  center_latitude: z.number(),
+  center_longitude: z.number(),
+  radius_meters: z.number(),
+  polygon_vertices: z.array(z.object({ latitude: z.number(), longitude: z.number() })).nullable(),
+  status_options: z.array(StatusOptionSchema),
+  occupancy_count: z.number().int(),
+  role: z.enum(['owner', 'member']),
+  created_at: z.string(),
+  members: z.array(MemberStatusSchema)
+});
+apiSchemas.add(GeofenceDetailSchema, { id: 'GeofenceDetail' });
+
+export const GeofenceDetailResponseSchema = z.object({
+  data: GeofenceDetailSchema
+});
+apiSchemas.add(GeofenceDetailResponseSchema, { id: 'GeofenceDetailResponse' });
+
+export const PresenceHistoryQuerySchema = z.object({
+  from: Timestamp.optional().describe('Start of the range, inclusive; defaults to 7 days before to'),
+  to: Timestamp.optional().describe('End of the range, exclusive; defaults to now'),
+  user_id: z.string().optional().describe('Only this member'),
+  limit: z.coerce.number().int().min(1).max(1000).optional().describe('Defaults to 100')
+});
+
+export const PresenceHistoryEntrySchema = z.object({
+  id: z.string(),
+  id_user: z.string(),
+  from_status: z.string(),
+  to_status: z.string(),
+  source: z.enum(['gps', 'manual', 'import']).nullable(),
+  occurred_at: z.string()
+});
+apiSchemas.add(PresenceHistoryEntrySchema, { id: 'PresenceHistoryEntry' });
+
+export const PresenceHistoryResponseSchema = z.object({
+  data: z.array(PresenceHistoryEntrySchema),
+  has_more: z.boolean().describe('More transitions exist in the range; narrow it or raise limit'),
+  from: z.string(),
+  to: z.string()
+});
+apiSchemas.add(PresenceHistoryResponseSchema, { id: 'PresenceHistoryResponse' });
+
+// =============================================================================
+// Scheduled jobs
+// =============================================================================
+
+export const JobRunSchema = z.object({
+  id: z.string(),
+  job_name: z.string(),
+  trigger: z.enum(['cron', 'cli']),
+  status: z.enum(['running', 'succeeded', 'failed', 'skipped']).describe('skipped when another run of the job held its lock'),
+  result: z.record(z.string(), z.number()).nullable().describe('Counts of what the run changed'),
+  error: z.string().nullable(),
+  started_at: z.string(),
+  finished_at: z.string().nullable()
+});
+apiSchemas.add(JobRunSchema, { id: 'JobRun' });
+
+export const JobRunResponseSchema = z.object({
+  data: JobRunSchema
+});
+apiSchemas.add(JobRunResponseSchema, { id: 'JobRunResponse' });
+
+export type GeofenceSummary = z.infer<typeof GeofenceSummarySchema>;
+export type GeofenceDetail = z.infer<typeof GeofenceDetailSchema>;
+export type PresenceHistoryResponse = z.infer<typeof PresenceHistoryResponseSchema>;
+export type OwnTracksResponse = z.infer<typeof OwnTracksResponseSchema>;
+
+/**
+ * Flatten validation issues for an ApiError response, e.g. { path: 'locations.0.geometry', message: ... }
+ */
+export function toIssueList(error: z.ZodError): Array<{ path: string; message: string }> {
+  return error.issues.map(issue => ({
+    path: issue.path.join('.'),
+    message: issue.message
+  }));
+}
@@ -0,0 +1,55 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { nanoid } from 'nanoid';
+
+/**
+ * Per-device access tokens for location ingestion
+ *
+ * Each registered device gets a random token that the tracker app sends with
+ * every upload. Only its SHA-256 hash is stored, so the plain token is shown
+ * to the user once at registration or rotation.
+ */
+
+export function generateDeviceToken(): string {
+  return nanoid(40);
+}
+
+export function hashDeviceToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export function verifyDeviceToken(token: string, tokenHash: string | null | undefined): boolean {
+  if (!token || !tokenHash) {
+    return false;
+  }
+
+  const expected = Buffer.from(tokenHash, 'hex');
+  const actual = Buffer.from(hashDeviceToken(token), 'hex');
+
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// Overland supports either ?token= on the endpoint URL or a Bearer header
+export function extractDeviceToken(request: Request): string | null {
+  const authorization = request.headers.get('authorization');
+  if (authorization?.toLowerCase().startsWith('bearer ')) {
+    return authorization.slice(7).trim() || null;
+  }
+
+  return new URL(request.url).searchParams.get('token');
+}
+
+// OwnTracks sends its UserID and Password as HTTP Basic credentials
+export function extractBasicCredentials(request: Request): { username: string; password: string } | null {
+  const authorization = request.headers.get('authorization');
+  if (!authorization?.toLowerCase().startsWith('basic ')) {
+    return null;
+  }
+
+  const decoded = Buffer.from(authorization.slice(6).trim(), 'base64').toString('utf8');
+  const separator = decoded.indexOf(':');
+  if (separator <= 0) {
+    return null;
+  }
+
+  return { username: decoded.slice(0, separator), password: decoded.slice(separator + 1) };
+}
@@ -1,17 +1,34 @@
-import type { Geofence, GeofenceMember } from './types';
+import type { Geofence, GeofenceMember, GeofenceVertex } from './types';
+import { getStatusOptions, toPresenceStatus } from './status-options';
 
 export interface Coordinates {
   latitude: number;
   longitude: number;
 }
 
+// A GPS fix, optionally with its horizontal uncertainty radius
+export interface LocationFix extends Coordinates {
+  accuracy_meters?: number | null;
+}
+
+// Why a fix was not allowed to change status
+export type IgnoredReason = 'accuracy_exceeds_limit' | 'straddles_boundary';
+
+// Used when a geofence has no max_accuracy_meters configured
+export const DEFAULT_MAX_ACCURACY_METERS = 100;
+
+// Used when a geofence has no stale_after_minutes configured
+export const DEFAULT_STALE_AFTER_MINUTES = 12 * 60;
+
 export interface GeofenceResult {
   inside_boundary: boolean;
   distance_meters: number;
+  boundary_distance_meters: number; // Signed distance to the boundary, negative when inside
   status_should_change: boolean;
   new_status?: 'IN_ROOM' | 'AWAY';
   calculation_time_ms: number;
   hysteresis_applied: boolean;
+  ignored_reason?: IgnoredReason;
   geofence_id: string;
   geofence_name: string;
 }
@@ -63,7 +80,7 @@ export function validateCoordinates(coords: Coordinates): boolean {
 }
 
 export function determineStatusChange(
-  location: Coordinates,
+  location: LocationFix,
   geofence: Geofence,
   currentStatus: 'IN_ROOM' | 'AWAY'
 ): GeofenceResult {
@@ -79,25 +96,40 @@ export function determineStatusChange(
   };
 
   const distance = calculateDistance(location, geofenceCenter);
+  const boundaryDistance = calculateBoundaryDistance(location, geofence);
 
-  const radius = geofence.radius_meters;
+  // Hysteresis is a buffer on either side of the boundary: a point must be this
+  // far inside to enter and this far outside to exit
   const hysteresis = geofence.hysteresis_meters;
-  const enterRadius = radius - hysteresis;  // Smaller radius to enter
-  const exitRadius = radius + hysteresis;   // Larger radius to exit
+
+  // Beyond the buffer, the fix's uncertainty circle must also lie wholly on one side of the boundary
+  const accuracy = location.accuracy_meters ?? 0;
+  const maxAccuracy = geofence.max_accuracy_meters ?? DEFAULT_MAX_ACCURACY_METERS;
 
   let statusShouldChange = false;
   let newStatus: 'IN_ROOM' | 'AWAY' | undefined;
   let hysteresisApplied = false;
+  let ignoredReason: IgnoredReason | undefined;
 
-  if (distance <= enterRadius) {
+  if (accuracy > maxAccuracy) {
+    ignoredReason = 'accuracy_exceeds_limit';
+  } else if (boundaryDistance <= -hysteresis) {
     if (currentStatus === 'AWAY') {
-      statusShouldChange = true;
-      newStatus = 'IN_ROOM';
+      if (boundaryDistance + accuracy <= 0) {
+        statusShouldChange = true;
+        newStatus = 'IN_ROOM';
+      } else {
+        ignoredReason = 'straddles_boundary';
+      }
     }
-  } else if (distance >= exitRadius) {
+  } else if (boundaryDistance >= hysteresis) {
     if (currentStatus === 'IN_ROOM') {
-      statusShouldChange = true;
-      newStatus = 'AWAY';
+      if (boundaryDistance - accuracy >= 0) {
+        statusShouldChange = true;
+        newStatus = 'AWAY';
+      } else {
+        ignoredReason = 'straddles_boundary';
+      }
     }
   } else {
     hysteresisApplied = true;
@@ -106,20 +138,208 @@ export function determineStatusChange(
   const calculationTime = performance.now() - startTime;
 
   return {
-    inside_boundary: distance <= radius,
+    inside_boundary: boundaryDistance <= 0,
     distance_meters: distance,
+    boundary_distance_meters: boundaryDistance,
     status_should_change: statusShouldChange,
     new_status: newStatus,
     calculation_time_ms: calculationTime,
     hysteresis_applied: hysteresisApplied,
+    ignored_reason: ignoredReason,
     geofence_id: geofence.id_geofence,
     geofence_name: geofence.name
   };
 }
 
 
+// Transition waiting on its dwell rule, as tracked on the membership
+export interface PendingTransition {
+  pending_status: 'IN_ROOM' | 'AWAY' | null;
+  pending_since: string | null;
+  pending_point_count: number;
+}
+
+export interface DwellDecision {
+  commit: boolean;
+  pending: PendingTransition;
+}
+
+// Dwell rules for geofences that have none configured: commit immediately
+export const DEFAULT_DWELL_RULES = {
+  enter_dwell_seconds: 0,
+  enter_min_points: 1,
+  exit_dwell_seconds: 0,
+  exit_min_points: 1
+};
+
+export const NO_PENDING_TRANSITION: PendingTransition = {
+  pending_status: null,
+  pending_since: null,
+  pending_point_count: 0
+};
+
+/**
+ * Debounce a spatial status change until it has held for the geofence's
+ * minimum dwell time across a minimum number of points. Points that confirm
+ * the current status cancel the pending transition; points in the hysteresis
+ * band or ignored for accuracy leave it untouched.
+ */
+export function applyDwellRule(
+  result: GeofenceResult,
+  geofence: Geofence,
+  pending: PendingTransition,
+  timestamp: string
+): DwellDecision {
+  if (!result.status_should_change || !result.new_status) {
+    if (result.hysteresis_applied || result.ignored_reason) {
+      return { commit: false, pending };
+    }
+    return { commit: false, pending: NO_PENDING_TRANSITION };
+  }
+
+  const next: PendingTransition = pending.pending_status === result.new_status && pending.pending_since
+    ? { ...pending, pending_point_count: pending.pending_point_count + 1 }
+    : { pending_status: result.new_status, pending_since: timestamp, pending_point_count: 1 };
+
+  const entering = result.new_status === 'IN_ROOM';
+  const minDwellSeconds = (entering ? geofence.enter_dwell_seconds : geofence.exit_dwell_seconds)
+    ?? DEFAULT_DWELL_RULES.enter_dwell_seconds;
+  const minPoints = (entering ? geofence.enter_min_points : geofence.exit_min_points)
+    ?? DEFAULT_DWELL_RULES.enter_min_points;
+
+  const dwellSeconds = (new Date(timestamp).getTime() - new Date(next.pending_since!).getTime()) / 1000;
+
+  if (dwellSeconds >= minDwellSeconds && next.pending_point_count >= minPoints) {
+    return { commit: true, pending: NO_PENDING_TRANSITION };
+  }
+
+  return { commit: false, pending: next };
+}
+
+
+/**
+ * Whether a member-set status is still in force at the given time.
+ * GPS points recorded while it is active do not change the status.
+ */
+export function isManualOverrideActive(
+  member: { status_source?: 'gps' | 'manual'; manual_expires_at?: string | null },
+  at: string | Date = new Date()
+): boolean {
+  if (member.status_source !== 'manual') {
+    return false;
+  }
+
+  return !member.manual_expires_at || new Date(member.manual_expires_at).getTime() > new Date(at).getTime();
+}
+
+
+// Latest fix applied to a membership, from whichever of the user's devices sent it
+export interface AppliedFix {
+  last_gps_update?: string | null;
+  last_gps_device_id?: string | null;
+  last_gps_accuracy_meters?: number | null;
+}
+
+// How long another device's fix keeps priority before a less accurate device may take over
+export const DEVICE_CONFLICT_WINDOW_SECONDS = 120;
+
+/**
+ * Resolve conflicting reports from a user's devices: the freshest accurate
+ * point wins. Older points are always rejected. A newer point from a different
+ * device than the last one applied only wins within the conflict window if it
+ * is at least as accurate, so an idle tablet cannot drag a phone's status back.
+ */
+export function shouldApplyFix(
+  point: { device_id: string; timestamp: string; accuracy_meters?: number },
+  last: AppliedFix
+): boolean {
+  if (!last.last_gps_update) {
+    return true;
+  }
+
+  const ageSeconds = (new Date(point.timestamp).getTime() - new Date(last.last_gps_update).getTime()) / 1000;
+
+  if (ageSeconds <= 0) {
+    return false;
+  }
+
+  if (!last.last_gps_device_id || last.last_gps_device_id === point.device_id) {
+    return true;
+  }
+
+  if (ageSeconds >= DEVICE_CONFLICT_WINDOW_SECONDS) {
+    return true;
+  }
+
+  if (last.last_gps_accuracy_meters == null) {
+    return true;
+  }
+
+  return point.accuracy_meters != null && point.accuracy_meters <= last.last_gps_accuracy_meters;
+}
+
+
+export interface TimedLocationFix extends LocationFix {
+  timestamp: string;
+}
+
+export interface ReplayedTransition {
+  from_status: 'IN_ROOM' | 'AWAY';
+  to_status: 'IN_ROOM' | 'AWAY';
+  distance_meters: number;
+  latitude: number;
+  longitude: number;
+  occurred_at: string;
+}
+
+/**
+ * Replay a historical track through one geofence, oldest point first, with the
+ * same hysteresis, accuracy and dwell rules as live ingestion. When the status
+ * before the track is unknown, the first conclusive point sets it without
+ * producing a transition.
+ */
+export function replayTrack(
+  points: TimedLocationFix[],
+  geofence: Geofence,
+  initialStatus: 'IN_ROOM' | 'AWAY' | null
+): ReplayedTransition[] {
+  const transitions: ReplayedTransition[] = [];
+  let status = initialStatus;
+  let pending: PendingTransition = NO_PENDING_TRANSITION;
+
+  for (const point of points) {
+    if (!status) {
+      const baseline = determineStatusChange(point, geofence, 'AWAY');
+      if (baseline.ignored_reason || baseline.hysteresis_applied) {
+        continue;
+      }
+      status = baseline.new_status === 'IN_ROOM' ? 'IN_ROOM' : 'AWAY';
+      continue;
+    }
+
+    const result = determineStatusChange(point, geofence, status);
+    const decision = applyDwellRule(result, geofence, pending, point.timestamp);
+    pending = decision.pending;
+
+    if (decision.commit && result.new_status) {
+      transitions.push({
+        from_status: status,
+        to_status: result.new_status,
+        distance_meters: result.distance_meters,
+        latitude: point.latitude,
+        longitude: point.longitude,
+        occurred_at: point.timestamp
+      });
+      status = result.new_status;
+    }
+  }
+
+  return transitions;
+}
+
+
 export function processMultipleGeofences(
-  location: Coordinates,
+  location: LocationFix,
   userGeofences: Array<GeofenceMember & { geofences: Geofence }>
 ): GeofenceResult[] {
   const results: GeofenceResult[] = [];
@@ -129,7 +349,7 @@ export function processMultipleGeofences(
     const geofence = member.geofences;
 
     try {
-      const result = determineStatusChange(location, geofence, member.status);
+      const result = determineStatusChange(location, geofence, toPresenceStatus(member.status, getStatusOptions(geofence)));
       results.push(result);
     } catch (error) {
       console.error(`Error processing geofence ${geofence.name}:`, error);
@@ -150,12 +370,165 @@ export function isInsideGeofence(
   };
 
   const distance = calculateDistance(location, geofenceCenter);
-  const inside = distance <= geofence.radius_meters;
+  const inside = calculateBoundaryDistance(location, geofence) <= 0;
 
   return { inside, distance };
 }
 
 
+/**
+ * Signed distance in meters from a location to the geofence boundary.
+ * Negative values are inside the geofence, positive values are outside.
+ */
+export function calculateBoundaryDistance(location: Coordinates, geofence: Geofence): number {
+  if (geofence.shape === 'polygon') {
+    const vertices = geofence.polygon_vertices;
+
+    if (!vertices || vertices.length < 3) {
+      throw new Error(`Polygon geofence ${geofence.name} has no valid vertices`);
+    }
+
+    const edgeDistance = distanceToPolygonEdge(location, vertices);
+    return isPointInPolygon(location, vertices) ? -edgeDistance : edgeDistance;
+  }
+
+  const geofenceCenter: Coordinates = {
+    latitude: geofence.center_latitude,
+    longitude: geofence.center_longitude
+  };
+
+  return calculateDistance(location, geofenceCenter) - geofence.radius_meters;
+}
+
+
+// Ray casting point-in-polygon test on raw latitude/longitude
+export function isPointInPolygon(point: Coordinates, vertices: GeofenceVertex[]): boolean {
+  let inside = false;
+
+  for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+    const vi = vertices[i];
+    const vj = vertices[j];
+
+    const crosses = (vi.latitude > point.latitude) !== (vj.latitude > point.latitude);
+    if (crosses) {
+      const intersectLon = vj.longitude + (point.latitude - vj.latitude) *
+        (vi.longitude - vj.longitude) / (vi.latitude - vj.latitude);
+      if (point.longitude < intersectLon) {
+        inside = !inside;
+      }
+    }
+  }
+
+  return inside;
+}
+
+
+/**
+ * Shortest distance in meters from a point to any polygon edge.
+ * Uses a local equirectangular projection around the point, which is accurate
+ * at the scale of a building or campus.
+ */
+export function distanceToPolygonEdge(point: Coordinates, vertices: GeofenceVertex[]): number {
+  const R = 6371000; // Earth's radius in meters
+  const cosLat = Math.cos(point.latitude * Math.PI / 180);
+
+  // Project a vertex to meters relative to the point
+  const project = (v: GeofenceVertex) => ({
+    x: (v.longitude - point.longitude) * Math.PI / 180 * R * cosLat,
+    y: (v.latitude - point.latitude) * Math.PI / 180 * R
+  });
+
+  let minDistance = Infinity;
+
+  for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+    const a = project(vertices[j]);
+    const b = project(vertices[i]);
+
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSq = dx * dx + dy * dy;
+
+    // Clamp the projection of the origin onto segment AB
+    const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, -(a.x * dx + a.y * dy) / lengthSq));
+    const closestX = a.x + t * dx;
+    const closestY = a.y + t * dy;
+
+    minDistance = Math.min(minDistance, Math.sqrt(closestX * closestX + closestY * closestY));
+  }
+
+  return minDistance;
+}
+
+
+// Average of the polygon vertices, used as the stored center of polygon geofences
+export function calculatePolygonCenter(vertices: GeofenceVertex[]): Coordinates {
+  const sum = vertices.reduce(
+    (acc, v) => ({ latitude: acc.latitude + v.latitude, longitude: acc.longitude + v.longitude }),
+    { latitude: 0, longitude: 0 }
+  );
+
+  return {
+    latitude: sum.latitude / vertices.length,
+    longitude: sum.longitude / vertices.length
+  };
+}
+
+
+// Distance from the center to the farthest vertex
+export function calculatePolygonRadius(vertices: GeofenceVertex[], center: Coordinates): number {
+  return Math.max(...vertices.map(v => calculateDistance(center, v)));
+}
+
+
+/**
+ * How far inside a polygon a point can get: the largest distance from any
+ * interior point to the nearest edge. Sampled on a grid over the bounding box
+ * plus the centroid, so thin and concave outlines are measured by their
+ * narrow parts rather than their length.
+ */
+export function calculatePolygonInnerRadius(vertices: GeofenceVertex[]): number {
+  if (vertices.length < 3) {
+    return 0;
+  }
+
+  const GRID_STEPS = 20;
+  const latitudes = vertices.map(v => v.latitude);
+  const longitudes = vertices.map(v => v.longitude);
+  const minLat = Math.min(...latitudes);
+  const minLon = Math.min(...longitudes);
+  const latSpan = Math.max(...latitudes) - minLat;
+  const lonSpan = Math.max(...longitudes) - minLon;
+
+  const samples: Coordinates[] = [calculatePolygonCenter(vertices)];
+  for (let i = 0; i < GRID_STEPS; i++) {
+    for (let j = 0; j < GRID_STEPS; j++) {
+      samples.push({
+        latitude: minLat + (i + 0.5) / GRID_STEPS * latSpan,
+        longitude: minLon + (j + 0.5) / GRID_STEPS * lonSpan
+      });
+    }
+  }
+
+  return samples.reduce(
+    (deepest, sample) => isPointInPolygon(sample, vertices)
+      ? Math.max(deepest, distanceToPolygonEdge(sample, vertices))
+      : deepest,
+    0
+  );
+}
+
+
+export function validatePolygon(vertices: unknown): vertices is GeofenceVertex[] {
+  if (!Array.isArray(vertices) || vertices.length < 3 || vertices.length > 50) {
+    return false;
+  }
+
+  return vertices.every(v =>
+    v && typeof v === 'object' && validateCoordinates(v as Coordinates)
+  );
+}
+
+
 export function createTestLocation(
   centerLat: number,
   centerLon: number,
@@ -189,12 +562,14 @@ export function getStatusSummary(results: GeofenceResult[]): {
   insideCount: number;
   outsideCount: number;
   hysteresisCount: number;
+  ignoredCount: number;
 } {
   return {
     totalGeofences: results.length,
     statusChanges: results.filter(r => r.status_should_change).length,
     insideCount: results.filter(r => r.inside_boundary).length,
     outsideCount: results.filter(r => !r.inside_boundary).length,
-    hysteresisCount: results.filter(r => r.hysteresis_applied).length
+    hysteresisCount: results.filter(r => r.hysteresis_applied).length,
+    ignoredCount: results.filter(r => r.ignored_reason).length
   };
 } 
\ No newline at end of file
@@ -57,6 +57,7 @@ export function useGeofences({
           id_geofence,
           name,
           invite_code,
+          occupancy_count,
           created_at,
           geofence_members!inner (
             role,
@@ -93,6 +94,7 @@ export function useGeofences({
         id_geofence: geofence.id_geofence,
         name: geofence.name,
         member_count: memberCountMap[geofence.id_geofence] || 0,
+        occupancy_count: geofence.occupancy_count ?? 0,
         created_at: geofence.created_at,
         invite_code: geofence.invite_code,
         role: geofence.geofence_members[0]?.role || 'member'
@@ -120,6 +122,7 @@ export function useGeofences({
       id_geofence: geofence.id_geofence,
       name: geofence.name,
       member_count: 1, // Owner is automatically added as member
+      occupancy_count: 0,
       created_at: geofence.created_at,
       invite_code: geofence.invite_code,
       role: 'owner' // Creator is always the owner
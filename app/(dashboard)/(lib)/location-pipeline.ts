@@ -0,0 +1,302 @@
+import type { AdminClient } from './supabase/client';
+import { applyDwellRule, calculateBoundaryDistance, determineStatusChange, isManualOverrideActive, shouldApplyFix, NO_PENDING_TRANSITION } from './geofence';
+import type { AppliedFix, PendingTransition } from './geofence';
+import { verifyDeviceToken } from './device-tokens';
+import { getStatusOptions, isPlaceholderStatus, toPresenceStatus } from './status-options';
+import { getDistanceBand, sharesDistance, sharesPosition } from './privacy';
+import { getTrackingPause, isPausedPoint } from './tracking-pause';
+import type { Geofence, GeofenceMember, MemberPrivacy, PresenceEvent } from './types';
+
+/**
+ * Shared location ingestion pipeline
+ *
+ * Tracker-specific routes (Overland, OwnTracks) parse their payloads into
+ * LocationPoints, authenticate the device and hand the points to
+ * processDeviceLocations, which stores history and replays each point through
+ * the geofence state machine.
+ */
+
+export interface LocationPoint {
+  device_id: string;
+  latitude: number;
+  longitude: number;
+  timestamp: string;
+  accuracy_meters?: number;
+}
+
+export interface RegisteredDevice {
+  device_id: string;
+  id_user: string;
+  token_hash: string | null;
+  last_location_update: string | null;
+}
+
+export type DeviceAuthResult =
+  | { ok: true; device: RegisteredDevice }
+  | { ok: false; status: 401 | 404; error: string };
+
+export type CommittedEvent = Omit<PresenceEvent, 'id' | 'created_at'>;
+
+type SharedLocation = Pick<GeofenceMember, 'distance_band' | 'last_latitude' | 'last_longitude'>;
+
+/**
+ * What a point reveals to the other members at the member's privacy level.
+ * The database strips anything more, in case the level changed meanwhile.
+ */
+function getSharedLocation(point: LocationPoint, geofence: Geofence, privacy: MemberPrivacy | undefined): SharedLocation {
+  if (!sharesDistance(privacy)) {
+    return {};
+  }
+
+  const distanceBand = getDistanceBand(calculateBoundaryDistance(point, geofence));
+
+  return sharesPosition(privacy)
+    ? { distance_band: distanceBand, last_latitude: point.latitude, last_longitude: point.longitude }
+    : { distance_band: distanceBand };
+}
+
+/**
+ * Look up an enabled device and check its access token
+ */
+export async function authenticateDevice(
+  supabase: AdminClient,
+  deviceId: string,
+  accessToken: string
+): Promise<DeviceAuthResult> {
+  const { data: device } = await supabase
+    .from('device_mappings')
+    .select('device_id, id_user, token_hash, last_location_update')
+    .eq('device_id', deviceId)
+    .eq('enabled', true)
+    .single();
+
+  if (!device) {
+    return { ok: false, status: 404, error: 'Device not registered or disabled' };
+  }
+
+  if (!verifyDeviceToken(accessToken, device.token_hash)) {
+    return { ok: false, status: 401, error: 'Invalid device access token' };
+  }
+
+  return { ok: true, device: device as RegisteredDevice };
+}
+
+/**
+ * Store and evaluate one device's points, oldest first
+ *
+ * Points are replayed through each of the user's geofences, carrying status
+ * and any pending dwell transition from point to point. When a user has
+ * several devices, the freshest accurate point wins. While a member's manual
+ * status is in force, points are recorded but cannot change it, and paused
+ * memberships are skipped. Each membership only stores as much of the
+ * position as its privacy level shares. While the user's tracking is paused,
+ * points are dropped or only stored, depending on their pause mode. Database
+ * errors are thrown so the caller can ask the tracker to retry the batch.
+ *
+ * @returns The status changes committed by this batch
+ */
+export async function processDeviceLocations(
+  supabase: AdminClient,
+  device: RegisteredDevice,
+  points: LocationPoint[]
+): Promise<CommittedEvent[]> {
+  const committed: CommittedEvent[] = [];
+
+  // 0. Leave out points covered by ghost mode
+  const pause = await getTrackingPause(supabase, device.id_user);
+  const evaluated = points.filter(point => !isPausedPoint(pause, point.timestamp));
+  const stored = pause?.pause_mode === 'drop' ? evaluated : points;
+
+  if (stored.length === 0) {
+    return committed;
+  }
+
+  // 1. Get all geofences this user is a member of
+  const { data: memberships, error: membershipsError } = await supabase
+    .from('geofence_members')
+    .select('*, geofences(*)')
+    .eq('id_user', device.id_user);
+
+  if (membershipsError) {
+    throw membershipsError;
+  }
+
+  // 2. Persist the raw points (retried batches are deduplicated by timestamp)
+  const { error: historyError } = await supabase
+    .from('location_history')
+    .upsert(
+      stored.map(point => ({
+        id_user: device.id_user,
+        device_id: device.device_id,
+        latitude: point.latitude,
+        longitude: point.longitude,
+        accuracy_meters: point.accuracy_meters ?? null,
+        recorded_at: point.timestamp,
+      })),
+      { onConflict: 'device_id,recorded_at', ignoreDuplicates: true }
+    );
+
+  if (historyError) {
+    throw historyError;
+  }
+
+  // 3. Replay the batch through each geofence
+  for (const member of memberships || []) {
+    // Paused members are not tracked in this geofence; their points stay in their own history
+    if (member.privacy === 'paused') {
+      continue;
+    }
+
+    const geofence = member.geofences as Geofence;
+    const statusOptions = getStatusOptions(geofence);
+    // Custom statuses map to inside/outside; GPS only changes them when presence changes
+    let status: string = member.status;
+    let pending: PendingTransition = {
+      pending_status: member.pending_status ?? null,
+      pending_since: member.pending_since ?? null,
+      pending_point_count: member.pending_point_count ?? 0,
+    };
+    let lastFix: AppliedFix = {
+      last_gps_update: member.last_gps_update ?? null,
+      last_gps_device_id: member.last_gps_device_id ?? null,
+      last_gps_accuracy_meters: member.last_gps_accuracy_meters ?? null,
+    };
+    let shared: SharedLocation = {};
+    let applied = false;
+    let overrideEnded = false;
+    const events: CommittedEvent[] = [];
+
+    for (const point of evaluated) {
+      // Never let an older point, or a less accurate one from another device, override the last fix
+      if (!shouldApplyFix(point, lastFix)) {
+        continue;
+      }
+
+      if (member.status_source === 'manual') {
+        if (isManualOverrideActive(member, point.timestamp)) {
+          pending = NO_PENDING_TRANSITION;
+          lastFix = {
+            last_gps_update: point.timestamp,
+            last_gps_device_id: device.device_id,
+            last_gps_accuracy_meters: point.accuracy_meters ?? null,
+          };
+          shared = getSharedLocation(point, geofence, member.privacy);
+          applied = true;
+          continue;
+        }
+        overrideEnded = true;
+      }
+
+      try {
+        // Resuming after a pause or going stale: the first conclusive fix sets the status, with no dwell
+        if (isPlaceholderStatus(status)) {
+          const baseline = determineStatusChange(point, geofence, 'AWAY');
+          lastFix = {
+            last_gps_update: point.timestamp,
+            last_gps_device_id: device.device_id,
+            last_gps_accuracy_meters: point.accuracy_meters ?? null,
+          };
+          shared = getSharedLocation(point, geofence, member.privacy);
+          applied = true;
+
+          if (!baseline.ignored_reason && !baseline.hysteresis_applied) {
+            const resumedStatus = baseline.new_status ?? 'AWAY';
+            events.push({
+              id_geofence: member.id_geofence,
+              id_user: member.id_user,
+              from_status: status,
+              to_status: resumedStatus,
+              distance_meters: baseline.distance_meters,
+              latitude: point.latitude,
+              longitude: point.longitude,
+              device_id: device.device_id,
+              source: 'gps',
+              occurred_at: point.timestamp,
+            });
+            status = resumedStatus;
+            pending = NO_PENDING_TRANSITION;
+          }
+          continue;
+        }
+
+        const result = determineStatusChange(
+          { latitude: point.latitude, longitude: point.longitude, accuracy_meters: point.accuracy_meters },
+          geofence,
+          toPresenceStatus(status, statusOptions)
+        );
+
+        const decision = applyDwellRule(result, geofence, pending, point.timestamp);
+        pending = decision.pending;
+        lastFix = {
+          last_gps_update: point.timestamp,
+          last_gps_device_id: device.device_id,
+          last_gps_accuracy_meters: point.accuracy_meters ?? null,
+        };
+        shared = getSharedLocation(point, geofence, member.privacy);
+        applied = true;
+
+        if (decision.commit && result.new_status) {
+          events.push({
+            id_geofence: member.id_geofence,
+            id_user: member.id_user,
+            from_status: status,
+            to_status: result.new_status,
+            distance_meters: result.distance_meters,
+            latitude: point.latitude,
+            longitude: point.longitude,
+            device_id: device.device_id,
+            source: 'gps',
+            occurred_at: point.timestamp,
+          });
+          status = result.new_status;
+        }
+      } catch (error) {
+        console.error(`Error processing geofence ${geofence.name}:`, error);
+        break;
+      }
+    }
+
+    if (events.length > 0) {
+      const { error: eventsError } = await supabase
+        .from('presence_events')
+        .upsert(events, { onConflict: 'id_geofence,id_user,occurred_at', ignoreDuplicates: true });
+
+      if (eventsError) {
+        throw eventsError;
+      }
+    }
+
+    if (applied) {
+      const { error: updateError } = await supabase
+        .from('geofence_members')
+        .update({
+          status,
+          ...pending,
+          ...(events.length > 0 ? { last_updated: new Date().toISOString() } : {}),
+          ...lastFix,
+          ...shared,
+          ...(overrideEnded ? { status_source: 'gps', manual_expires_at: null } : {}),
+        })
+        .eq('id_geofence', member.id_geofence)
+        .eq('id_user', member.id_user);
+
+      if (updateError) {
+        throw updateError;
+      }
+    }
+
+    committed.push(...events);
+  }
+
+  // 4. Update the device's last seen time
+  const { error: deviceUpdateError } = await supabase
+    .from('device_mappings')
+    .update({ last_location_update: new Date().toISOString() })
+    .eq('device_id', device.device_id);
+
+  if (deviceUpdateError) {
+    throw deviceUpdateError;
+  }
+
+  return committed;
+}
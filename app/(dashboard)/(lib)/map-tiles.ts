@@ -0,0 +1,38 @@
+import type { Map as LeafletMap } from 'leaflet';
+
+/**
+ * Base map tiles for the dashboard's Leaflet maps
+ *
+ * Tiles come from OpenStreetMap unless NEXT_PUBLIC_MAP_TILE_URL points at
+ * another XYZ server, e.g. a self-hosted one. Set
+ * NEXT_PUBLIC_MAP_TILE_ATTRIBUTION to match, as most tile licenses require
+ * credit, and NEXT_PUBLIC_MAP_MAX_ZOOM if the server stops short of 19.
+ */
+
+export const MAP_TILE_URL = process.env.NEXT_PUBLIC_MAP_TILE_URL || 'https://tile.openstreetmap.org/{z}/{x}/{y}.png';
+
+export const MAP_TILE_ATTRIBUTION = process.env.NEXT_PUBLIC_MAP_TILE_ATTRIBUTION
+  || '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors';
+
+export const MAP_MAX_ZOOM = Number(process.env.NEXT_PUBLIC_MAP_MAX_ZOOM) || 19;
+
+/**
+ * Leaflet reads window on import, so maps load it inside an effect
+ */
+export function loadLeaflet(): Promise<typeof import('leaflet')> {
+  return import('leaflet').then(module => 'default' in module ? module.default : module);
+}
+
+/**
+ * Create a map in the given element with the configured tiles
+ */
+export function createTiledMap(L: typeof import('leaflet'), element: HTMLElement): LeafletMap {
+  const map = L.map(element, { maxZoom: MAP_MAX_ZOOM }).setView([20, 0], 2);
+
+  L.tileLayer(MAP_TILE_URL, {
+    attribution: MAP_TILE_ATTRIBUTION,
+    maxZoom: MAP_MAX_ZOOM
+  }).addTo(map);
+
+  return map;
+}
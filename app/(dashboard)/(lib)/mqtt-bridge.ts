@@ -0,0 +1,250 @@
+import mqtt from 'mqtt';
+import { after } from 'next/server';
+import type { MqttClient } from 'mqtt';
+import type { AdminClient } from './supabase/client';
+import { findStatusOption, getStatusOptions, isPlaceholderStatus, isPresentStatus } from './status-options';
+import type { Geofence, GeofenceMember, PresenceEvent } from './types';
+
+/**
+ * Home Assistant / MQTT presence bridge
+ *
+ * Optional: enabled when MQTT_URL is set (e.g. mqtt://localhost:1883), with
+ * MQTT_USERNAME and MQTT_PASSWORD if the broker needs them. Each member of a
+ * geofence gets retained topics under <MQTT_TOPIC_PREFIX>/<geofence>/<member>/:
+ * "state" holds home or not_home and "attributes" the full status as JSON.
+ * Home Assistant discovery config is published under MQTT_DISCOVERY_PREFIX so
+ * every member appears as a device_tracker. Messages are retained but not
+ * queued by us: a member missed while the broker was down is republished
+ * with their next status change.
+ */
+
+type MirroredEvent = Pick<PresenceEvent, 'id_geofence' | 'id_user'>;
+
+interface MqttConfig {
+  url: string;
+  username?: string;
+  password?: string;
+  topicPrefix: string;
+  discoveryPrefix: string;
+}
+
+export interface MemberTopics {
+  state: string;
+  attributes: string;
+  discovery: string;
+}
+
+const CONNECT_TIMEOUT_MS = 5000;
+
+// Payloads the device_tracker discovery config maps to home / away
+const PAYLOAD_HOME = 'home';
+const PAYLOAD_NOT_HOME = 'not_home';
+
+function getMqttConfig(): MqttConfig | null {
+  const url = process.env.MQTT_URL;
+  if (!url) {
+    return null;
+  }
+
+  return {
+    url,
+    username: process.env.MQTT_USERNAME || undefined,
+    password: process.env.MQTT_PASSWORD || undefined,
+    topicPrefix: process.env.MQTT_TOPIC_PREFIX || 'geodorm',
+    discoveryPrefix: process.env.MQTT_DISCOVERY_PREFIX || 'homeassistant'
+  };
+}
+
+// MQTT wildcards and separators cannot appear inside a topic level
+const toTopicLevel = (value: string) => value.replace(/[^a-zA-Z0-9_-]/g, '_');
+
+export function buildMemberTopics(
+  geofenceId: string,
+  userId: string,
+  prefixes: Pick<MqttConfig, 'topicPrefix' | 'discoveryPrefix'>
+): MemberTopics {
+  const base = `${prefixes.topicPrefix}/${toTopicLevel(geofenceId)}/${toTopicLevel(userId)}`;
+  const objectId = `geodorm_${toTopicLevel(geofenceId)}_${toTopicLevel(userId)}`;
+
+  return {
+    state: `${base}/state`,
+    attributes: `${base}/attributes`,
+    discovery: `${prefixes.discoveryPrefix}/device_tracker/${objectId}/config`
+  };
+}
+
+/**
+ * Home Assistant discovery config for one member in one geofence
+ *
+ * Each member is a device; each geofence they belong to is a tracker on it.
+ */
+export function buildDiscoveryConfig(
+  geofence: Pick<Geofence, 'id_geofence' | 'name'>,
+  userId: string,
+  memberName: string,
+  topics: MemberTopics
+): Record<string, unknown> {
+  return {
+    name: geofence.name,
+    unique_id: `geodorm_${toTopicLevel(geofence.id_geofence)}_${toTopicLevel(userId)}`,
+    state_topic: topics.state,
+    json_attributes_topic: topics.attributes,
+    payload_home: PAYLOAD_HOME,
+    payload_not_home: PAYLOAD_NOT_HOME,
+    source_type: 'gps',
+    device: {
+      identifiers: [`geodorm_${toTopicLevel(userId)}`],
+      name: memberName,
+      manufacturer: 'GeoDorm'
+    }
+  };
+}
+
+// Deferred publishes, chained so they reach the broker in the order they were made
+let publishQueue: Promise<void> = Promise.resolve();
+
+/**
+ * Connect, run the publishes and disconnect; serverless instances cannot hold a connection open
+ *
+ * Inside a request this runs after the response is sent, so a slow or
+ * unreachable broker never holds up a tracker. Elsewhere, such as the jobs
+ * CLI, it runs straight away.
+ */
+async function withMqttClient(publish: (client: MqttClient, config: MqttConfig) => Promise<void>): Promise<void> {
+  const config = getMqttConfig();
+  if (!config) {
+    return;
+  }
+
+  const run = async () => {
+    let client: MqttClient | null = null;
+    try {
+      client = await mqtt.connectAsync(config.url, {
+        username: config.username,
+        password: config.password,
+        connectTimeout: CONNECT_TIMEOUT_MS,
+        reconnectPeriod: 0
+      });
+      await publish(client, config);
+    } catch (error) {
+      console.error('Error publishing to MQTT:', error);
+    } finally {
+      await client?.endAsync().catch(() => undefined);
+    }
+  };
+
+  try {
+    after(() => {
+      publishQueue = publishQueue.then(run);
+      return publishQueue;
+    });
+    return;
+  } catch {
+    // Not in a request
+  }
+
+  await run();
+}
+
+// An empty retained message deletes the retained one
+async function clearTopics(client: MqttClient, topics: MemberTopics): Promise<void> {
+  for (const topic of [topics.discovery, topics.attributes, topics.state]) {
+    await client.publishAsync(topic, '', { qos: 1, retain: true });
+  }
+}
+
+/**
+ * Publish the discovery config, state and attributes of a geofence's members
+ *
+ * @param userIds - Limit to these members; all members when omitted
+ */
+export async function publishMemberStates(supabase: AdminClient, geofenceId: string, userIds?: string[]): Promise<void> {
+  if (!getMqttConfig()) {
+    return;
+  }
+
+  try {
+    let membersQuery = supabase
+      .from('geofence_members')
+      .select('*, users(full_name, email)')
+      .eq('id_geofence', geofenceId);
+
+    if (userIds) {
+      membersQuery = membersQuery.in('id_user', userIds);
+    }
+
+    const [{ data: geofence, error: geofenceError }, { data: members, error: membersError }] = await Promise.all([
+      supabase.from('geofences').select('*').eq('id_geofence', geofenceId).single(),
+      membersQuery
+    ]);
+
+    if (geofenceError || membersError || !geofence) {
+      throw geofenceError || membersError;
+    }
+
+    const statusOptions = getStatusOptions(geofence);
+
+    await withMqttClient(async (client, config) => {
+      for (const member of (members || []) as Array<GeofenceMember & { users?: { full_name?: string; email?: string } }>) {
+        const topics = buildMemberTopics(geofenceId, member.id_user, config);
+
+        // Paused members are not tracked, so remove them rather than report them away
+        if (member.privacy === 'paused' || isPlaceholderStatus(member.status)) {
+          await clearTopics(client, topics);
+          continue;
+        }
+
+        const memberName = member.users?.full_name || member.users?.email?.split('@')[0] || 'GeoDorm member';
+        const present = isPresentStatus(member.status, statusOptions);
+
+        await client.publishAsync(
+          topics.discovery,
+          JSON.stringify(buildDiscoveryConfig(geofence, member.id_user, memberName, topics)),
+          { qos: 1, retain: true }
+        );
+        await client.publishAsync(
+          topics.attributes,
+          JSON.stringify({
+            status: member.status,
+            status_label: findStatusOption(member.status, statusOptions)?.label ?? member.status,
+            present,
+            status_source: member.status_source ?? 'gps',
+            last_updated: member.last_updated,
+            last_gps_update: member.last_gps_update ?? null
+          }),
+          { qos: 1, retain: true }
+        );
+        await client.publishAsync(topics.state, present ? PAYLOAD_HOME : PAYLOAD_NOT_HOME, { qos: 1, retain: true });
+      }
+    });
+  } catch (error) {
+    console.error(`Error mirroring geofence ${geofenceId} to MQTT:`, error);
+  }
+}
+
+/**
+ * Remove members' retained topics, which also removes their Home Assistant trackers
+ */
+export async function clearMemberStates(geofenceId: string, userIds: string[]): Promise<void> {
+  if (userIds.length === 0) {
+    return;
+  }
+
+  await withMqttClient(async (client, config) => {
+    for (const userId of userIds) {
+      await clearTopics(client, buildMemberTopics(geofenceId, userId, config));
+    }
+  });
+}
+
+/**
+ * Mirror the members whose status just changed
+ */
+export async function mirrorPresenceToMqtt(supabase: AdminClient, events: MirroredEvent[]): Promise<void> {
+  const geofenceIds = [...new Set(events.map(event => event.id_geofence))];
+
+  for (const geofenceId of geofenceIds) {
+    const userIds = [...new Set(events.filter(event => event.id_geofence === geofenceId).map(event => event.id_user))];
+    await publishMemberStates(supabase, geofenceId, userIds);
+  }
+}
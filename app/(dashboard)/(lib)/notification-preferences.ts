@@ -0,0 +1,106 @@
+import type { NotificationEventType, NotificationPreferences } from './types';
+
+/**
+ * Per-member alert settings
+ *
+ * Decides whether one member should be alerted about a status change in a
+ * geofence: who they follow, which kinds of change they care about, their
+ * quiet hours and how often they are willing to be alerted.
+ */
+
+export type NotificationSettings = Pick<
+  NotificationPreferences,
+  'followed_user_ids' | 'events' | 'quiet_hours_start' | 'quiet_hours_end' | 'timezone' | 'min_interval_minutes'
+>;
+
+export const NOTIFICATION_EVENT_TYPES: NotificationEventType[] = ['arrive', 'leave', 'first_arrived', 'last_left'];
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  followed_user_ids: null,
+  events: ['arrive', 'leave'],
+  quiet_hours_start: null,
+  quiet_hours_end: null,
+  timezone: 'UTC',
+  min_interval_minutes: 0
+};
+
+export const MAX_NOTIFICATION_INTERVAL_MINUTES = 1440;
+
+
+// Postgres TIME columns come back as HH:MM:SS
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Whether a moment falls inside the quiet hours, in the member's timezone
+ *
+ * A window whose end is before its start runs overnight, e.g. 22:00-07:00.
+ */
+export function isWithinQuietHours(settings: NotificationSettings, at: Date = new Date()): boolean {
+  const { quiet_hours_start: start, quiet_hours_end: end } = settings;
+  if (!start || !end) {
+    return false;
+  }
+
+  const timeZone = isValidTimeZone(settings.timezone) ? settings.timezone : 'UTC';
+  const localTime = new Intl.DateTimeFormat('en-GB', {
+    timeZone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).format(at);
+
+  const now = toMinutes(localTime);
+  const from = toMinutes(start);
+  const to = toMinutes(end);
+
+  if (from === to) return false;
+  return from < to ? now >= from && now < to : now >= from || now < to;
+}
+
+/**
+ * Pick the alert a member should get for a status change, or null for none
+ *
+ * `kinds` lists everything the change means, e.g. ['arrive', 'first_arrived'].
+ * Occupancy alerts describe the whole geofence, so they ignore the follow list
+ * and take priority over the plain arrival or departure.
+ */
+export function selectNotification(
+  settings: NotificationSettings & Pick<NotificationPreferences, 'last_notified_at'>,
+  actorId: string,
+  kinds: NotificationEventType[],
+  at: Date = new Date()
+): NotificationEventType | null {
+  const follows = !settings.followed_user_ids || settings.followed_user_ids.includes(actorId);
+  const wanted = kinds
+    .filter(kind => settings.events.includes(kind))
+    .filter(kind => kind === 'first_arrived' || kind === 'last_left' || follows);
+
+  if (wanted.length === 0) {
+    return null;
+  }
+
+  if (isWithinQuietHours(settings, at)) {
+    return null;
+  }
+
+  if (settings.min_interval_minutes > 0 && settings.last_notified_at) {
+    const elapsedMs = at.getTime() - new Date(settings.last_notified_at).getTime();
+    if (elapsedMs < settings.min_interval_minutes * 60 * 1000) {
+      return null;
+    }
+  }
+
+  return wanted.find(kind => kind === 'first_arrived' || kind === 'last_left') ?? wanted[0];
+}
@@ -0,0 +1,106 @@
+import type { AdminClient } from './supabase/client';
+import { getStatusOptions, isPresentStatus } from './status-options';
+import type { GeofenceStatusOption, OccupancyEvent, OccupancyEventType } from './types';
+
+/**
+ * Geofence-level occupancy
+ *
+ * The number of members whose status counts as present is stored on the
+ * geofence so lists can show "2/4 home" without loading members. It is
+ * recomputed from geofence_members whenever a transition commits, and an
+ * occupancy event is recorded when the geofence becomes occupied or empty.
+ */
+
+// Re-reads when another refresh changed the count in between
+const MAX_REFRESH_ATTEMPTS = 3;
+
+export type NewOccupancyEvent = Omit<OccupancyEvent, 'id' | 'created_at'>;
+
+export function countPresentMembers(members: Array<{ status: string }>, statusOptions: GeofenceStatusOption[]): number {
+  return members.filter(member => isPresentStatus(member.status, statusOptions)).length;
+}
+
+export function deriveOccupancyEvent(previousCount: number, count: number): OccupancyEventType | null {
+  if (previousCount === 0 && count > 0) return 'occupancy.first_arrived';
+  if (previousCount > 0 && count === 0) return 'occupancy.last_left';
+  return null;
+}
+
+/**
+ * Recompute and store a geofence's occupancy
+ *
+ * Pass the transition that triggered the refresh to record an occupancy event
+ * when the geofence became occupied or empty; membership changes refresh the
+ * count without one.
+ *
+ * @returns The recorded occupancy event, if any
+ */
+export async function refreshOccupancy(
+  supabase: AdminClient,
+  geofenceId: string,
+  trigger?: { id_user: string; occurred_at: string }
+): Promise<NewOccupancyEvent | null> {
+  let previousCount = 0;
+  let count = 0;
+  let memberCount = 0;
+  let stored = false;
+
+  // Compare-and-set, so of two concurrent refreshes only the one that moved the count records an event
+  for (let attempt = 0; attempt < MAX_REFRESH_ATTEMPTS && !stored; attempt++) {
+    const [{ data: geofence, error: geofenceError }, { data: members, error: membersError }] = await Promise.all([
+      supabase.from('geofences').select('occupancy_count, status_options').eq('id_geofence', geofenceId).single(),
+      supabase.from('geofence_members').select('status').eq('id_geofence', geofenceId)
+    ]);
+
+    if (geofenceError || membersError || !geofence) {
+      throw geofenceError || membersError;
+    }
+
+    previousCount = geofence.occupancy_count ?? 0;
+    count = countPresentMembers(members || [], getStatusOptions(geofence));
+    memberCount = (members || []).length;
+
+    if (count === previousCount) {
+      return null;
+    }
+
+    const { data: updated, error: updateError } = await supabase
+      .from('geofences')
+      .update({ occupancy_count: count })
+      .eq('id_geofence', geofenceId)
+      .eq('occupancy_count', previousCount)
+      .select('id_geofence');
+
+    if (updateError) {
+      throw updateError;
+    }
+
+    stored = !!updated && updated.length > 0;
+  }
+
+  if (!stored) {
+    return null;
+  }
+
+  const eventType = deriveOccupancyEvent(previousCount, count);
+  if (!trigger || !eventType) {
+    return null;
+  }
+
+  const event: NewOccupancyEvent = {
+    id_geofence: geofenceId,
+    event_type: eventType,
+    id_user: trigger.id_user,
+    occupancy_count: count,
+    member_count: memberCount,
+    occurred_at: trigger.occurred_at
+  };
+
+  const { error: insertError } = await supabase.from('occupancy_events').insert(event);
+
+  if (insertError) {
+    throw insertError;
+  }
+
+  return event;
+}
@@ -0,0 +1,298 @@
+import { z } from 'zod';
+import {
+  apiSchemas,
+  ApiErrorSchema,
+  ClerkWebhookEventSchema,
+  GeofenceDetailResponseSchema,
+  GeofenceListResponseSchema,
+  JobRunResponseSchema,
+  LocationUpdateRequestSchema,
+  LocationUpdateResponseSchema,
+  OwnTracksMessageSchema,
+  OwnTracksResponseSchema,
+  PresenceHistoryQuerySchema,
+  PresenceHistoryResponseSchema
+} from './api-schemas';
+import { SCHEDULED_JOBS } from './scheduled-jobs';
+
+/**
+ * OpenAPI 3.1 document for the HTTP API
+ *
+ * Each route under app/api is described once in API_ROUTES using the same
+ * schemas its handler validates with, and buildOpenApiDocument() turns the
+ * list into the document served at /api/openapi.json.
+ */
+
+type SecurityScheme = 'personalAccessToken' | 'deviceTokenQuery' | 'deviceTokenBearer' | 'deviceBasic' | 'svixSignature' | 'cronSecret';
+
+interface ApiRouteDefinition {
+  method: 'get' | 'post';
+  path: string;
+  operationId: string;
+  summary: string;
+  description?: string;
+  tags: string[];
+  // Alternatives: any one of these schemes is enough
+  security?: SecurityScheme[];
+  scopes?: string[];
+  pathParams?: z.ZodObject;
+  query?: z.ZodObject;
+  body?: z.ZodType;
+  responses: Record<number, { description: string; schema?: z.ZodType }>;
+}
+
+const GeofencePathSchema = z.object({
+  geofenceId: z.string().describe('Geofence ID')
+});
+
+const JobPathSchema = z.object({
+  job: z.enum(SCHEDULED_JOBS.map(job => job.name)).describe('Job name')
+});
+
+const errorResponse = (description: string) => ({ description, schema: ApiErrorSchema });
+
+export const API_ROUTES: ApiRouteDefinition[] = [
+  {
+    method: 'post',
+    path: '/api/location-update',
+    operationId: 'postLocationUpdate',
+    summary: 'Upload GPS points from Overland or a simple tracker',
+    description: 'Points are replayed through the geofence pipeline in timestamp order. Points that fail validation are skipped; the request is rejected when none are valid.',
+    tags: ['Location ingestion'],
+    security: ['deviceTokenQuery', 'deviceTokenBearer'],
+    body: LocationUpdateRequestSchema,
+    responses: {
+      200: { description: 'All points stored', schema: LocationUpdateResponseSchema },
+      400: errorResponse('No valid location points'),
+      401: errorResponse('Missing or invalid device token'),
+      404: errorResponse('Unknown or disabled device')
+    }
+  },
+  {
+    method: 'post',
+    path: '/api/owntracks',
+    operationId: 'postOwnTracks',
+    summary: 'Receive an OwnTracks HTTP-mode message',
+    description: 'Location and transition messages are processed; other message types are acknowledged with an empty array.',
+    tags: ['Location ingestion'],
+    security: ['deviceBasic'],
+    body: OwnTracksMessageSchema,
+    responses: {
+      200: { description: 'Messages for the OwnTracks app', schema: OwnTracksResponseSchema },
+      400: errorResponse('Body is not an OwnTracks message'),
+      401: errorResponse('Missing or invalid device credentials')
+    }
+  },
+  {
+    method: 'post',
+    path: '/api/webhooks/clerk',
+    operationId: 'postClerkWebhook',
+    summary: 'Sync users from Clerk',
+    tags: ['Webhooks'],
+    security: ['svixSignature'],
+    body: ClerkWebhookEventSchema,
+    responses: {
+      200: { description: 'Event processed' },
+      400: { description: 'Missing headers, bad signature or malformed event' },
+      500: { description: 'Processing failed' }
+    }
+  },
+  {
+    method: 'get',
+    path: '/api/cron/{job}',
+    operationId: 'runScheduledJob',
+    summary: 'Run a scheduled job',
+    description: 'Called by Vercel Cron on the schedules in vercel.json. The run is recorded, and skipped if another run of the same job is in progress.',
+    tags: ['Scheduled jobs'],
+    security: ['cronSecret'],
+    pathParams: JobPathSchema,
+    responses: {
+      200: { description: 'The run succeeded or was skipped', schema: JobRunResponseSchema },
+      401: errorResponse('Missing or invalid cron secret'),
+      404: errorResponse('Unknown job'),
+      500: { description: 'The job failed, or cron jobs are not configured' }
+    }
+  },
+  {
+    method: 'get',
+    path: '/api/v1/geofences',
+    operationId: 'listGeofences',
+    summary: 'List your geofences',
+    tags: ['REST API v1'],
+    security: ['personalAccessToken'],
+    scopes: ['geofences:read'],
+    responses: {
+      200: { description: 'Geofences you belong to, newest first', schema: GeofenceListResponseSchema },
+      401: errorResponse('Missing, invalid or expired token'),
+      403: errorResponse('Token is missing the geofences:read scope')
+    }
+  },
+  {
+    method: 'get',
+    path: '/api/v1/geofences/{geofenceId}',
+    operationId: 'getGeofence',
+    summary: 'Get a geofence with member statuses',
+    tags: ['REST API v1'],
+    security: ['personalAccessToken'],
+    scopes: ['geofences:read'],
+    pathParams: GeofencePathSchema,
+    responses: {
+      200: { description: 'The geofence and its members', schema: GeofenceDetailResponseSchema },
+      401: errorResponse('Missing, invalid or expired token'),
+      403: errorResponse('Token is missing the geofences:read scope'),
+      404: errorResponse('Not a member of this geofence')
+    }
+  },
+  {
+    method: 'get',
+    path: '/api/v1/geofences/{geofenceId}/history',
+    operationId: 'getGeofenceHistory',
+    summary: 'Read status changes in a geofence',
+    description: 'Newest first. The range can span at most 31 days.',
+    tags: ['REST API v1'],
+    security: ['personalAccessToken'],
+    scopes: ['history:read'],
+    pathParams: GeofencePathSchema,
+    query: PresenceHistoryQuerySchema,
+    responses: {
+      200: { description: 'Status changes in the range', schema: PresenceHistoryResponseSchema },
+      400: errorResponse('Invalid query parameters'),
+      401: errorResponse('Missing, invalid or expired token'),
+      403: errorResponse('Token is missing the history:read scope'),
+      404: errorResponse('Not a member of this geofence')
+    }
+  },
+  {
+    method: 'get',
+    path: '/api/openapi.json',
+    operationId: 'getOpenApiDocument',
+    summary: 'This document',
+    tags: ['Meta'],
+    responses: {
+      200: { description: 'OpenAPI 3.1 document' }
+    }
+  }
+];
+
+const SECURITY_SCHEMES: Record<SecurityScheme, Record<string, unknown>> = {
+  personalAccessToken: {
+    type: 'http',
+    scheme: 'bearer',
+    description: 'Personal access token (gdp_...) created in the dashboard'
+  },
+  deviceTokenQuery: {
+    type: 'apiKey',
+    in: 'query',
+    name: 'token',
+    description: 'Device access token from the registered Endpoint URL'
+  },
+  deviceTokenBearer: {
+    type: 'http',
+    scheme: 'bearer',
+    description: 'Device access token'
+  },
+  deviceBasic: {
+    type: 'http',
+    scheme: 'basic',
+    description: 'Device ID as the username and device access token as the password'
+  },
+  svixSignature: {
+    type: 'apiKey',
+    in: 'header',
+    name: 'svix-signature',
+    description: 'Svix signature, verified with CLERK_WEBHOOK_SECRET'
+  },
+  cronSecret: {
+    type: 'http',
+    scheme: 'bearer',
+    description: 'The CRON_SECRET environment variable, sent by Vercel Cron'
+  }
+};
+
+const SCHEMA_URI = (id: string) => `#/components/schemas/${id}`;
+
+// Registered schemas are referenced; anything else is inlined
+function toJsonSchema(schema: z.ZodType): Record<string, unknown> {
+  const id = apiSchemas.get(schema)?.id;
+  if (id) {
+    return { $ref: SCHEMA_URI(id) };
+  }
+
+  const { $schema, ...jsonSchema } = z.toJSONSchema(schema, { io: 'input' }) as Record<string, unknown>;
+  return jsonSchema;
+}
+
+function toParameters(schema: z.ZodObject, location: 'path' | 'query') {
+  return Object.entries(schema.shape).map(([name, property]) => {
+    const { description, ...propertySchema } = toJsonSchema(property as z.ZodType);
+    return {
+      name,
+      in: location,
+      required: location === 'path' || !(property as z.ZodType).safeParse(undefined).success,
+      ...(description ? { description } : {}),
+      schema: propertySchema
+    };
+  });
+}
+
+/**
+ * Build the OpenAPI document
+ *
+ * @param serverUrl - Origin the document is served from, listed as the server
+ */
+export function buildOpenApiDocument(serverUrl?: string): Record<string, unknown> {
+  const { schemas } = z.toJSONSchema(apiSchemas, { uri: SCHEMA_URI, io: 'input' });
+  const components = Object.fromEntries(
+    Object.entries(schemas).map(([id, { $schema, $id, ...schema }]) => [id, schema])
+  );
+
+  const paths: Record<string, Record<string, unknown>> = {};
+
+  for (const route of API_ROUTES) {
+    const parameters = [
+      ...(route.pathParams ? toParameters(route.pathParams, 'path') : []),
+      ...(route.query ? toParameters(route.query, 'query') : [])
+    ];
+
+    paths[route.path] = {
+      ...paths[route.path],
+      [route.method]: {
+        operationId: route.operationId,
+        summary: route.summary,
+        ...(route.description ? { description: route.description } : {}),
+        tags: route.tags,
+        ...(route.security ? { security: route.security.map(scheme => ({ [scheme]: [] })) } : { security: [] }),
+        ...(route.scopes ? { 'x-required-scopes': route.scopes } : {}),
+        ...(parameters.length > 0 ? { parameters } : {}),
+        ...(route.body ? {
+          requestBody: {
+            required: true,
+            content: { 'application/json': { schema: toJsonSchema(route.body) } }
+          }
+        } : {}),
+        responses: Object.fromEntries(Object.entries(route.responses).map(([status, response]) => [
+          status,
+          {
+            description: response.description,
+            ...(response.schema ? { content: { 'application/json': { schema: toJsonSchema(response.schema) } } } : {})
+          }
+        ]))
+      }
+    };
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'GeoDorm API',
+      version: '1.0.0',
+      description: 'Location ingestion for GPS trackers, the Clerk user sync webhook and the read-only REST API.'
+    },
+    ...(serverUrl ? { servers: [{ url: serverUrl }] } : {}),
+    paths,
+    components: {
+      schemas: components,
+      securitySchemes: SECURITY_SCHEMES
+    }
+  };
+}
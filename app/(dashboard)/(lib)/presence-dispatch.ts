@@ -0,0 +1,48 @@
+import type { AdminClient } from './supabase/client';
+import { refreshOccupancy } from './occupancy';
+import type { NewOccupancyEvent } from './occupancy';
+import { sendPresenceNotifications } from './push-notifications';
+import { sendStatusChangeWebhooks } from './webhooks';
+import { mirrorPresenceToMqtt } from './mqtt-bridge';
+import type { PresenceEvent } from './types';
+
+/**
+ * Fan-out for committed status changes
+ *
+ * Called once a batch of transitions is stored, whether from a tracker or a
+ * manual status change. Refreshes each affected geofence's occupancy,
+ * notifies other members, calls the geofence's webhooks and mirrors the new
+ * statuses to MQTT. Failures are logged rather than thrown: the
+ * transitions themselves are already saved.
+ */
+
+export type DispatchableEvent = Pick<PresenceEvent, 'id_geofence' | 'id_user' | 'from_status' | 'to_status' | 'occurred_at' | 'source'>;
+
+export async function dispatchPresenceEvents(supabase: AdminClient, events: DispatchableEvent[]): Promise<void> {
+  if (events.length === 0) {
+    return;
+  }
+
+  const occupancyEvents: NewOccupancyEvent[] = [];
+  const geofenceIds = [...new Set(events.map(event => event.id_geofence))];
+
+  for (const geofenceId of geofenceIds) {
+    // The latest transition in the geofence is credited with any occupancy change
+    const trigger = events
+      .filter(event => event.id_geofence === geofenceId)
+      .reduce((latest, event) => new Date(event.occurred_at) >= new Date(latest.occurred_at) ? event : latest);
+
+    try {
+      const occupancy = await refreshOccupancy(supabase, geofenceId, trigger);
+      if (occupancy) {
+        occupancyEvents.push(occupancy);
+      }
+    } catch (error) {
+      console.error(`Error refreshing occupancy for geofence ${geofenceId}:`, error);
+    }
+  }
+
+  await sendPresenceNotifications(supabase, events, occupancyEvents);
+  await sendStatusChangeWebhooks(supabase, events);
+  await mirrorPresenceToMqtt(supabase, events);
+}
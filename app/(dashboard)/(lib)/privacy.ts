@@ -0,0 +1,44 @@
+import type { DistanceBand, MemberPrivacy } from './types';
+
+/**
+ * Per-membership privacy levels
+ *
+ * Each member chooses what the other members of a geofence learn about them:
+ * their status only, their status and a rough distance band, their exact
+ * last position, or nothing while paused. Membership rows and presence events
+ * are readable by every member, so the database strips anything a level does
+ * not allow (see migration 015) and broadcasts read the level before sending.
+ */
+
+export const MEMBER_PRIVACY_LEVELS: Array<{ value: MemberPrivacy; label: string; description: string }> = [
+  { value: 'status', label: 'Status only', description: 'Members see whether you are in or away' },
+  { value: 'distance', label: 'Status and distance', description: 'Members also see if you are nearby, in town or far' },
+  { value: 'exact', label: 'Exact position', description: 'Members also see your last position on the map' },
+  { value: 'paused', label: 'Paused', description: 'Members see you as paused; your status is not updated' }
+];
+
+export const DEFAULT_MEMBER_PRIVACY: MemberPrivacy = 'status';
+
+// Upper bounds in meters from the geofence boundary; anything further is far
+export const DISTANCE_BANDS: Array<{ band: DistanceBand; label: string; max_meters: number }> = [
+  { band: 'nearby', label: 'Nearby', max_meters: 1000 },
+  { band: 'in_town', label: 'In town', max_meters: 15000 },
+  { band: 'far', label: 'Far', max_meters: Infinity }
+];
+
+export function getDistanceBand(boundaryDistanceMeters: number): DistanceBand {
+  const distance = Math.max(boundaryDistanceMeters, 0);
+  return DISTANCE_BANDS.find(band => distance <= band.max_meters)!.band;
+}
+
+export function getDistanceBandLabel(band: DistanceBand | null | undefined): string | null {
+  return DISTANCE_BANDS.find(entry => entry.band === band)?.label ?? null;
+}
+
+export function sharesDistance(privacy: MemberPrivacy | undefined): boolean {
+  return privacy === 'distance' || privacy === 'exact';
+}
+
+export function sharesPosition(privacy: MemberPrivacy | undefined): boolean {
+  return privacy === 'exact';
+}
@@ -0,0 +1,238 @@
+import webpush from 'web-push';
+import type { AdminClient } from './supabase/client';
+import { getStatusOptions, isPresentStatus } from './status-options';
+import { DEFAULT_NOTIFICATION_SETTINGS, selectNotification } from './notification-preferences';
+import type { NotificationSettings } from './notification-preferences';
+import type { NewOccupancyEvent } from './occupancy';
+import type { Geofence, NotificationEventType, NotificationPreferences, PresenceEvent, PushSubscriptionRecord } from './types';
+
+/**
+ * Web Push fan-out for committed status changes
+ *
+ * VAPID keys come from NEXT_PUBLIC_VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY and
+ * VAPID_SUBJECT. When they are not set, notifications are skipped.
+ * Subscriptions the push service reports as gone are deleted, so a browser
+ * that unsubscribed stops costing a request. Who receives what is governed
+ * by notification-preferences.ts.
+ */
+
+type NotifiableEvent = Pick<PresenceEvent, 'id_geofence' | 'id_user' | 'from_status' | 'to_status' | 'occurred_at'>;
+
+type RecipientSettings = NotificationSettings & Pick<NotificationPreferences, 'last_notified_at'>;
+
+export interface PushPayload {
+  title: string;
+  body: string;
+  tag: string;
+  data: { url: string };
+}
+
+// Push services drop notifications that cannot be delivered within this many seconds
+const NOTIFICATION_TTL_SECONDS = 60 * 60;
+
+let vapidConfigured: boolean | null = null;
+
+// Apply VAPID details once per server instance, returning false when push is not configured
+function configureVapid(): boolean {
+  if (vapidConfigured !== null) {
+    return vapidConfigured;
+  }
+
+  const publicKey = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
+  const privateKey = process.env.VAPID_PRIVATE_KEY;
+  const subject = process.env.VAPID_SUBJECT || 'mailto:admin@geodorm.app';
+
+  if (!publicKey || !privateKey) {
+    console.warn('Web Push disabled: VAPID keys are not configured');
+    vapidConfigured = false;
+    return false;
+  }
+
+  webpush.setVapidDetails(subject, publicKey, privateKey);
+  vapidConfigured = true;
+  return true;
+}
+
+/**
+ * Describe an alert for other members, e.g. "Alex arrived at Crosby 204"
+ */
+export function buildPresencePayload(
+  kind: NotificationEventType,
+  event: NotifiableEvent,
+  memberName: string,
+  geofence: Pick<Geofence, 'id_geofence' | 'name'>
+): PushPayload {
+  const bodies: Record<NotificationEventType, string> = {
+    arrive: `${memberName} arrived at ${geofence.name}`,
+    leave: `${memberName} left ${geofence.name}`,
+    first_arrived: `${memberName} is the first one back at ${geofence.name}`,
+    last_left: `Everyone has left ${geofence.name} - ${memberName} was the last`
+  };
+  const isOccupancy = kind === 'first_arrived' || kind === 'last_left';
+
+  return {
+    title: geofence.name,
+    body: bodies[kind],
+    tag: isOccupancy ? `${geofence.id_geofence}:occupancy` : `${geofence.id_geofence}:${event.id_user}`,
+    data: { url: `/dashboard/${geofence.id_geofence}` }
+  };
+}
+
+/**
+ * Deliver a payload to each subscription, removing ones the push service reports as gone
+ */
+export async function deliverPushPayload(
+  supabase: AdminClient,
+  subscriptions: PushSubscriptionRecord[],
+  payload: PushPayload
+): Promise<void> {
+  if (subscriptions.length === 0 || !configureVapid()) {
+    return;
+  }
+
+  const body = JSON.stringify(payload);
+  const expired: string[] = [];
+  const delivered: string[] = [];
+
+  await Promise.all(subscriptions.map(async (subscription) => {
+    try {
+      await webpush.sendNotification(
+        { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+        body,
+        { TTL: NOTIFICATION_TTL_SECONDS }
+      );
+      delivered.push(subscription.id);
+    } catch (error) {
+      if (error instanceof webpush.WebPushError && (error.statusCode === 404 || error.statusCode === 410)) {
+        expired.push(subscription.id);
+      } else {
+        console.error('Failed to send push notification:', error);
+      }
+    }
+  }));
+
+  if (expired.length > 0) {
+    await supabase.from('push_subscriptions').delete().in('id', expired);
+  }
+
+  if (delivered.length > 0) {
+    await supabase
+      .from('push_subscriptions')
+      .update({ last_used_at: new Date().toISOString() })
+      .in('id', delivered);
+  }
+}
+
+/**
+ * Notify the other members of each geofence about committed status changes
+ *
+ * Only a member's latest change in each geofence is considered, so a batch
+ * that replays an arrival and a departure does not produce two alerts. Each
+ * recipient's notification preferences decide whether and what they receive.
+ * Changes between two statuses with the same presence are not alerted.
+ *
+ * @param occupancyEvents - Occupancy changes caused by these events, offered as "first arrived" / "last left" alerts
+ */
+export async function sendPresenceNotifications(
+  supabase: AdminClient,
+  events: NotifiableEvent[],
+  occupancyEvents: NewOccupancyEvent[] = []
+): Promise<void> {
+  if (events.length === 0 || !configureVapid()) {
+    return;
+  }
+
+  try {
+    const latest = new Map<string, NotifiableEvent>();
+    for (const event of events) {
+      const key = `${event.id_geofence}:${event.id_user}`;
+      const current = latest.get(key);
+      if (!current || new Date(event.occurred_at).getTime() >= new Date(current.occurred_at).getTime()) {
+        latest.set(key, event);
+      }
+    }
+
+    const geofenceIds = [...new Set([...latest.values()].map(event => event.id_geofence))];
+    const actorIds = [...new Set([...latest.values()].map(event => event.id_user))];
+
+    const [{ data: geofences }, { data: members }, { data: actors }, { data: preferences }] = await Promise.all([
+      supabase.from('geofences').select('*').in('id_geofence', geofenceIds),
+      supabase.from('geofence_members').select('id_geofence, id_user').in('id_geofence', geofenceIds),
+      supabase.from('users').select('id_user, full_name, email').in('id_user', actorIds),
+      supabase.from('notification_preferences').select('*').in('id_geofence', geofenceIds)
+    ]);
+
+    const recipientIds = [...new Set((members || []).map(member => member.id_user))];
+    const { data: subscriptions } = await supabase
+      .from('push_subscriptions')
+      .select('*')
+      .in('id_user', recipientIds);
+
+    // Keyed by geofence and member, and kept current as alerts go out within this batch
+    const settingsByMember = new Map<string, RecipientSettings>(
+      (preferences || []).map(p => [`${p.id_geofence}:${p.id_user}`, p])
+    );
+
+    const now = new Date();
+
+    for (const event of latest.values()) {
+      const geofence = (geofences || []).find(g => g.id_geofence === event.id_geofence);
+      if (!geofence) continue;
+
+      const statusOptions = getStatusOptions(geofence);
+      const wasPresent = isPresentStatus(event.from_status, statusOptions);
+      const isPresent = isPresentStatus(event.to_status, statusOptions);
+      if (wasPresent === isPresent) continue;
+
+      const geofenceMembers = (members || []).filter(member => member.id_geofence === event.id_geofence);
+      const occupancy = occupancyEvents.find(o => o.id_geofence === event.id_geofence && o.id_user === event.id_user);
+      const kinds: NotificationEventType[] = [isPresent ? 'arrive' : 'leave'];
+      if (occupancy) {
+        kinds.push(occupancy.event_type === 'occupancy.first_arrived' ? 'first_arrived' : 'last_left');
+      }
+
+      const actor = (actors || []).find(user => user.id_user === event.id_user);
+      const memberName = actor?.full_name || actor?.email?.split('@')[0] || 'A roommate';
+
+      // Group recipients by the alert each one should get
+      const recipientsByKind = new Map<NotificationEventType, string[]>();
+      for (const member of geofenceMembers) {
+        if (member.id_user === event.id_user) continue;
+
+        const settings = settingsByMember.get(`${event.id_geofence}:${member.id_user}`)
+          ?? { ...DEFAULT_NOTIFICATION_SETTINGS, last_notified_at: null };
+        const kind = selectNotification(settings, event.id_user, kinds, now);
+
+        if (kind) {
+          recipientsByKind.set(kind, [...(recipientsByKind.get(kind) || []), member.id_user]);
+        }
+      }
+
+      for (const [kind, recipients] of recipientsByKind) {
+        await deliverPushPayload(
+          supabase,
+          (subscriptions || []).filter(subscription => recipients.includes(subscription.id_user)),
+          buildPresencePayload(kind, event, memberName, geofence)
+        );
+
+        // Start each recipient's minimum interval from this alert, creating
+        // the row with default settings for members who never saved any
+        const lastNotifiedAt = now.toISOString();
+        await supabase
+          .from('notification_preferences')
+          .upsert(
+            recipients.map(id_user => ({ id_geofence: event.id_geofence, id_user, last_notified_at: lastNotifiedAt })),
+            { onConflict: 'id_geofence,id_user' }
+          );
+
+        for (const recipient of recipients) {
+          const key = `${event.id_geofence}:${recipient}`;
+          const settings = settingsByMember.get(key) ?? DEFAULT_NOTIFICATION_SETTINGS;
+          settingsByMember.set(key, { ...settings, last_notified_at: lastNotifiedAt });
+        }
+      }
+    }
+  } catch (error) {
+    console.error('Error sending presence notifications:', error);
+  }
+}
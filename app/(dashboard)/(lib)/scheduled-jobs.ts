@@ -0,0 +1,209 @@
+import type { AdminClient } from './supabase/client';
+import { markStaleMembers } from './staleness';
+import { retryDueWebhookDeliveries } from './webhooks';
+import type { JobRun, JobTrigger } from './types';
+
+/**
+ * Scheduled jobs
+ *
+ * Housekeeping that depends on the clock rather than on a request. Jobs are
+ * registered in SCHEDULED_JOBS and started by Vercel Cron through
+ * /api/cron/<name>, or locally with `npm run jobs`. A run takes its job's
+ * lock first so two runs of the same job never overlap, and every run is
+ * recorded in job_runs with its outcome.
+ */
+
+// Counts of what a run changed, stored with the run
+export type JobResult = Record<string, number>;
+
+export interface ScheduledJob {
+  name: string;
+  description: string;
+  // How long a run may hold the lock before another run may take it over
+  lockSeconds: number;
+  run: (supabase: AdminClient, now: Date) => Promise<JobResult>;
+}
+
+const LOCATION_HISTORY_RETENTION_DAYS = Number(process.env.LOCATION_HISTORY_RETENTION_DAYS) || 90;
+const JOB_RUN_RETENTION_DAYS = 30;
+const WEBHOOK_RETRY_BATCH_SIZE = 100;
+
+const daysBefore = (date: Date, days: number) => new Date(date.getTime() - days * 24 * 60 * 60 * 1000).toISOString();
+
+/**
+ * Hand statuses whose manual override has run out back to GPS. The status
+ * stays as it is until the next location update evaluates it.
+ */
+async function expireManualOverrides(supabase: AdminClient, now: Date): Promise<JobResult> {
+  const { data, error } = await supabase
+    .from('geofence_members')
+    .update({ status_source: 'gps', manual_expires_at: null })
+    .eq('status_source', 'manual')
+    .lte('manual_expires_at', now.toISOString())
+    .select('id_user');
+
+  if (error) {
+    throw error;
+  }
+
+  return { expired: (data || []).length };
+}
+
+async function purgeOldData(supabase: AdminClient, now: Date): Promise<JobResult> {
+  const { count: locationPoints, error: historyError } = await supabase
+    .from('location_history')
+    .delete({ count: 'exact' })
+    .lt('recorded_at', daysBefore(now, LOCATION_HISTORY_RETENTION_DAYS));
+
+  if (historyError) {
+    throw historyError;
+  }
+
+  const { count: jobRuns, error: runsError } = await supabase
+    .from('job_runs')
+    .delete({ count: 'exact' })
+    .lt('started_at', daysBefore(now, JOB_RUN_RETENTION_DAYS))
+    .neq('status', 'running');
+
+  if (runsError) {
+    throw runsError;
+  }
+
+  return { location_points: locationPoints ?? 0, job_runs: jobRuns ?? 0 };
+}
+
+export const SCHEDULED_JOBS: ScheduledJob[] = [
+  {
+    name: 'expire-overrides',
+    description: 'Hand expired manual statuses back to GPS',
+    lockSeconds: 60,
+    run: expireManualOverrides
+  },
+  {
+    name: 'stale-members',
+    description: 'Mark members without a recent location as Unknown',
+    lockSeconds: 120,
+    run: async (supabase, now) => ({ marked: await markStaleMembers(supabase, now) })
+  },
+  {
+    name: 'retry-webhooks',
+    description: 'Send webhook deliveries whose retry is due',
+    lockSeconds: 120,
+    run: async (supabase) => ({ attempted: await retryDueWebhookDeliveries(supabase, { limit: WEBHOOK_RETRY_BATCH_SIZE }) })
+  },
+  {
+    name: 'purge-old-data',
+    description: `Delete location history older than ${LOCATION_HISTORY_RETENTION_DAYS} days and job runs older than ${JOB_RUN_RETENTION_DAYS} days`,
+    lockSeconds: 300,
+    run: purgeOldData
+  }
+];
+
+export function findScheduledJob(name: string): ScheduledJob | undefined {
+  return SCHEDULED_JOBS.find(job => job.name === name);
+}
+
+/**
+ * Take a job's lock for a run, or take over a lock whose run ran out of time
+ *
+ * @returns Whether the run now holds the lock
+ */
+async function acquireJobLock(supabase: AdminClient, job: ScheduledJob, runId: string, now: Date): Promise<boolean> {
+  const lockedUntil = new Date(now.getTime() + job.lockSeconds * 1000).toISOString();
+
+  const { error: insertError } = await supabase
+    .from('job_locks')
+    .insert({ job_name: job.name, run_id: runId, locked_until: lockedUntil });
+
+  if (!insertError) {
+    return true;
+  }
+
+  if (insertError.code !== '23505') {
+    throw insertError;
+  }
+
+  const { data: takenOver, error: updateError } = await supabase
+    .from('job_locks')
+    .update({ run_id: runId, locked_until: lockedUntil })
+    .eq('job_name', job.name)
+    .lt('locked_until', now.toISOString())
+    .select('job_name');
+
+  if (updateError) {
+    throw updateError;
+  }
+
+  return (takenOver || []).length > 0;
+}
+
+async function releaseJobLock(supabase: AdminClient, jobName: string, runId: string): Promise<void> {
+  const { error } = await supabase
+    .from('job_locks')
+    .delete()
+    .eq('job_name', jobName)
+    .eq('run_id', runId);
+
+  if (error) {
+    console.error(`Error releasing lock for job ${jobName}:`, error);
+  }
+}
+
+// Supabase errors are plain objects with a message
+const describeError = (error: unknown) =>
+  error instanceof Error ? error.message : (error as { message?: string })?.message ?? String(error);
+
+/**
+ * Run a job once, unless another run of it is in progress
+ *
+ * Failures are recorded on the run rather than thrown.
+ *
+ * @returns The finished run: succeeded, failed or skipped
+ */
+export async function runScheduledJob(supabase: AdminClient, job: ScheduledJob, trigger: JobTrigger): Promise<JobRun> {
+  const { data: run, error: runError } = await supabase
+    .from('job_runs')
+    .insert({ job_name: job.name, trigger })
+    .select('id')
+    .single();
+
+  if (runError || !run) {
+    throw runError;
+  }
+
+  let status: JobRun['status'] = 'skipped';
+  let result: JobResult | null = null;
+  let failure: string | null = null;
+  let locked = false;
+
+  try {
+    const now = new Date();
+    locked = await acquireJobLock(supabase, job, run.id, now);
+
+    if (locked) {
+      result = await job.run(supabase, now);
+      status = 'succeeded';
+    }
+  } catch (error) {
+    console.error(`Scheduled job ${job.name} failed:`, error);
+    status = 'failed';
+    failure = describeError(error);
+  } finally {
+    if (locked) {
+      await releaseJobLock(supabase, job.name, run.id);
+    }
+  }
+
+  const { data: finished, error: finishError } = await supabase
+    .from('job_runs')
+    .update({ status, result, error: failure, finished_at: new Date().toISOString() })
+    .eq('id', run.id)
+    .select('*')
+    .single();
+
+  if (finishError || !finished) {
+    throw finishError;
+  }
+
+  return finished as JobRun;
+}
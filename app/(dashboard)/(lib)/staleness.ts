@@ -0,0 +1,156 @@
+import type { AdminClient } from './supabase/client';
+import { dispatchPresenceEvents } from './presence-dispatch';
+import { NO_PENDING_TRANSITION, isManualOverrideActive } from './geofence';
+import { UNKNOWN_STATUS_OPTION, isPlaceholderStatus } from './status-options';
+import type { GeofenceMember } from './types';
+
+/**
+ * Stale status detection
+ *
+ * A member whose phone dies keeps their last status forever. Each geofence
+ * has a staleness threshold, and members who have sent no location for that
+ * long are shown as Unknown, which does not count toward occupancy. Their
+ * next conclusive fix sets the status again, just as after a pause.
+ */
+
+type StalenessCandidate = Pick<
+  GeofenceMember,
+  'id_geofence' | 'id_user' | 'status' | 'status_source' | 'manual_expires_at' | 'privacy' | 'last_gps_update'
+>;
+
+/**
+ * When a member was last heard from: their latest applied fix or the latest
+ * point any of their devices sent, whichever is newer
+ */
+export function getLastSeenAt(lastGpsUpdate: string | null | undefined, deviceUpdates: Array<string | null>): Date | null {
+  const times = [lastGpsUpdate, ...deviceUpdates]
+    .filter((value): value is string => !!value)
+    .map(value => new Date(value).getTime());
+
+  return times.length > 0 ? new Date(Math.max(...times)) : null;
+}
+
+export function isStale(lastSeenAt: Date | null, staleAfterMinutes: number, now: Date = new Date()): boolean {
+  if (!lastSeenAt || staleAfterMinutes <= 0) {
+    return false;
+  }
+
+  return now.getTime() - lastSeenAt.getTime() > staleAfterMinutes * 60 * 1000;
+}
+
+/**
+ * Mark members who have gone quiet for longer than their geofence allows as Unknown
+ *
+ * Members who never sent a location, who are paused or already Unknown, or
+ * whose manual status is still in force are left alone.
+ *
+ * @returns The number of memberships marked Unknown
+ */
+export async function markStaleMembers(supabase: AdminClient, now: Date = new Date()): Promise<number> {
+  const { data: geofences, error: geofencesError } = await supabase
+    .from('geofences')
+    .select('id_geofence, stale_after_minutes')
+    .gt('stale_after_minutes', 0);
+
+  if (geofencesError) {
+    throw geofencesError;
+  }
+
+  if (!geofences || geofences.length === 0) {
+    return 0;
+  }
+
+  const thresholds = new Map(geofences.map(geofence => [geofence.id_geofence, geofence.stale_after_minutes as number]));
+
+  const { data: members, error: membersError } = await supabase
+    .from('geofence_members')
+    .select('id_geofence, id_user, status, status_source, manual_expires_at, privacy, last_gps_update')
+    .in('id_geofence', [...thresholds.keys()]);
+
+  if (membersError) {
+    throw membersError;
+  }
+
+  const candidates = ((members || []) as StalenessCandidate[]).filter(member =>
+    member.privacy !== 'paused' && !isPlaceholderStatus(member.status) && !isManualOverrideActive(member, now)
+  );
+
+  if (candidates.length === 0) {
+    return 0;
+  }
+
+  const { data: devices, error: devicesError } = await supabase
+    .from('device_mappings')
+    .select('id_user, last_location_update')
+    .in('id_user', [...new Set(candidates.map(member => member.id_user))]);
+
+  if (devicesError) {
+    throw devicesError;
+  }
+
+  const stale = candidates.filter(member => {
+    const deviceUpdates = (devices || [])
+      .filter(device => device.id_user === member.id_user)
+      .map(device => device.last_location_update);
+
+    return isStale(getLastSeenAt(member.last_gps_update, deviceUpdates), thresholds.get(member.id_geofence)!, now);
+  });
+
+  const at = now.toISOString();
+  const marked: StalenessCandidate[] = [];
+
+  for (const member of stale) {
+    // Only replace the status read above, in case a fix arrived meanwhile
+    const { data: updated, error: updateError } = await supabase
+      .from('geofence_members')
+      .update({
+        status: UNKNOWN_STATUS_OPTION.key,
+        status_source: 'gps',
+        manual_expires_at: null,
+        ...NO_PENDING_TRANSITION,
+        last_updated: at
+      })
+      .eq('id_geofence', member.id_geofence)
+      .eq('id_user', member.id_user)
+      .eq('status', member.status)
+      .select('id_user');
+
+    if (updateError) {
+      console.error(`Error marking ${member.id_user} Unknown in geofence ${member.id_geofence}:`, updateError);
+      continue;
+    }
+
+    if (updated && updated.length > 0) {
+      marked.push(member);
+    }
+  }
+
+  if (marked.length === 0) {
+    return 0;
+  }
+
+  const events = marked.map(member => ({
+    id_geofence: member.id_geofence,
+    id_user: member.id_user,
+    from_status: member.status,
+    to_status: UNKNOWN_STATUS_OPTION.key,
+    source: 'gps' as const,
+    occurred_at: at
+  }));
+
+  const { error: eventsError } = await supabase
+    .from('presence_events')
+    .upsert(
+      events.map(event => ({ ...event, distance_meters: null, latitude: null, longitude: null })),
+      { onConflict: 'id_geofence,id_user,occurred_at', ignoreDuplicates: true }
+    );
+
+  if (eventsError) {
+    console.error('Error recording Unknown statuses:', eventsError);
+  }
+
+  // Going Unknown is a departure like any other: occupancy, alerts, webhooks and MQTT follow
+  await dispatchPresenceEvents(supabase, events);
+
+  return marked.length;
+}
@@ -0,0 +1,123 @@
+import type { GeofenceStatusOption, StatusColorName, StatusIconName } from './types';
+
+/**
+ * Per-geofence status vocabulary
+ *
+ * Every geofence has IN_ROOM (present) and AWAY (absent), which GPS
+ * transitions set. Owners can add statuses such as Studying or Sleeping and
+ * mark each as present or absent, so GPS only changes a member's status when
+ * their presence actually changes.
+ */
+
+export const STATUS_ICON_NAMES: StatusIconName[] = [
+  'home', 'map-pin', 'book-open', 'moon', 'briefcase', 'academic-cap',
+  'heart', 'bolt', 'sun', 'shopping-bag', 'truck', 'globe'
+];
+
+export const STATUS_COLOR_NAMES: StatusColorName[] = [
+  'green', 'gray', 'blue', 'indigo', 'purple', 'pink', 'red', 'orange', 'yellow', 'teal'
+];
+
+export const DEFAULT_STATUS_OPTIONS: GeofenceStatusOption[] = [
+  { key: 'IN_ROOM', label: 'In Room', icon: 'home', color: 'green', presence: 'present' },
+  { key: 'AWAY', label: 'Away', icon: 'map-pin', color: 'gray', presence: 'absent' }
+];
+
+// Shown while a member has paused sharing or tracking
+export const PAUSED_STATUS_OPTION: GeofenceStatusOption = {
+  key: 'PAUSED', label: 'Paused', icon: 'moon', color: 'gray', presence: 'absent'
+};
+
+// Shown once a member has sent no location for the geofence's staleness threshold
+export const UNKNOWN_STATUS_OPTION: GeofenceStatusOption = {
+  key: 'UNKNOWN', label: 'Unknown', icon: 'question-mark-circle', color: 'yellow', presence: 'absent'
+};
+
+// Statuses set by the system rather than chosen from a geofence's vocabulary;
+// GPS replaces them with the next conclusive fix
+const PLACEHOLDER_STATUS_OPTIONS: GeofenceStatusOption[] = [PAUSED_STATUS_OPTION, UNKNOWN_STATUS_OPTION];
+
+export const MIN_STATUS_OPTIONS = 2;
+export const MAX_STATUS_OPTIONS = 12;
+export const MAX_STATUS_LABEL_LENGTH = 30;
+
+const STATUS_KEY_PATTERN = /^[A-Z0-9_]{1,30}$/;
+
+export function getStatusOptions(geofence?: { status_options?: GeofenceStatusOption[] | null } | null): GeofenceStatusOption[] {
+  return geofence?.status_options?.length ? geofence.status_options : DEFAULT_STATUS_OPTIONS;
+}
+
+export function findStatusOption(key: string, options: GeofenceStatusOption[]): GeofenceStatusOption | undefined {
+  return options.find(option => option.key === key) ?? PLACEHOLDER_STATUS_OPTIONS.find(option => option.key === key);
+}
+
+export function isPlaceholderStatus(key: string): boolean {
+  return PLACEHOLDER_STATUS_OPTIONS.some(option => option.key === key);
+}
+
+// Statuses missing from the vocabulary fall back to the built-in meaning
+export function isPresentStatus(key: string, options: GeofenceStatusOption[]): boolean {
+  const option = findStatusOption(key, options);
+  return option ? option.presence === 'present' : key === 'IN_ROOM';
+}
+
+// The GPS state machine only knows inside (IN_ROOM) and outside (AWAY)
+export function toPresenceStatus(key: string, options: GeofenceStatusOption[]): 'IN_ROOM' | 'AWAY' {
+  return isPresentStatus(key, options) ? 'IN_ROOM' : 'AWAY';
+}
+
+// Derive a stable key for a new status from its label, avoiding existing keys
+export function createStatusKey(label: string, existingKeys: string[]): string {
+  const base = label.toUpperCase().replace(/[^A-Z0-9]+/g, '_').replace(/^_+|_+$/g, '').slice(0, 24) || 'STATUS';
+  let key = base;
+  let suffix = 2;
+
+  while (existingKeys.includes(key) || isPlaceholderStatus(key)) {
+    key = `${base}_${suffix++}`;
+  }
+
+  return key;
+}
+
+/**
+ * Validate a status vocabulary, returning a normalized copy or an error message
+ */
+export function validateStatusOptions(value: unknown): { options: GeofenceStatusOption[] } | { error: string } {
+  if (!Array.isArray(value) || value.length < MIN_STATUS_OPTIONS || value.length > MAX_STATUS_OPTIONS) {
+    return { error: `Provide between ${MIN_STATUS_OPTIONS} and ${MAX_STATUS_OPTIONS} statuses` };
+  }
+
+  const options: GeofenceStatusOption[] = [];
+
+  for (const raw of value) {
+    const label = typeof raw?.label === 'string' ? raw.label.trim() : '';
+
+    if (typeof raw?.key !== 'string' || !STATUS_KEY_PATTERN.test(raw.key)) {
+      return { error: 'Each status needs a key of capital letters, digits or underscores' };
+    }
+    if (!label || label.length > MAX_STATUS_LABEL_LENGTH) {
+      return { error: `Status labels must be 1-${MAX_STATUS_LABEL_LENGTH} characters` };
+    }
+    if (!STATUS_ICON_NAMES.includes(raw.icon) || !STATUS_COLOR_NAMES.includes(raw.color)) {
+      return { error: `Status "${label}" has an unknown icon or color` };
+    }
+    if (raw.presence !== 'present' && raw.presence !== 'absent') {
+      return { error: `Status "${label}" must be marked present or absent` };
+    }
+    if (isPlaceholderStatus(raw.key)) {
+      return { error: `Status "${label}" uses a reserved key` };
+    }
+    if (options.some(option => option.key === raw.key)) {
+      return { error: `Status "${label}" is listed twice` };
+    }
+
+    options.push({ key: raw.key, label, icon: raw.icon, color: raw.color, presence: raw.presence });
+  }
+
+  // GPS transitions set these two, so their meaning is fixed
+  if (findStatusOption('IN_ROOM', options)?.presence !== 'present' || findStatusOption('AWAY', options)?.presence !== 'absent') {
+    return { error: 'The In Room (present) and Away (absent) statuses cannot be removed' };
+  }
+
+  return { options };
+}
@@ -0,0 +1,204 @@
+'use server';
+
+import { auth } from '@clerk/nextjs/server';
+import { createServerClient } from './client';
+import type { ServerActionResult } from './geofences';
+import { AccessTokenInputSchema, parseActionInput } from '../action-schemas';
+import { generateAccessToken, hashAccessToken } from '../api-auth';
+import type { AccessTokenScope, PersonalAccessToken } from '../types';
+
+/**
+ * Personal Access Token Server Actions
+ *
+ * Lets users create and revoke the tokens they use to call the /api/v1 REST
+ * API. Requests are authenticated in api-auth.ts.
+ */
+
+// Never select token_hash back to the client
+export type AccessTokenSummary = Omit<PersonalAccessToken, 'token_hash'>;
+
+const ACCESS_TOKEN_COLUMNS = 'id, id_user, name, token_prefix, scopes, expires_at, last_used_at, created_at';
+const MAX_TOKENS_PER_USER = 20;
+const TOKEN_PREFIX_LENGTH = 8;
+
+/**
+ * Get the current user's personal access tokens
+ *
+ * @returns Promise<ServerActionResult<AccessTokenSummary[]>>
+ */
+export async function getAccessTokens(): Promise<ServerActionResult<AccessTokenSummary[]>> {
+  try {
+    // Verify authentication
+    const { getToken, userId } = await auth();
+
+    if (!userId) {
+      return {
+        success: false,
+        error: 'Unauthorized - Please sign in to view access tokens'
+      };
+    }
+
+    // Create authenticated client
+    const token = await getToken({ template: 'supabase' });
+    const supabase = createServerClient(token);
+
+    const { data, error } = await supabase
+      .from('personal_access_tokens')
+      .select(ACCESS_TOKEN_COLUMNS)
+      .eq('id_user', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching access tokens:', error);
+      return {
+        success: false,
+        error: 'Failed to fetch access tokens',
+        details: error
+      };
+    }
+
+    return { success: true, data: (data || []) as AccessTokenSummary[] };
+
+  } catch (error) {
+    console.error('Access token fetch error:', error);
+    return {
+      success: false,
+      error: 'Internal server error',
+      details: error
+    };
+  }
+}
+
+/**
+ * Create a personal access token for the current user
+ *
+ * @param name - Label shown in the token list
+ * @param scopes - What the token may read
+ * @param expiresInDays - Lifetime in days, or null for no expiry
+ * @returns Promise<ServerActionResult<{ token: AccessTokenSummary; accessToken: string }>> - The plain token is only returned here
+ */
+export async function createAccessToken(
+  name: string,
+  scopes: AccessTokenScope[],
+  expiresInDays: number | null
+): Promise<ServerActionResult<{ token: AccessTokenSummary; accessToken: string }>> {
+  try {
+    // Verify authentication
+    const { getToken, userId } = await auth();
+
+    if (!userId) {
+      return {
+        success: false,
+        error: 'Unauthorized - Please sign in to create access tokens'
+      };
+    }
+
+    const input = parseActionInput(AccessTokenInputSchema, { name, scopes, expires_in_days: expiresInDays });
+    if (!input.success) {
+      return input;
+    }
+
+    const { expires_in_days } = input.data;
+
+    // Create authenticated client
+    const token = await getToken({ template: 'supabase' });
+    const supabase = createServerClient(token);
+
+    const { count } = await supabase
+      .from('personal_access_tokens')
+      .select('id', { count: 'exact', head: true })
+      .eq('id_user', userId);
+
+    if ((count ?? 0) >= MAX_TOKENS_PER_USER) {
+      return {
+        success: false,
+        error: `You can have up to ${MAX_TOKENS_PER_USER} access tokens`
+      };
+    }
+
+    const accessToken = generateAccessToken();
+
+    const { data, error } = await supabase
+      .from('personal_access_tokens')
+      .insert({
+        id_user: userId,
+        name: input.data.name,
+        token_prefix: accessToken.slice(0, TOKEN_PREFIX_LENGTH),
+        token_hash: hashAccessToken(accessToken),
+        scopes: input.data.scopes,
+        expires_at: expires_in_days === null
+          ? null
+          : new Date(Date.now() + expires_in_days * 24 * 60 * 60 * 1000).toISOString()
+      })
+      .select(ACCESS_TOKEN_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error('Error creating access token:', error);
+      return {
+        success: false,
+        error: 'Failed to create access token',
+        details: error
+      };
+    }
+
+    return { success: true, data: { token: data as AccessTokenSummary, accessToken } };
+
+  } catch (error) {
+    console.error('Access token create error:', error);
+    return {
+      success: false,
+      error: 'Internal server error',
+      details: error
+    };
+  }
+}
+
+/**
+ * Revoke one of the current user's personal access tokens
+ *
+ * @param id - Token row ID
+ * @returns Promise<ServerActionResult<void>>
+ */
+export async function deleteAccessToken(id: string): Promise<ServerActionResult<void>> {
+  try {
+    // Verify authentication
+    const { getToken, userId } = await auth();
+
+    if (!userId) {
+      return {
+        success: false,
+        error: 'Unauthorized - Please sign in to manage access tokens'
+      };
+    }
+
+    // Create authenticated client
+    const token = await getToken({ template: 'supabase' });
+    const supabase = createServerClient(token);
+
+    const { error } = await supabase
+      .from('personal_access_tokens')
+      .delete()
+      .eq('id', id)
+      .eq('id_user', userId);
+
+    if (error) {
+      console.error('Error deleting access token:', error);
+      return {
+        success: false,
+        error: 'Failed to revoke access token',
+        details: error
+      };
+    }
+
+    return { success: true, data: undefined };
+
+  } catch (error) {
+    console.error('Access token delete error:', error);
+    return {
+      success: false,
+      error: 'Internal server error',
+      details: error
+    };
+  }
+}
@@ -206,4 +206,7 @@ export function createAdminClient(): SupabaseClient<Database> {
  * Type exports for better developer experience
  */
 export type { Database } from '../types';
-export type DatabaseClient = SupabaseClient<Database>; 
\ No newline at end of file
+export type DatabaseClient = SupabaseClient<Database>;
+
+// The service-role client that lib modules take as their first argument
+export type AdminClient = ReturnType<typeof createAdminClient>; 
\ No newline at end of file
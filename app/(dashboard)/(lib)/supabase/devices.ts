@@ -4,6 +4,8 @@ import { auth } from '@clerk/nextjs/server';
 import { createServerClient, createAdminClient } from './client';
 import { revalidatePath } from 'next/cache';
 import type { ServerActionResult } from './geofences';
+import { generateDeviceToken, hashDeviceToken } from '../device-tokens';
+import { DeviceMappingInputSchema, DeviceMappingUpdateSchema, parseActionInput } from '../action-schemas';
 
 /**
  * Device Management Server Actions
@@ -22,11 +24,35 @@ interface DeviceMapping {
   id: string;
   device_id: string;
   id_user: string;
+  name: string;
   enabled: boolean;
   created_at: string;
   last_location_update?: string;
+  has_token?: boolean;
 }
 
+// As stored, with the hash of the device's access token
+type DeviceMappingRow = Omit<DeviceMapping, 'has_token'> & { token_hash: string | null };
+
+// Returned only when a token is issued; the plain token is never stored
+type DeviceMappingWithToken = DeviceMapping & { access_token?: string };
+
+interface DeviceMappingUpdate {
+  device_id?: string;
+  name?: string;
+  enabled?: boolean;
+}
+
+// Never select token_hash back to the client
+const DEVICE_COLUMNS = 'id, device_id, id_user, name, enabled, created_at, last_location_update, token_hash';
+
+const MAX_DEVICES_PER_USER = 10;
+
+const toDeviceMapping = ({ token_hash, ...device }: DeviceMappingRow): DeviceMapping => ({
+  ...device,
+  has_token: !!token_hash
+});
+
 // Location update interfaces
 interface LocationUpdateRequest {
   device_id: string;
@@ -37,21 +63,21 @@ interface LocationUpdateRequest {
 }
 
 /**
- * Get current user's device mapping
+ * Get all of the current user's devices, oldest first
  * 
  * Replaces: GET /api/device-mapping
  * 
- * @returns Promise<ServerActionResult<DeviceMapping | null>>
+ * @returns Promise<ServerActionResult<DeviceMapping[]>>
  * 
  * @example
  * ```tsx
- * const result = await getDeviceMapping();
- * if (result.success && result.data) {
- *   console.log('Device:', result.data.device_id);
+ * const result = await getDeviceMappings();
+ * if (result.success) {
+ *   console.log('Devices:', result.data.map(d => d.name));
  * }
  * ```
  */
-export async function getDeviceMapping(): Promise<ServerActionResult<DeviceMapping | null>> {
+export async function getDeviceMappings(): Promise<ServerActionResult<DeviceMapping[]>> {
   try {
     // Verify authentication
     const { getToken, userId } = await auth();
@@ -59,7 +85,7 @@ export async function getDeviceMapping(): Promise<ServerActionResult<DeviceMappi
     if (!userId) {
       return {
         success: false,
-        error: 'Unauthorized - Please sign in to view device'
+        error: 'Unauthorized - Please sign in to view devices'
       };
     }
 
@@ -67,23 +93,23 @@ export async function getDeviceMapping(): Promise<ServerActionResult<DeviceMappi
     const token = await getToken({ template: 'supabase' });
     const supabase = createServerClient(token);
 
-    // Get user's device mapping
+    // Get user's device mappings
     const { data, error } = await supabase
       .from('device_mappings')
-      .select('*')
+      .select(DEVICE_COLUMNS)
       .eq('id_user', userId)
-      .single();
+      .order('created_at', { ascending: true });
 
-    if (error && error.code !== 'PGRST116') {
-      console.error('Error fetching device mapping:', error);
+    if (error) {
+      console.error('Error fetching device mappings:', error);
       return {
         success: false,
-        error: 'Failed to fetch device',
+        error: 'Failed to fetch devices',
         details: error
       };
     }
 
-    return { success: true, data: data || null };
+    return { success: true, data: (data || []).map(toDeviceMapping) };
 
   } catch (error) {
     console.error('Device mapping retrieval error:', error);
@@ -96,26 +122,28 @@ export async function getDeviceMapping(): Promise<ServerActionResult<DeviceMappi
 }
 
 /**
- * Register or update user's device mapping
+ * Register a new device for the current user
  * 
  * Replaces: POST /api/device-mapping
  * 
- * @param deviceId - The device ID to register
- * @param enabled - Whether the device is enabled (default: true)
- * @returns Promise<ServerActionResult<DeviceMapping>>
+ * Each device gets its own access token, returned once as `access_token`.
+ * 
+ * @param deviceId - The device ID reported by the tracker app
+ * @param name - A label such as "Phone" or "Tablet"
+ * @returns Promise<ServerActionResult<DeviceMappingWithToken>>
  * 
  * @example
  * ```tsx
- * const result = await updateDeviceMapping('my-device-123', true);
+ * const result = await createDeviceMapping('my-device-123', 'Phone');
  * if (result.success) {
  *   console.log('Device registered:', result.data.device_id);
  * }
  * ```
  */
-export async function updateDeviceMapping(
-  deviceId: string, 
-  enabled: boolean = true
-): Promise<ServerActionResult<DeviceMapping>> {
+export async function createDeviceMapping(
+  deviceId: string,
+  name: string
+): Promise<ServerActionResult<DeviceMappingWithToken>> {
   try {
     // Verify authentication
     const { getToken, userId } = await auth();
@@ -128,88 +156,184 @@ export async function updateDeviceMapping(
     }
 
     // Validate input
-    if (!deviceId || typeof deviceId !== 'string') {
+    const input = parseActionInput(DeviceMappingInputSchema, { device_id: deviceId, name });
+    if (!input.success) {
+      return input;
+    }
+
+    // Create authenticated client
+    const token = await getToken({ template: 'supabase' });
+    const supabase = createServerClient(token);
+
+    const { count, error: countError } = await supabase
+      .from('device_mappings')
+      .select('id', { count: 'exact', head: true })
+      .eq('id_user', userId);
+
+    if (countError) {
+      console.error('Error counting devices:', countError);
       return {
         success: false,
-        error: 'Device ID is required'
+        error: 'Database error',
+        details: countError
+      };
+    }
+
+    if ((count || 0) >= MAX_DEVICES_PER_USER) {
+      return {
+        success: false,
+        error: `You can register at most ${MAX_DEVICES_PER_USER} devices`
       };
     }
 
+    const accessToken = generateDeviceToken();
+
+    const { data, error } = await supabase
+      .from('device_mappings')
+      .insert({
+        device_id: input.data.device_id,
+        id_user: userId,
+        name: input.data.name,
+        enabled: true,
+        token_hash: hashDeviceToken(accessToken),
+        created_at: new Date().toISOString()
+      })
+      .select(DEVICE_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error('Error creating device mapping:', error);
+      if (error.code === '23505') {
+        return {
+          success: false,
+          error: 'Device ID already registered'
+        };
+      }
+      return {
+        success: false,
+        error: 'Failed to register device',
+        details: error
+      };
+    }
+
+    // Revalidate relevant paths
+    revalidatePath('/dashboard');
+
+    return { 
+      success: true, 
+      data: { ...toDeviceMapping(data), access_token: accessToken }
+    };
+
+  } catch (error) {
+    console.error('Device mapping error:', error);
+    return {
+      success: false,
+      error: 'Internal server error',
+      details: error
+    };
+  }
+}
+
+/**
+ * Rename, enable/disable or change the ID of one of the user's devices
+ * 
+ * Changing the device ID issues a fresh access token, returned once as
+ * `access_token`. Other changes keep the existing token.
+ * 
+ * @param id - The device mapping's row ID
+ * @param updates - Fields to change
+ * @returns Promise<ServerActionResult<DeviceMappingWithToken>>
+ * 
+ * @example
+ * ```tsx
+ * const result = await updateDeviceMapping(device.id, { enabled: false });
+ * if (result.success) {
+ *   console.log('Device disabled:', result.data.name);
+ * }
+ * ```
+ */
+export async function updateDeviceMapping(
+  id: string,
+  updates: DeviceMappingUpdate
+): Promise<ServerActionResult<DeviceMappingWithToken>> {
+  try {
+    // Verify authentication
+    const { getToken, userId } = await auth();
+    
+    if (!userId) {
+      return {
+        success: false,
+        error: 'Unauthorized - Please sign in to update device'
+      };
+    }
+
+    if (!id) {
+      return {
+        success: false,
+        error: 'Device is required'
+      };
+    }
+
+    const input = parseActionInput(DeviceMappingUpdateSchema, updates);
+    if (!input.success) {
+      return input;
+    }
+
     // Create authenticated client
     const token = await getToken({ template: 'supabase' });
     const supabase = createServerClient(token);
 
-    // Check if user already has a device mapping
     const { data: existing, error: checkError } = await supabase
       .from('device_mappings')
-      .select('*')
+      .select(DEVICE_COLUMNS)
+      .eq('id', id)
       .eq('id_user', userId)
       .single();
 
-    if (checkError && checkError.code !== 'PGRST116') {
-      console.error('Error checking existing device:', checkError);
+    if (checkError || !existing) {
       return {
         success: false,
-        error: 'Database error',
-        details: checkError
+        error: 'Device not found'
       };
     }
 
-    let result;
-
-    if (existing) {
-      // Update existing device mapping
-      const { data, error } = await supabase
-        .from('device_mappings')
-        .update({
-          device_id: deviceId.trim(),
-          enabled,
-          last_location_update: new Date().toISOString()
-        })
-        .eq('id_user', userId)
-        .select()
-        .single();
-
-      if (error) {
-        console.error('Error updating device mapping:', error);
-        return {
-          success: false,
-          error: 'Failed to update device',
-          details: error
-        };
-      }
+    const { device_id: deviceId, ...changes } = input.data;
+    const updateData: Partial<Pick<DeviceMappingRow, 'device_id' | 'name' | 'enabled' | 'token_hash'>> = { ...changes };
+
+    // Issue a token for changed device IDs and legacy devices without one
+    let accessToken: string | undefined;
+
+    if (deviceId !== undefined && (deviceId !== existing.device_id || !existing.token_hash)) {
+      accessToken = generateDeviceToken();
+      updateData.device_id = deviceId;
+      updateData.token_hash = hashDeviceToken(accessToken);
+    }
+
+    if (Object.keys(updateData).length === 0) {
+      return { success: true, data: toDeviceMapping(existing) };
+    }
 
-      result = data;
-    } else {
-      // Create new device mapping
-      const { data, error } = await supabase
-        .from('device_mappings')
-        .insert({
-          device_id: deviceId.trim(),
-          id_user: userId,
-          enabled,
-          created_at: new Date().toISOString(),
-          last_location_update: new Date().toISOString()
-        })
-        .select()
-        .single();
-
-      if (error) {
-        console.error('Error creating device mapping:', error);
-        if (error.code === '23505') {
-          return {
-            success: false,
-            error: 'Device ID already registered'
-          };
-        }
+    const { data, error } = await supabase
+      .from('device_mappings')
+      .update(updateData)
+      .eq('id', id)
+      .eq('id_user', userId)
+      .select(DEVICE_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error('Error updating device mapping:', error);
+      if (error.code === '23505') {
         return {
           success: false,
-          error: 'Failed to register device',
-          details: error
+          error: 'Device ID already registered'
         };
       }
-
-      result = data;
+      return {
+        success: false,
+        error: 'Failed to update device',
+        details: error
+      };
     }
 
     // Revalidate relevant paths
@@ -217,7 +341,7 @@ export async function updateDeviceMapping(
 
     return { 
       success: true, 
-      data: result
+      data: { ...toDeviceMapping(data), access_token: accessToken }
     };
 
   } catch (error) {
@@ -231,19 +355,84 @@ export async function updateDeviceMapping(
 }
 
 /**
- * Delete user's device mapping (permanently remove from database)
+ * Issue a new access token for one of the user's devices, invalidating the old one
+ * 
+ * @param id - The device mapping's row ID
+ * @returns Promise<ServerActionResult<DeviceMappingWithToken>> with the new `access_token`
+ * 
+ * @example
+ * ```tsx
+ * const result = await rotateDeviceToken(device.id);
+ * if (result.success) {
+ *   console.log('New token:', result.data.access_token);
+ * }
+ * ```
+ */
+export async function rotateDeviceToken(id: string): Promise<ServerActionResult<DeviceMappingWithToken>> {
+  try {
+    // Verify authentication
+    const { getToken, userId } = await auth();
+    
+    if (!userId) {
+      return {
+        success: false,
+        error: 'Unauthorized - Please sign in to rotate device token'
+      };
+    }
+
+    // Create authenticated client
+    const token = await getToken({ template: 'supabase' });
+    const supabase = createServerClient(token);
+
+    const accessToken = generateDeviceToken();
+
+    const { data, error } = await supabase
+      .from('device_mappings')
+      .update({ token_hash: hashDeviceToken(accessToken) })
+      .eq('id', id)
+      .eq('id_user', userId)
+      .select(DEVICE_COLUMNS)
+      .single();
+
+    if (error || !data) {
+      console.error('Error rotating device token:', error);
+      return {
+        success: false,
+        error: error?.code === 'PGRST116' ? 'Device not found' : 'Failed to rotate device token',
+        details: error
+      };
+    }
+
+    return {
+      success: true,
+      data: { ...toDeviceMapping(data), access_token: accessToken }
+    };
+
+  } catch (error) {
+    console.error('Device token rotation error:', error);
+    return {
+      success: false,
+      error: 'Internal server error',
+      details: error
+    };
+  }
+}
+
+/**
+ * Delete one of the user's devices (permanently remove from database)
  * 
+ * @param id - The device mapping's row ID
  * @returns Promise<ServerActionResult<void>>
  * 
  * @example
  * ```tsx
- * const result = await deleteDeviceMapping();
+ * const result = await deleteDeviceMapping(device.id);
  * if (result.success) {
  *   console.log('Device successfully removed');
  * }
  * ```
  */
-export async function deleteDeviceMapping(): Promise<ServerActionResult<void>> {
+export async function deleteDeviceMapping(id: string): Promise<ServerActionResult<void>> {
   try {
     // Verify authentication
     const { getToken, userId } = await auth();
@@ -263,6 +452,7 @@ export async function deleteDeviceMapping(): Promise<ServerActionResult<void>> {
     const { error: deleteError } = await supabase
       .from('device_mappings')
       .delete()
+      .eq('id', id)
       .eq('id_user', userId);
 
     if (deleteError) {
@@ -1,9 +1,16 @@
 'use server';
 
 import { auth } from '@clerk/nextjs/server';
-import { createServerClient } from './client';
+import { createServerClient, createAdminClient } from './client';
 import { revalidatePath } from 'next/cache';
 import { nanoid } from 'nanoid';
+import { DEFAULT_MAX_ACCURACY_METERS, DEFAULT_DWELL_RULES, DEFAULT_STALE_AFTER_MINUTES } from '../geofence';
+import { getStatusOptions } from '../status-options';
+import { GeofenceFormSchema, InviteCodeSchema, parseActionInput } from '../action-schemas';
+import type { FieldErrors } from '../action-schemas';
+import { sendGeofenceUpdatedWebhook, sendMembershipWebhook } from '../webhooks';
+import { clearMemberStates, publishMemberStates } from '../mqtt-bridge';
+import { refreshOccupancy } from '../occupancy';
 import type { GeofenceListItem, CreateGeofenceRequest, CreateGeofenceResponse, InviteValidationResponse } from '../types';
 
 
@@ -13,6 +20,8 @@ export type ServerActionResult<T> = {
 } | {
   success: false;
   error: string;
+  // Input validation failures, one message per field
+  fieldErrors?: FieldErrors;
   details?: any;
 };
 
@@ -36,6 +45,7 @@ export async function getGeofences(): Promise<ServerActionResult<GeofenceListIte
         id_geofence,
         name,
         invite_code,
+        occupancy_count,
         created_at,
         geofence_members!inner (
           role,
@@ -79,6 +89,7 @@ export async function getGeofences(): Promise<ServerActionResult<GeofenceListIte
       id_geofence: geofence.id_geofence,
       name: geofence.name,
       member_count: memberCountMap[geofence.id_geofence] || 0,
+      occupancy_count: geofence.occupancy_count ?? 0,
       created_at: geofence.created_at,
       invite_code: geofence.invite_code,
       role: geofence.geofence_members[0]?.role || 'member'
@@ -159,51 +170,12 @@ export async function createGeofence(formData: FormData): Promise<ServerActionRe
       };
     }
 
-    const name = formData.get('name') as string;
-    const centerLatStr = formData.get('center_latitude') as string;
-    const centerLngStr = formData.get('center_longitude') as string;
-    const radiusStr = formData.get('radius_meters') as string;
-    const hysteresisStr = formData.get('hysteresis_meters') as string;
-
-    const center_latitude = parseFloat(centerLatStr);
-    const center_longitude = parseFloat(centerLngStr);
-    const radius_meters = parseInt(radiusStr);
-    const hysteresis_meters = hysteresisStr ? parseInt(hysteresisStr) : Math.max(5, Math.round(Math.min(radius_meters * 0.1, 50)));
-
-    if (!name?.trim()) {
-      return {
-        success: false,
-        error: 'Geofence name is required'
-      };
-    }
-
-    if (isNaN(center_latitude) || isNaN(center_longitude)) {
-      return {
-        success: false,
-        error: 'Valid latitude and longitude coordinates are required'
-      };
-    }
-
-    if (Math.abs(center_latitude) > 90 || Math.abs(center_longitude) > 180) {
-      return {
-        success: false,
-        error: 'Coordinates are out of valid range'
-      };
+    const input = parseActionInput(GeofenceFormSchema, { shape: 'circle', ...Object.fromEntries(formData) });
+    if (!input.success) {
+      return input;
     }
 
-    if (radius_meters < 10 || radius_meters > 1000) {
-      return {
-        success: false,
-        error: 'Radius must be between 10 and 1000 meters'
-      };
-    }
-
-    if (hysteresis_meters < 5 || hysteresis_meters >= radius_meters) {
-      return {
-        success: false,
-        error: 'Hysteresis must be between 5 meters and less than radius'
-      };
-    }
+    const { status_options, ...values } = input.data;
 
     const token = await getToken({ template: 'supabase' });
     const supabase = createServerClient(token);
@@ -237,12 +209,15 @@ export async function createGeofence(formData: FormData): Promise<ServerActionRe
       .from('geofences')
       .insert({
         id_user: userId,
-        name: name.trim(),
         invite_code,
-        center_latitude,
-        center_longitude,
-        radius_meters,
-        hysteresis_meters
+        ...values,
+        max_accuracy_meters: values.max_accuracy_meters ?? DEFAULT_MAX_ACCURACY_METERS,
+        enter_dwell_seconds: values.enter_dwell_seconds ?? DEFAULT_DWELL_RULES.enter_dwell_seconds,
+        enter_min_points: values.enter_min_points ?? DEFAULT_DWELL_RULES.enter_min_points,
+        exit_dwell_seconds: values.exit_dwell_seconds ?? DEFAULT_DWELL_RULES.exit_dwell_seconds,
+        exit_min_points: values.exit_min_points ?? DEFAULT_DWELL_RULES.exit_min_points,
+        stale_after_minutes: values.stale_after_minutes ?? DEFAULT_STALE_AFTER_MINUTES,
+        ...(status_options ? { status_options } : {})
       })
       .select()
       .single();
@@ -268,10 +243,18 @@ export async function createGeofence(formData: FormData): Promise<ServerActionRe
       id_geofence: geofence.id_geofence,
       name: geofence.name,
       invite_code: geofence.invite_code,
+      shape: geofence.shape,
       center_latitude: geofence.center_latitude,
       center_longitude: geofence.center_longitude,
       radius_meters: geofence.radius_meters,
       hysteresis_meters: geofence.hysteresis_meters,
+      max_accuracy_meters: geofence.max_accuracy_meters,
+      enter_dwell_seconds: geofence.enter_dwell_seconds,
+      enter_min_points: geofence.enter_min_points,
+      exit_dwell_seconds: geofence.exit_dwell_seconds,
+      exit_min_points: geofence.exit_min_points,
+      stale_after_minutes: geofence.stale_after_minutes,
+      polygon_vertices: geofence.polygon_vertices,
       created_at: geofence.created_at
     };
 
@@ -305,7 +288,7 @@ export async function updateGeofence(geofenceId: string, formData: FormData): Pr
 
     const { data: geofence, error: geofenceError } = await supabase
       .from('geofences')
-      .select('id_user')
+      .select('*')
       .eq('id_geofence', geofenceId)
       .single();
 
@@ -323,39 +306,26 @@ export async function updateGeofence(geofenceId: string, formData: FormData): Pr
       };
     }
 
-    const name = formData.get('name') as string;
-    const centerLatStr = formData.get('center_latitude') as string;
-    const centerLngStr = formData.get('center_longitude') as string;
-    const radiusStr = formData.get('radius_meters') as string;
-
-    const updates: any = {};
-    
-    if (name?.trim()) {
-      updates.name = name.trim();
-    }
-    
-    if (centerLatStr) {
-      const center_latitude = parseFloat(centerLatStr);
-      if (!isNaN(center_latitude) && Math.abs(center_latitude) <= 90) {
-        updates.center_latitude = center_latitude;
-      }
-    }
-    
-    if (centerLngStr) {
-      const center_longitude = parseFloat(centerLngStr);
-      if (!isNaN(center_longitude) && Math.abs(center_longitude) <= 180) {
-        updates.center_longitude = center_longitude;
-      }
-    }
-    
-    if (radiusStr) {
-      const radius_meters = parseInt(radiusStr);
-      if (!isNaN(radius_meters) && radius_meters >= 10 && radius_meters <= 1000) {
-        updates.radius_meters = radius_meters;
-        updates.hysteresis_meters = Math.max(5, Math.round(Math.min(radius_meters * 0.1, 50)));
-      }
+    const fields = Object.fromEntries(formData);
+    const input = parseActionInput(GeofenceFormSchema, {
+      shape: geofence.shape,
+      ...fields,
+      // A buffer left out keeps its current value rather than the size-based default
+      hysteresis_meters: String(fields.hysteresis_meters ?? '').trim() ? fields.hysteresis_meters : geofence.hysteresis_meters
+    });
+    if (!input.success) {
+      return input;
     }
 
+    // Optional settings left out of the form keep their current values
+    const updates = Object.fromEntries(
+      Object.entries(input.data).filter(([, value]) => value !== undefined)
+    ) as Partial<typeof input.data>;
+
+    const changedFields = Object.keys(updates).filter(field =>
+      JSON.stringify(updates[field as keyof typeof updates]) !== JSON.stringify(geofence[field as keyof typeof geofence] ?? null)
+    );
+
     const { data: updatedGeofence, error: updateError } = await supabase
       .from('geofences')
       .update(updates)
@@ -372,6 +342,40 @@ export async function updateGeofence(geofenceId: string, formData: FormData): Pr
       };
     }
 
+    // Other members' rows are only writable by the service role
+    const admin = createAdminClient();
+
+    // Members holding a removed status fall back to the built-in status with the same presence
+    if (updates.status_options) {
+      const keptKeys = updates.status_options.map(option => option.key);
+      const removed = getStatusOptions(geofence).filter(option => !keptKeys.includes(option.key));
+
+      if (removed.length > 0) {
+        for (const option of removed) {
+          const { error: remapError } = await admin
+            .from('geofence_members')
+            .update({ status: option.presence === 'present' ? 'IN_ROOM' : 'AWAY' })
+            .eq('id_geofence', geofenceId)
+            .eq('status', option.key);
+
+          if (remapError) {
+            console.error('Failed to remap removed status:', remapError);
+          }
+        }
+      }
+
+      // Which statuses count as present may have changed
+      try {
+        await refreshOccupancy(admin, geofenceId);
+      } catch (error) {
+        console.error('Failed to refresh occupancy:', error);
+      }
+    }
+
+    // The name and status vocabulary appear in every member's tracker
+    await sendGeofenceUpdatedWebhook(admin, updatedGeofence, changedFields);
+    await publishMemberStates(admin, geofenceId);
+
     revalidatePath('/dashboard');
     revalidatePath(`/dashboard/${geofenceId}`);
 
@@ -422,6 +426,12 @@ export async function deleteGeofence(geofenceId: string): Promise<ServerActionRe
       };
     }
 
+    // Collected first so their MQTT trackers can be removed after the cascade
+    const { data: members } = await supabase
+      .from('geofence_members')
+      .select('id_user')
+      .eq('id_geofence', geofenceId);
+
     const { error: deleteError } = await supabase
       .from('geofences')
       .delete()
@@ -436,6 +446,8 @@ export async function deleteGeofence(geofenceId: string): Promise<ServerActionRe
       };
     }
 
+    await clearMemberStates(geofenceId, (members || []).map(member => member.id_user));
+
     revalidatePath('/dashboard');
 
     return { success: true, data: undefined };
@@ -452,11 +464,9 @@ export async function deleteGeofence(geofenceId: string): Promise<ServerActionRe
 
 export async function validateInvite(inviteCode: string): Promise<ServerActionResult<any>> {
   try {
-    if (!inviteCode?.trim()) {
-      return {
-        success: false,
-        error: 'Invite code is required'
-      };
+    const input = parseActionInput(InviteCodeSchema, { invite_code: inviteCode });
+    if (!input.success) {
+      return input;
     }
 
     const supabase = createServerClient(null);
@@ -469,7 +479,7 @@ export async function validateInvite(inviteCode: string): Promise<ServerActionRe
           created_at,
           owner:users!geofences_id_user_fkey(full_name)
         `)
-        .eq('invite_code', inviteCode)
+        .eq('invite_code', input.data.invite_code)
         .single();
 
     if (geofenceError || !geofence) {
@@ -525,11 +535,9 @@ export async function joinGeofence(inviteCode: string): Promise<ServerActionResu
       };
     }
 
-    if (!inviteCode?.trim()) {
-      return {
-        success: false,
-        error: 'Invite code is required'
-      };
+    const input = parseActionInput(InviteCodeSchema, { invite_code: inviteCode });
+    if (!input.success) {
+      return input;
     }
 
     const token = await getToken({ template: 'supabase' });
@@ -561,7 +569,7 @@ export async function joinGeofence(inviteCode: string): Promise<ServerActionResu
     const { data: geofence, error: geofenceError } = await supabase
       .from('geofences')
       .select('id_geofence, name, id_user')
-      .eq('invite_code', inviteCode.trim())
+      .eq('invite_code', input.data.invite_code)
       .single();
 
     if (geofenceError || !geofence) {
@@ -611,6 +619,13 @@ export async function joinGeofence(inviteCode: string): Promise<ServerActionResu
       };
     }
 
+    const admin = createAdminClient();
+    await sendMembershipWebhook(admin, geofence.id_geofence, 'member.joined', {
+      id_user: userId,
+      role: geofence.id_user === userId ? 'owner' : 'member'
+    });
+    await publishMemberStates(admin, geofence.id_geofence, [userId]);
+
     revalidatePath('/dashboard');
 
     return { 
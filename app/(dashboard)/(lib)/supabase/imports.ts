@@ -0,0 +1,254 @@
+'use server';
+
+import { auth } from '@clerk/nextjs/server';
+import { createServerClient, createAdminClient } from './client';
+import type { ServerActionResult } from './geofences';
+import { replayTrack } from '../geofence';
+import { getStatusOptions, isPlaceholderStatus, toPresenceStatus } from '../status-options';
+import type { ReplayedTransition } from '../geofence';
+import { detectTrackFormat, parseTrack, MAX_TRACK_POINTS } from '../track-import';
+import { TrackImportSchema, parseActionInput } from '../action-schemas';
+import type { Geofence, TrackImportGeofenceResult, TrackImportSummary } from '../types';
+
+/**
+ * Track Import Server Actions
+ *
+ * Backfills presence history from a GPX, GeoJSON or CSV export when a
+ * tracker missed a period. Imports never change a member's live status.
+ */
+
+// Rows per upsert request when storing imported points
+const HISTORY_CHUNK_SIZE = 1000;
+
+/**
+ * Replay a track file for one of the user's devices through every geofence
+ * they belong to, and optionally store the points and resulting transitions
+ *
+ * Geofences that already have transitions recorded inside the track's time
+ * range are reported as conflicts and left untouched.
+ *
+ * @param formData - `file`, `device` (device mapping row ID) and `dry_run` ('true' to preview)
+ * @returns Promise<ServerActionResult<TrackImportSummary>>
+ *
+ * @example
+ * ```tsx
+ * const result = await importTrack(formData);
+ * if (result.success) {
+ *   console.log('Transitions:', result.data.geofences.map(g => g.transitions.length));
+ * }
+ * ```
+ */
+export async function importTrack(formData: FormData): Promise<ServerActionResult<TrackImportSummary>> {
+  try {
+    // Verify authentication
+    const { getToken, userId } = await auth();
+
+    if (!userId) {
+      return {
+        success: false,
+        error: 'Unauthorized - Please sign in to import tracks'
+      };
+    }
+
+    const input = parseActionInput(TrackImportSchema, Object.fromEntries(formData));
+    if (!input.success) {
+      return input;
+    }
+
+    const { file, device: deviceRowId, dry_run: dryRun } = input.data;
+
+    const content = await file.text();
+    const format = detectTrackFormat(file.name, content);
+
+    if (!format) {
+      return {
+        success: false,
+        error: 'Unsupported file - use GPX, GeoJSON or CSV'
+      };
+    }
+
+    let track;
+    try {
+      track = parseTrack(content, format);
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Could not read track file'
+      };
+    }
+
+    if (track.points.length === 0) {
+      return {
+        success: false,
+        error: 'No timestamped points found in the file'
+      };
+    }
+
+    if (track.points.length > MAX_TRACK_POINTS) {
+      return {
+        success: false,
+        error: `Track has too many points (maximum ${MAX_TRACK_POINTS})`
+      };
+    }
+
+    // Create authenticated client
+    const token = await getToken({ template: 'supabase' });
+    const supabase = createServerClient(token);
+
+    const { data: device, error: deviceError } = await supabase
+      .from('device_mappings')
+      .select('device_id')
+      .eq('id', deviceRowId)
+      .eq('id_user', userId)
+      .single();
+
+    if (deviceError || !device) {
+      return {
+        success: false,
+        error: 'Device not found'
+      };
+    }
+
+    const { data: memberships, error: membershipsError } = await supabase
+      .from('geofence_members')
+      .select('*, geofences(*)')
+      .eq('id_user', userId);
+
+    if (membershipsError) {
+      console.error('Error fetching memberships for import:', membershipsError);
+      return {
+        success: false,
+        error: 'Failed to fetch geofences',
+        details: membershipsError
+      };
+    }
+
+    const from = track.points[0].timestamp;
+    const to = track.points[track.points.length - 1].timestamp;
+    const results: TrackImportGeofenceResult[] = [];
+    const eventsToWrite: Array<ReplayedTransition & { id_geofence: string }> = [];
+
+    for (const member of memberships || []) {
+      const geofence = member.geofences as Geofence;
+
+      // Status going into the track comes from the last transition before it
+      const { data: previous } = await supabase
+        .from('presence_events')
+        .select('to_status')
+        .eq('id_geofence', member.id_geofence)
+        .eq('id_user', userId)
+        .lt('occurred_at', from)
+        .order('occurred_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      const { count: overlapping } = await supabase
+        .from('presence_events')
+        .select('id', { count: 'exact', head: true })
+        .eq('id_geofence', member.id_geofence)
+        .eq('id_user', userId)
+        .gte('occurred_at', from)
+        .lte('occurred_at', to);
+
+      const initialStatus: string | null = previous?.to_status ?? null;
+      // A pause says nothing about where the member was
+      const transitions = replayTrack(
+        track.points,
+        geofence,
+        initialStatus && !isPlaceholderStatus(initialStatus) ? toPresenceStatus(initialStatus, getStatusOptions(geofence)) : null
+      );
+      const conflict = (overlapping || 0) > 0;
+
+      if (!conflict) {
+        eventsToWrite.push(...transitions.map(t => ({ ...t, id_geofence: member.id_geofence })));
+      }
+
+      results.push({
+        id_geofence: member.id_geofence,
+        name: geofence.name,
+        initial_status: initialStatus,
+        transitions: transitions.map(({ from_status, to_status, distance_meters, occurred_at }) => ({
+          from_status,
+          to_status,
+          distance_meters,
+          occurred_at
+        })),
+        conflict
+      });
+    }
+
+    if (!dryRun) {
+      // History tables only accept writes from the service role
+      const admin = createAdminClient();
+
+      for (let i = 0; i < track.points.length; i += HISTORY_CHUNK_SIZE) {
+        const { error: historyError } = await admin
+          .from('location_history')
+          .upsert(
+            track.points.slice(i, i + HISTORY_CHUNK_SIZE).map(point => ({
+              id_user: userId,
+              device_id: device.device_id,
+              latitude: point.latitude,
+              longitude: point.longitude,
+              accuracy_meters: point.accuracy_meters ?? null,
+              recorded_at: point.timestamp
+            })),
+            { onConflict: 'device_id,recorded_at', ignoreDuplicates: true }
+          );
+
+        if (historyError) {
+          console.error('Error storing imported points:', historyError);
+          return {
+            success: false,
+            error: 'Failed to store imported points',
+            details: historyError
+          };
+        }
+      }
+
+      if (eventsToWrite.length > 0) {
+        const { error: eventsError } = await admin
+          .from('presence_events')
+          .upsert(
+            eventsToWrite.map(event => ({
+              ...event,
+              id_user: userId,
+              device_id: device.device_id,
+              source: 'import'
+            })),
+            { onConflict: 'id_geofence,id_user,occurred_at', ignoreDuplicates: true }
+          );
+
+        if (eventsError) {
+          console.error('Error storing imported transitions:', eventsError);
+          return {
+            success: false,
+            error: 'Failed to store imported transitions',
+            details: eventsError
+          };
+        }
+      }
+    }
+
+    return {
+      success: true,
+      data: {
+        dry_run: dryRun,
+        format,
+        point_count: track.points.length,
+        skipped_count: track.skipped,
+        from,
+        to,
+        geofences: results
+      }
+    };
+
+  } catch (error) {
+    console.error('Track import error:', error);
+    return {
+      success: false,
+      error: 'Internal server error',
+      details: error
+    };
+  }
+}
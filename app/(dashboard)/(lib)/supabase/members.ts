@@ -1,8 +1,17 @@
 'use server';
 
 import { auth } from '@clerk/nextjs/server';
-import { createServerClient } from './client';
+import { createServerClient, createAdminClient } from './client';
 import type { ServerActionResult } from './geofences';
+import type { Geofence, GeofenceMember, MemberPrivacy, PresenceEvent } from '../types';
+import { PAUSED_STATUS_OPTION, findStatusOption, getStatusOptions, isPlaceholderStatus } from '../status-options';
+import { dispatchPresenceEvents } from '../presence-dispatch';
+import { NO_PENDING_TRANSITION } from '../geofence';
+import { isPauseActive } from '../tracking-pause';
+import { ManualStatusSchema, MemberPrivacySchema, MemberRoleSchema, PresenceTimelineRangeSchema, parseActionInput } from '../action-schemas';
+import { refreshOccupancy } from '../occupancy';
+import { sendMembershipWebhook } from '../webhooks';
+import { clearMemberStates, publishMemberStates } from '../mqtt-bridge';
 
 /**
  * Members Server Actions
@@ -10,6 +19,15 @@ import type { ServerActionResult } from './geofences';
  * Server actions for member management operations
  */
 
+// A departing or paused member may have been counted as present; the occupancy column is service-role only
+async function recountOccupancy(geofenceId: string): Promise<void> {
+  try {
+    await refreshOccupancy(createAdminClient(), geofenceId);
+  } catch (error) {
+    console.error('Failed to refresh occupancy:', error);
+  }
+}
+
 /**
  * Get members of a specific geofence
  * 
@@ -56,6 +74,8 @@ export async function getGeofenceMembers(geofenceId: string): Promise<ServerActi
         role,
         status,
         last_updated,
+        privacy,
+        distance_band,
         joined_at,
         users (
           full_name,
@@ -187,6 +207,10 @@ export async function removeMember(geofenceId: string, targetUserId: string): Pr
       };
     }
 
+    await recountOccupancy(geofenceId);
+    await sendMembershipWebhook(createAdminClient(), geofenceId, 'member.left', { id_user: targetUserId, role: targetMembership.role }, userId);
+    await clearMemberStates(geofenceId, [targetUserId]);
+
     return { success: true, data: undefined };
 
   } catch (error) {
@@ -223,11 +247,9 @@ export async function updateMemberRole(
       };
     }
 
-    if (!targetUserId || !newRole) {
-      return {
-        success: false,
-        error: 'User ID and new role are required'
-      };
+    const input = parseActionInput(MemberRoleSchema, { id_user: targetUserId, role: newRole });
+    if (!input.success) {
+      return input;
     }
 
     // Create authenticated client
@@ -344,11 +366,9 @@ export async function addMember(
       };
     }
 
-    if (!targetUserId) {
-      return {
-        success: false,
-        error: 'User ID is required'
-      };
+    const input = parseActionInput(MemberRoleSchema, { id_user: targetUserId, role });
+    if (!input.success) {
+      return input;
     }
 
     // Create authenticated client
@@ -420,6 +440,10 @@ export async function addMember(
       };
     }
 
+    const admin = createAdminClient();
+    await sendMembershipWebhook(admin, geofenceId, 'member.joined', { id_user: targetUserId, role });
+    await publishMemberStates(admin, geofenceId, [targetUserId]);
+
     return { success: true, data: undefined };
 
   } catch (error) {
@@ -494,6 +518,10 @@ export async function leaveGeofence(geofenceId: string): Promise<ServerActionRes
       };
     }
 
+    await recountOccupancy(geofenceId);
+    await sendMembershipWebhook(createAdminClient(), geofenceId, 'member.left', { id_user: userId, role: membership.role });
+    await clearMemberStates(geofenceId, [userId]);
+
     return { success: true, data: undefined };
 
   } catch (error) {
@@ -504,4 +532,444 @@ export async function leaveGeofence(geofenceId: string): Promise<ServerActionRes
       details: error
     };
   }
-} 
\ No newline at end of file
+}
+
+/**
+ * Get a member's presence transitions for a date range
+ * 
+ * @param geofenceId - The ID of the geofence
+ * @param targetUserId - The ID of the member whose timeline to load
+ * @param from - ISO start of the range (inclusive)
+ * @param to - ISO end of the range (exclusive)
+ * @returns Promise<ServerActionResult<PresenceEvent[]>>
+ */
+export async function getPresenceTimeline(
+  geofenceId: string,
+  targetUserId: string,
+  from: string,
+  to: string
+): Promise<ServerActionResult<PresenceEvent[]>> {
+  try {
+    // Verify authentication
+    const { getToken, userId } = await auth();
+    
+    if (!userId) {
+      return {
+        success: false,
+        error: 'Unauthorized - Please sign in to view presence history'
+      };
+    }
+
+    const input = parseActionInput(PresenceTimelineRangeSchema, { id_user: targetUserId, from, to });
+    if (!input.success) {
+      return input;
+    }
+
+    const fromDate = new Date(from);
+    const toDate = new Date(to);
+
+    // Create authenticated client
+    const token = await getToken({ template: 'supabase' });
+    const supabase = createServerClient(token);
+
+    // Verify the requesting user is a member of this geofence
+    const { data: membership, error: membershipError } = await supabase
+      .from('geofence_members')
+      .select('role')
+      .eq('id_geofence', geofenceId)
+      .eq('id_user', userId)
+      .single();
+
+    if (membershipError || !membership) {
+      return {
+        success: false,
+        error: 'You do not have access to this geofence'
+      };
+    }
+
+    const { data: events, error: eventsError } = await supabase
+      .from('presence_events')
+      .select('*')
+      .eq('id_geofence', geofenceId)
+      .eq('id_user', targetUserId)
+      .gte('occurred_at', fromDate.toISOString())
+      .lt('occurred_at', toDate.toISOString())
+      .order('occurred_at', { ascending: false });
+
+    if (eventsError) {
+      console.error('Failed to fetch presence events:', eventsError);
+      return {
+        success: false,
+        error: 'Failed to retrieve presence history',
+        details: eventsError
+      };
+    }
+
+    return { success: true, data: events || [] };
+
+  } catch (error) {
+    console.error('Presence timeline error:', error);
+    return {
+      success: false,
+      error: 'Internal server error',
+      details: error
+    };
+  }
+}
+
+/**
+ * Set the current user's status in a geofence by hand
+ * 
+ * GPS updates cannot change the status until the override expires or is
+ * cleared. A change of status is recorded in the presence history.
+ * 
+ * @param geofenceId - The ID of the geofence
+ * @param status - A key from the geofence's status options
+ * @param expiresAt - ISO time the override ends, or null to keep it until cleared
+ * @returns Promise<ServerActionResult<void>>
+ * 
+ * @example
+ * ```tsx
+ * // "Away until 18:00"
+ * const result = await setManualStatus(geofenceId, 'AWAY', until.toISOString());
+ * ```
+ */
+export async function setManualStatus(
+  geofenceId: string,
+  status: string,
+  expiresAt: string | null = null
+): Promise<ServerActionResult<void>> {
+  try {
+    // Verify authentication
+    const { getToken, userId } = await auth();
+    
+    if (!userId) {
+      return {
+        success: false,
+        error: 'Unauthorized - Please sign in to set your status'
+      };
+    }
+
+    const input = parseActionInput(ManualStatusSchema, { status, expires_at: expiresAt });
+    if (!input.success) {
+      return input;
+    }
+
+    // Create authenticated client
+    const token = await getToken({ template: 'supabase' });
+    const supabase = createServerClient(token);
+
+    // Verify the user is a member of this geofence
+    const { data: membership, error: membershipError } = await supabase
+      .from('geofence_members')
+      .select('status, privacy, geofences(status_options)')
+      .eq('id_geofence', geofenceId)
+      .eq('id_user', userId)
+      .single()
+      // A membership belongs to one geofence, so the join is an object rather than a list
+      .overrideTypes<Pick<GeofenceMember, 'status' | 'privacy'> & { geofences: Pick<Geofence, 'status_options'> | null }, { merge: false }>();
+
+    if (membershipError || !membership) {
+      return {
+        success: false,
+        error: 'You do not have access to this geofence'
+      };
+    }
+
+    if (membership.privacy === 'paused') {
+      return {
+        success: false,
+        error: 'Resume sharing to set your status'
+      };
+    }
+
+    const { data: pause } = await supabase
+      .from('tracking_pauses')
+      .select('paused_until')
+      .eq('id_user', userId)
+      .maybeSingle();
+
+    if (isPauseActive(pause)) {
+      return {
+        success: false,
+        error: 'Resume tracking to set your status'
+      };
+    }
+
+    if (isPlaceholderStatus(status) || !findStatusOption(status, getStatusOptions(membership.geofences))) {
+      return {
+        success: false,
+        error: 'That status is not available in this geofence'
+      };
+    }
+
+    // Presence history only accepts writes from the service role
+    const admin = createAdminClient();
+    const now = new Date().toISOString();
+
+    if (membership.status !== status) {
+      const { error: eventError } = await admin
+        .from('presence_events')
+        .insert({
+          id_geofence: geofenceId,
+          id_user: userId,
+          from_status: membership.status,
+          to_status: status,
+          distance_meters: null,
+          latitude: null,
+          longitude: null,
+          source: 'manual',
+          occurred_at: now
+        });
+
+      if (eventError) {
+        console.error('Failed to record manual status change:', eventError);
+        return {
+          success: false,
+          error: 'Failed to update status',
+          details: eventError
+        };
+      }
+    }
+
+    const { error: updateError } = await admin
+      .from('geofence_members')
+      .update({
+        status,
+        status_source: 'manual',
+        manual_expires_at: expiresAt ? new Date(expiresAt).toISOString() : null,
+        pending_status: null,
+        pending_since: null,
+        pending_point_count: 0,
+        last_updated: now
+      })
+      .eq('id_geofence', geofenceId)
+      .eq('id_user', userId);
+
+    if (updateError) {
+      console.error('Failed to set manual status:', updateError);
+      return {
+        success: false,
+        error: 'Failed to update status',
+        details: updateError
+      };
+    }
+
+    if (membership.status !== status) {
+      await dispatchPresenceEvents(admin, [{
+        id_geofence: geofenceId,
+        id_user: userId,
+        from_status: membership.status,
+        to_status: status,
+        occurred_at: now,
+        source: 'manual'
+      }]);
+    }
+
+    return { success: true, data: undefined };
+
+  } catch (error) {
+    console.error('Manual status error:', error);
+    return {
+      success: false,
+      error: 'Internal server error',
+      details: error
+    };
+  }
+}
+
+/**
+ * Hand the current user's status in a geofence back to GPS
+ * 
+ * The status stays as it is until the next location update evaluates it.
+ * 
+ * @param geofenceId - The ID of the geofence
+ * @returns Promise<ServerActionResult<void>>
+ */
+export async function clearManualStatus(geofenceId: string): Promise<ServerActionResult<void>> {
+  try {
+    // Verify authentication
+    const { getToken, userId } = await auth();
+    
+    if (!userId) {
+      return {
+        success: false,
+        error: 'Unauthorized - Please sign in to set your status'
+      };
+    }
+
+    // Create authenticated client
+    const token = await getToken({ template: 'supabase' });
+    const supabase = createServerClient(token);
+
+    // Verify the user is a member of this geofence
+    const { data: membership, error: membershipError } = await supabase
+      .from('geofence_members')
+      .select('role')
+      .eq('id_geofence', geofenceId)
+      .eq('id_user', userId)
+      .single();
+
+    if (membershipError || !membership) {
+      return {
+        success: false,
+        error: 'You do not have access to this geofence'
+      };
+    }
+
+    const admin = createAdminClient();
+
+    const { error: updateError } = await admin
+      .from('geofence_members')
+      .update({
+        status_source: 'gps',
+        manual_expires_at: null
+      })
+      .eq('id_geofence', geofenceId)
+      .eq('id_user', userId);
+
+    if (updateError) {
+      console.error('Failed to clear manual status:', updateError);
+      return {
+        success: false,
+        error: 'Failed to update status',
+        details: updateError
+      };
+    }
+
+    return { success: true, data: undefined };
+
+  } catch (error) {
+    console.error('Clear manual status error:', error);
+    return {
+      success: false,
+      error: 'Internal server error',
+      details: error
+    };
+  }
+}
+
+/**
+ * Choose what the other members of a geofence see about the current user
+ * 
+ * Pausing replaces the user's status with Paused and stops location updates
+ * from changing it; Home Assistant stops tracking them until they resume.
+ * After resuming, the next conclusive GPS fix sets their status again.
+ * 
+ * @param geofenceId - The ID of the geofence
+ * @param privacy - Status only, distance band, exact position or paused
+ * @returns Promise<ServerActionResult<void>>
+ */
+export async function setMemberPrivacy(
+  geofenceId: string,
+  privacy: MemberPrivacy
+): Promise<ServerActionResult<void>> {
+  try {
+    // Verify authentication
+    const { getToken, userId } = await auth();
+    
+    if (!userId) {
+      return {
+        success: false,
+        error: 'Unauthorized - Please sign in to change your privacy settings'
+      };
+    }
+
+    const input = parseActionInput(MemberPrivacySchema, { privacy });
+    if (!input.success) {
+      return input;
+    }
+
+    // Create authenticated client
+    const token = await getToken({ template: 'supabase' });
+    const supabase = createServerClient(token);
+
+    // Verify the user is a member of this geofence
+    const { data: membership, error: membershipError } = await supabase
+      .from('geofence_members')
+      .select('status, privacy')
+      .eq('id_geofence', geofenceId)
+      .eq('id_user', userId)
+      .single();
+
+    if (membershipError || !membership) {
+      return {
+        success: false,
+        error: 'You do not have access to this geofence'
+      };
+    }
+
+    const pausing = input.data.privacy === 'paused' && membership.privacy !== 'paused';
+
+    // The database clears whatever the new level does not share
+    const admin = createAdminClient();
+    const now = new Date().toISOString();
+
+    if (pausing && membership.status !== PAUSED_STATUS_OPTION.key) {
+      const { error: eventError } = await admin
+        .from('presence_events')
+        .insert({
+          id_geofence: geofenceId,
+          id_user: userId,
+          from_status: membership.status,
+          to_status: PAUSED_STATUS_OPTION.key,
+          distance_meters: null,
+          latitude: null,
+          longitude: null,
+          source: 'manual',
+          occurred_at: now
+        });
+
+      if (eventError) {
+        console.error('Failed to record pause:', eventError);
+        return {
+          success: false,
+          error: 'Failed to update privacy settings',
+          details: eventError
+        };
+      }
+    }
+
+    const { error: updateError } = await admin
+      .from('geofence_members')
+      .update(
+        pausing
+          ? {
+              privacy: input.data.privacy,
+              status: PAUSED_STATUS_OPTION.key,
+              status_source: 'gps',
+              manual_expires_at: null,
+              ...NO_PENDING_TRANSITION,
+              last_updated: now
+            }
+          : { privacy: input.data.privacy }
+      )
+      .eq('id_geofence', geofenceId)
+      .eq('id_user', userId);
+
+    if (updateError) {
+      console.error('Failed to update privacy settings:', updateError);
+      return {
+        success: false,
+        error: 'Failed to update privacy settings',
+        details: updateError
+      };
+    }
+
+    // Paused members are neither counted nor announced
+    if (pausing) {
+      await recountOccupancy(geofenceId);
+      await clearMemberStates(geofenceId, [userId]);
+    }
+
+    return { success: true, data: undefined };
+
+  } catch (error) {
+    console.error('Privacy settings error:', error);
+    return {
+      success: false,
+      error: 'Internal server error',
+      details: error
+    };
+  }
+}
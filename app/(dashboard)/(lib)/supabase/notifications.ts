@@ -0,0 +1,353 @@
+'use server';
+
+import { auth } from '@clerk/nextjs/server';
+import { createServerClient, createAdminClient } from './client';
+import type { ServerActionResult } from './geofences';
+import { DEFAULT_NOTIFICATION_SETTINGS } from '../notification-preferences';
+import { NotificationSettingsSchema, PushSubscriptionSchema, parseActionInput } from '../action-schemas';
+import type { NotificationSettings } from '../notification-preferences';
+import type { NotificationPreferences, PushSubscriptionRecord } from '../types';
+
+/**
+ * Notification Server Actions
+ *
+ * Manages the browsers and phones a user receives Web Push notifications on,
+ * and their alert settings for each geofence. Sending happens server-side in
+ * push-notifications.ts.
+ */
+
+// Subscription keys stay on the server
+export type PushDevice = Pick<PushSubscriptionRecord, 'id' | 'endpoint' | 'device_name' | 'created_at' | 'last_used_at'>;
+
+// Shape of PushSubscription.toJSON() in the browser
+export interface PushSubscriptionInput {
+  endpoint: string;
+  keys: {
+    p256dh: string;
+    auth: string;
+  };
+}
+
+const NOTIFICATION_SETTINGS_COLUMNS = 'followed_user_ids, events, quiet_hours_start, quiet_hours_end, timezone, min_interval_minutes';
+const PUSH_DEVICE_COLUMNS = 'id, endpoint, device_name, created_at, last_used_at';
+const MAX_PUSH_DEVICES_PER_USER = 10;
+
+/**
+ * Get the current user's push notification devices
+ *
+ * @returns Promise<ServerActionResult<PushDevice[]>>
+ */
+export async function getPushSubscriptions(): Promise<ServerActionResult<PushDevice[]>> {
+  try {
+    // Verify authentication
+    const { getToken, userId } = await auth();
+
+    if (!userId) {
+      return {
+        success: false,
+        error: 'Unauthorized - Please sign in to view notification settings'
+      };
+    }
+
+    // Create authenticated client
+    const token = await getToken({ template: 'supabase' });
+    const supabase = createServerClient(token);
+
+    const { data, error } = await supabase
+      .from('push_subscriptions')
+      .select(PUSH_DEVICE_COLUMNS)
+      .eq('id_user', userId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching push subscriptions:', error);
+      return {
+        success: false,
+        error: 'Failed to fetch notification devices',
+        details: error
+      };
+    }
+
+    return { success: true, data: (data || []) as PushDevice[] };
+
+  } catch (error) {
+    console.error('Push subscription fetch error:', error);
+    return {
+      success: false,
+      error: 'Internal server error',
+      details: error
+    };
+  }
+}
+
+/**
+ * Save this browser's push subscription for the current user
+ *
+ * A browser has one endpoint per service worker, so re-subscribing after
+ * signing in as someone else moves the endpoint to the new user.
+ *
+ * @param subscription - PushSubscription.toJSON() from the browser
+ * @param deviceName - Label shown in the device list
+ * @returns Promise<ServerActionResult<PushDevice>>
+ */
+export async function savePushSubscription(
+  subscription: PushSubscriptionInput,
+  deviceName: string
+): Promise<ServerActionResult<PushDevice>> {
+  try {
+    // Verify authentication
+    const { getToken, userId } = await auth();
+
+    if (!userId) {
+      return {
+        success: false,
+        error: 'Unauthorized - Please sign in to enable notifications'
+      };
+    }
+
+    const input = parseActionInput(PushSubscriptionSchema, { subscription, device_name: deviceName });
+    if (!input.success) {
+      return input;
+    }
+
+    const { endpoint, keys } = input.data.subscription;
+
+    // Create authenticated client
+    const token = await getToken({ template: 'supabase' });
+    const supabase = createServerClient(token);
+
+    const { data: existing } = await supabase
+      .from('push_subscriptions')
+      .select('endpoint')
+      .eq('id_user', userId);
+
+    const isNew = !(existing || []).some(row => row.endpoint === endpoint);
+    if (isNew && (existing || []).length >= MAX_PUSH_DEVICES_PER_USER) {
+      return {
+        success: false,
+        error: `You can enable notifications on up to ${MAX_PUSH_DEVICES_PER_USER} devices`
+      };
+    }
+
+    // The endpoint may belong to another account that used this browser before
+    const admin = createAdminClient();
+
+    const { data, error } = await admin
+      .from('push_subscriptions')
+      .upsert(
+        { id_user: userId, endpoint, p256dh: keys.p256dh, auth: keys.auth, device_name: input.data.device_name },
+        { onConflict: 'endpoint' }
+      )
+      .select(PUSH_DEVICE_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error('Error saving push subscription:', error);
+      return {
+        success: false,
+        error: 'Failed to enable notifications',
+        details: error
+      };
+    }
+
+    return { success: true, data: data as PushDevice };
+
+  } catch (error) {
+    console.error('Push subscription save error:', error);
+    return {
+      success: false,
+      error: 'Internal server error',
+      details: error
+    };
+  }
+}
+
+/**
+ * Stop sending notifications to one of the current user's devices
+ *
+ * @param id - Push subscription row ID
+ * @returns Promise<ServerActionResult<void>>
+ */
+export async function deletePushSubscription(id: string): Promise<ServerActionResult<void>> {
+  try {
+    // Verify authentication
+    const { getToken, userId } = await auth();
+
+    if (!userId) {
+      return {
+        success: false,
+        error: 'Unauthorized - Please sign in to manage notifications'
+      };
+    }
+
+    // Create authenticated client
+    const token = await getToken({ template: 'supabase' });
+    const supabase = createServerClient(token);
+
+    const { error } = await supabase
+      .from('push_subscriptions')
+      .delete()
+      .eq('id', id)
+      .eq('id_user', userId);
+
+    if (error) {
+      console.error('Error deleting push subscription:', error);
+      return {
+        success: false,
+        error: 'Failed to remove notification device',
+        details: error
+      };
+    }
+
+    return { success: true, data: undefined };
+
+  } catch (error) {
+    console.error('Push subscription delete error:', error);
+    return {
+      success: false,
+      error: 'Internal server error',
+      details: error
+    };
+  }
+}
+
+// Postgres returns TIME values as HH:MM:SS
+const toNotificationSettings = (row: Pick<NotificationPreferences, keyof NotificationSettings>): NotificationSettings => ({
+  ...row,
+  quiet_hours_start: row.quiet_hours_start?.slice(0, 5) ?? null,
+  quiet_hours_end: row.quiet_hours_end?.slice(0, 5) ?? null
+});
+
+/**
+ * Get the current user's alert settings for a geofence
+ *
+ * Members who have never saved settings get the defaults: every arrival and
+ * departure, no quiet hours.
+ *
+ * @param geofenceId - The geofence ID
+ * @returns Promise<ServerActionResult<NotificationSettings>>
+ */
+export async function getNotificationPreferences(geofenceId: string): Promise<ServerActionResult<NotificationSettings>> {
+  try {
+    // Verify authentication
+    const { getToken, userId } = await auth();
+
+    if (!userId) {
+      return {
+        success: false,
+        error: 'Unauthorized - Please sign in to view notification settings'
+      };
+    }
+
+    // Create authenticated client
+    const token = await getToken({ template: 'supabase' });
+    const supabase = createServerClient(token);
+
+    const { data, error } = await supabase
+      .from('notification_preferences')
+      .select(NOTIFICATION_SETTINGS_COLUMNS)
+      .eq('id_geofence', geofenceId)
+      .eq('id_user', userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching notification preferences:', error);
+      return {
+        success: false,
+        error: 'Failed to fetch notification settings',
+        details: error
+      };
+    }
+
+    return { success: true, data: data ? toNotificationSettings(data) : DEFAULT_NOTIFICATION_SETTINGS };
+
+  } catch (error) {
+    console.error('Notification preferences fetch error:', error);
+    return {
+      success: false,
+      error: 'Internal server error',
+      details: error
+    };
+  }
+}
+
+/**
+ * Save the current user's alert settings for a geofence
+ *
+ * @param geofenceId - The geofence ID
+ * @param settings - Followed members, events, quiet hours and minimum interval
+ * @returns Promise<ServerActionResult<NotificationSettings>>
+ */
+export async function updateNotificationPreferences(
+  geofenceId: string,
+  settings: NotificationSettings
+): Promise<ServerActionResult<NotificationSettings>> {
+  try {
+    // Verify authentication
+    const { getToken, userId } = await auth();
+
+    if (!userId) {
+      return {
+        success: false,
+        error: 'Unauthorized - Please sign in to change notification settings'
+      };
+    }
+
+    const input = parseActionInput(NotificationSettingsSchema, settings);
+    if (!input.success) {
+      return input;
+    }
+
+    // Create authenticated client
+    const token = await getToken({ template: 'supabase' });
+    const supabase = createServerClient(token);
+
+    // Verify the user is a member of this geofence
+    const { data: membership, error: membershipError } = await supabase
+      .from('geofence_members')
+      .select('id_user')
+      .eq('id_geofence', geofenceId)
+      .eq('id_user', userId)
+      .single();
+
+    if (membershipError || !membership) {
+      return {
+        success: false,
+        error: 'You do not have access to this geofence'
+      };
+    }
+
+    const { data, error } = await supabase
+      .from('notification_preferences')
+      .upsert(
+        {
+          id_geofence: geofenceId,
+          id_user: userId,
+          ...input.data,
+          updated_at: new Date().toISOString()
+        },
+        { onConflict: 'id_geofence,id_user' }
+      )
+      .select(NOTIFICATION_SETTINGS_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error('Error saving notification preferences:', error);
+      return {
+        success: false,
+        error: 'Failed to save notification settings',
+        details: error
+      };
+    }
+
+    return { success: true, data: toNotificationSettings(data) };
+
+  } catch (error) {
+    console.error('Notification preferences update error:', error);
+    return {
+      success: false,
+      error: 'Internal server error',
+      details: error
+    };
+  }
+}
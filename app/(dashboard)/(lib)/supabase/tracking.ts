@@ -0,0 +1,267 @@
+'use server';
+
+import { auth } from '@clerk/nextjs/server';
+import { createServerClient, createAdminClient } from './client';
+import type { ServerActionResult } from './geofences';
+import { PauseModeSchema, TrackingPauseSchema, parseActionInput } from '../action-schemas';
+import { isPauseActive, pauseMemberships } from '../tracking-pause';
+import type { PauseMode, TrackingPause } from '../types';
+
+/**
+ * Ghost Mode Server Actions
+ *
+ * Lets a user pause tracking across all their geofences until a chosen time,
+ * end the pause early, and choose whether points sent while paused are
+ * dropped or kept in their own history.
+ */
+
+export type TrackingPauseSettings = Pick<TrackingPause, 'pause_mode' | 'paused_at' | 'paused_until'>;
+
+const TRACKING_PAUSE_COLUMNS = 'pause_mode, paused_at, paused_until';
+
+const DEFAULT_TRACKING_PAUSE: TrackingPauseSettings = {
+  pause_mode: 'store',
+  paused_at: null,
+  paused_until: null
+};
+
+/**
+ * Get the current user's ghost mode setting and latest pause
+ *
+ * @returns Promise<ServerActionResult<TrackingPauseSettings>>
+ */
+export async function getTrackingPause(): Promise<ServerActionResult<TrackingPauseSettings>> {
+  try {
+    // Verify authentication
+    const { getToken, userId } = await auth();
+
+    if (!userId) {
+      return {
+        success: false,
+        error: 'Unauthorized - Please sign in to view ghost mode'
+      };
+    }
+
+    // Create authenticated client
+    const token = await getToken({ template: 'supabase' });
+    const supabase = createServerClient(token);
+
+    const { data, error } = await supabase
+      .from('tracking_pauses')
+      .select(TRACKING_PAUSE_COLUMNS)
+      .eq('id_user', userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching tracking pause:', error);
+      return {
+        success: false,
+        error: 'Failed to fetch ghost mode',
+        details: error
+      };
+    }
+
+    return { success: true, data: (data as TrackingPauseSettings | null) ?? DEFAULT_TRACKING_PAUSE };
+
+  } catch (error) {
+    console.error('Tracking pause fetch error:', error);
+    return {
+      success: false,
+      error: 'Internal server error',
+      details: error
+    };
+  }
+}
+
+/**
+ * Pause tracking until the given time, or move the end of the current pause
+ *
+ * Starting a pause shows the user as Paused in every geofence straight away.
+ *
+ * @param pausedUntil - ISO timestamp when tracking resumes
+ * @returns Promise<ServerActionResult<TrackingPauseSettings>>
+ */
+export async function pauseTracking(pausedUntil: string): Promise<ServerActionResult<TrackingPauseSettings>> {
+  try {
+    // Verify authentication
+    const { userId } = await auth();
+
+    if (!userId) {
+      return {
+        success: false,
+        error: 'Unauthorized - Please sign in to pause tracking'
+      };
+    }
+
+    const input = parseActionInput(TrackingPauseSchema, { paused_until: pausedUntil });
+    if (!input.success) {
+      return input;
+    }
+
+    // Pausing rewrites statuses in every geofence, which only the service role may do
+    const admin = createAdminClient();
+    const now = new Date().toISOString();
+
+    const { data: existing, error: existingError } = await admin
+      .from('tracking_pauses')
+      .select(TRACKING_PAUSE_COLUMNS)
+      .eq('id_user', userId)
+      .maybeSingle();
+
+    if (existingError) {
+      throw existingError;
+    }
+
+    // Extending a pause keeps its start, so points from the whole window stay unevaluated
+    const extending = isPauseActive(existing);
+
+    const { data, error } = await admin
+      .from('tracking_pauses')
+      .upsert({
+        id_user: userId,
+        paused_at: extending ? existing!.paused_at : now,
+        paused_until: new Date(input.data.paused_until).toISOString(),
+        updated_at: now
+      }, { onConflict: 'id_user' })
+      .select(TRACKING_PAUSE_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error('Failed to pause tracking:', error);
+      return {
+        success: false,
+        error: 'Failed to pause tracking',
+        details: error
+      };
+    }
+
+    if (!extending) {
+      await pauseMemberships(admin, userId, now);
+    }
+
+    return { success: true, data: data as TrackingPauseSettings };
+
+  } catch (error) {
+    console.error('Pause tracking error:', error);
+    return {
+      success: false,
+      error: 'Internal server error',
+      details: error
+    };
+  }
+}
+
+/**
+ * End the current pause now
+ *
+ * Statuses stay Paused until the next location update evaluates them.
+ *
+ * @returns Promise<ServerActionResult<TrackingPauseSettings>>
+ */
+export async function resumeTracking(): Promise<ServerActionResult<TrackingPauseSettings>> {
+  try {
+    // Verify authentication
+    const { userId } = await auth();
+
+    if (!userId) {
+      return {
+        success: false,
+        error: 'Unauthorized - Please sign in to resume tracking'
+      };
+    }
+
+    const admin = createAdminClient();
+    const now = new Date().toISOString();
+
+    // Ending the window now keeps it on record for points uploaded late
+    const { data, error } = await admin
+      .from('tracking_pauses')
+      .update({ paused_until: now, updated_at: now })
+      .eq('id_user', userId)
+      .gt('paused_until', now)
+      .select(TRACKING_PAUSE_COLUMNS)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Failed to resume tracking:', error);
+      return {
+        success: false,
+        error: 'Failed to resume tracking',
+        details: error
+      };
+    }
+
+    if (!data) {
+      return {
+        success: false,
+        error: 'Tracking is not paused'
+      };
+    }
+
+    return { success: true, data: data as TrackingPauseSettings };
+
+  } catch (error) {
+    console.error('Resume tracking error:', error);
+    return {
+      success: false,
+      error: 'Internal server error',
+      details: error
+    };
+  }
+}
+
+/**
+ * Choose whether points sent while paused are dropped or stored without being evaluated
+ *
+ * @param pauseMode - 'drop' or 'store'
+ * @returns Promise<ServerActionResult<TrackingPauseSettings>>
+ */
+export async function setPauseMode(pauseMode: PauseMode): Promise<ServerActionResult<TrackingPauseSettings>> {
+  try {
+    // Verify authentication
+    const { userId } = await auth();
+
+    if (!userId) {
+      return {
+        success: false,
+        error: 'Unauthorized - Please sign in to change ghost mode'
+      };
+    }
+
+    const input = parseActionInput(PauseModeSchema, { pause_mode: pauseMode });
+    if (!input.success) {
+      return input;
+    }
+
+    const admin = createAdminClient();
+
+    const { data, error } = await admin
+      .from('tracking_pauses')
+      .upsert({
+        id_user: userId,
+        pause_mode: input.data.pause_mode,
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'id_user' })
+      .select(TRACKING_PAUSE_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error('Failed to update pause mode:', error);
+      return {
+        success: false,
+        error: 'Failed to update ghost mode',
+        details: error
+      };
+    }
+
+    return { success: true, data: data as TrackingPauseSettings };
+
+  } catch (error) {
+    console.error('Pause mode error:', error);
+    return {
+      success: false,
+      error: 'Internal server error',
+      details: error
+    };
+  }
+}
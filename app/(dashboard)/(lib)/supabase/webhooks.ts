@@ -0,0 +1,441 @@
+'use server';
+
+import { auth } from '@clerk/nextjs/server';
+import { createServerClient, createAdminClient } from './client';
+import type { ServerActionResult } from './geofences';
+import { attemptWebhookDelivery, generateWebhookSecret } from '../webhooks';
+import { WebhookEndpointInputSchema, WebhookEndpointUpdateSchema, parseActionInput } from '../action-schemas';
+import type { WebhookEndpointInput } from '../webhooks';
+import type { WebhookDelivery, WebhookEndpoint } from '../types';
+
+/**
+ * Webhook Server Actions
+ *
+ * Lets geofence owners manage outgoing webhook endpoints and inspect their
+ * delivery log. Events are sent server-side by webhooks.ts.
+ */
+
+// Secrets are shown once when an endpoint is created
+export type WebhookEndpointSummary = Omit<WebhookEndpoint, 'secret'>;
+
+export type WebhookDeliveryLogEntry = WebhookDelivery & { endpoint_url: string };
+
+const WEBHOOK_ENDPOINT_COLUMNS = 'id, id_geofence, url, description, events, enabled, created_at, updated_at';
+const MAX_WEBHOOKS_PER_GEOFENCE = 10;
+const DELIVERY_LOG_LIMIT = 50;
+
+type ServerClient = ReturnType<typeof createServerClient>;
+
+// Returns an error message unless the user owns the geofence
+async function checkGeofenceOwner(supabase: ServerClient, geofenceId: string, userId: string): Promise<string | null> {
+  const { data: geofence, error } = await supabase
+    .from('geofences')
+    .select('id_user')
+    .eq('id_geofence', geofenceId)
+    .single();
+
+  if (error || !geofence) {
+    return 'Geofence not found';
+  }
+
+  return geofence.id_user === userId ? null : 'Only geofence owners can manage webhooks';
+}
+
+/**
+ * Get a geofence's webhook endpoints
+ *
+ * @param geofenceId - The geofence ID
+ * @returns Promise<ServerActionResult<WebhookEndpointSummary[]>>
+ */
+export async function getWebhookEndpoints(geofenceId: string): Promise<ServerActionResult<WebhookEndpointSummary[]>> {
+  try {
+    // Verify authentication
+    const { getToken, userId } = await auth();
+
+    if (!userId) {
+      return {
+        success: false,
+        error: 'Unauthorized - Please sign in to view webhooks'
+      };
+    }
+
+    // Create authenticated client
+    const token = await getToken({ template: 'supabase' });
+    const supabase = createServerClient(token);
+
+    const ownerError = await checkGeofenceOwner(supabase, geofenceId, userId);
+    if (ownerError) {
+      return {
+        success: false,
+        error: ownerError
+      };
+    }
+
+    const { data, error } = await supabase
+      .from('webhook_endpoints')
+      .select(WEBHOOK_ENDPOINT_COLUMNS)
+      .eq('id_geofence', geofenceId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching webhook endpoints:', error);
+      return {
+        success: false,
+        error: 'Failed to fetch webhooks',
+        details: error
+      };
+    }
+
+    return { success: true, data: (data || []) as WebhookEndpointSummary[] };
+
+  } catch (error) {
+    console.error('Webhook endpoints fetch error:', error);
+    return {
+      success: false,
+      error: 'Internal server error',
+      details: error
+    };
+  }
+}
+
+/**
+ * Register a webhook endpoint for a geofence
+ *
+ * @param geofenceId - The geofence ID
+ * @param input - URL, description and subscribed events
+ * @returns Promise<ServerActionResult<{ endpoint: WebhookEndpointSummary; secret: string }>> - The signing secret is only returned here
+ */
+export async function createWebhookEndpoint(
+  geofenceId: string,
+  input: WebhookEndpointInput
+): Promise<ServerActionResult<{ endpoint: WebhookEndpointSummary; secret: string }>> {
+  try {
+    // Verify authentication
+    const { getToken, userId } = await auth();
+
+    if (!userId) {
+      return {
+        success: false,
+        error: 'Unauthorized - Please sign in to add webhooks'
+      };
+    }
+
+    const endpoint = parseActionInput(WebhookEndpointInputSchema, input);
+    if (!endpoint.success) {
+      return endpoint;
+    }
+
+    // Create authenticated client
+    const token = await getToken({ template: 'supabase' });
+    const supabase = createServerClient(token);
+
+    const ownerError = await checkGeofenceOwner(supabase, geofenceId, userId);
+    if (ownerError) {
+      return {
+        success: false,
+        error: ownerError
+      };
+    }
+
+    const { count } = await supabase
+      .from('webhook_endpoints')
+      .select('id', { count: 'exact', head: true })
+      .eq('id_geofence', geofenceId);
+
+    if ((count ?? 0) >= MAX_WEBHOOKS_PER_GEOFENCE) {
+      return {
+        success: false,
+        error: `A geofence can have up to ${MAX_WEBHOOKS_PER_GEOFENCE} webhooks`
+      };
+    }
+
+    const secret = generateWebhookSecret();
+
+    const { data, error } = await supabase
+      .from('webhook_endpoints')
+      .insert({ id_geofence: geofenceId, ...endpoint.data, secret })
+      .select(WEBHOOK_ENDPOINT_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error('Error creating webhook endpoint:', error);
+      return {
+        success: false,
+        error: 'Failed to add webhook',
+        details: error
+      };
+    }
+
+    return { success: true, data: { endpoint: data as WebhookEndpointSummary, secret } };
+
+  } catch (error) {
+    console.error('Webhook endpoint create error:', error);
+    return {
+      success: false,
+      error: 'Internal server error',
+      details: error
+    };
+  }
+}
+
+/**
+ * Change a webhook endpoint's URL, description, events or enabled state
+ *
+ * @param endpointId - Webhook endpoint ID
+ * @param input - The endpoint's new settings
+ * @returns Promise<ServerActionResult<WebhookEndpointSummary>>
+ */
+export async function updateWebhookEndpoint(
+  endpointId: string,
+  input: WebhookEndpointInput & { enabled: boolean }
+): Promise<ServerActionResult<WebhookEndpointSummary>> {
+  try {
+    // Verify authentication
+    const { getToken, userId } = await auth();
+
+    if (!userId) {
+      return {
+        success: false,
+        error: 'Unauthorized - Please sign in to manage webhooks'
+      };
+    }
+
+    const endpoint = parseActionInput(WebhookEndpointUpdateSchema, input);
+    if (!endpoint.success) {
+      return endpoint;
+    }
+
+    // Create authenticated client
+    const token = await getToken({ template: 'supabase' });
+    const supabase = createServerClient(token);
+
+    // Row level security only exposes endpoints of geofences the user owns
+    const { data, error } = await supabase
+      .from('webhook_endpoints')
+      .update({
+        ...endpoint.data,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', endpointId)
+      .select(WEBHOOK_ENDPOINT_COLUMNS)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error updating webhook endpoint:', error);
+      return {
+        success: false,
+        error: 'Failed to update webhook',
+        details: error
+      };
+    }
+
+    if (!data) {
+      return {
+        success: false,
+        error: 'Webhook not found'
+      };
+    }
+
+    return { success: true, data: data as WebhookEndpointSummary };
+
+  } catch (error) {
+    console.error('Webhook endpoint update error:', error);
+    return {
+      success: false,
+      error: 'Internal server error',
+      details: error
+    };
+  }
+}
+
+/**
+ * Delete a webhook endpoint along with its delivery log
+ *
+ * @param endpointId - Webhook endpoint ID
+ * @returns Promise<ServerActionResult<void>>
+ */
+export async function deleteWebhookEndpoint(endpointId: string): Promise<ServerActionResult<void>> {
+  try {
+    // Verify authentication
+    const { getToken, userId } = await auth();
+
+    if (!userId) {
+      return {
+        success: false,
+        error: 'Unauthorized - Please sign in to manage webhooks'
+      };
+    }
+
+    // Create authenticated client
+    const token = await getToken({ template: 'supabase' });
+    const supabase = createServerClient(token);
+
+    const { error } = await supabase
+      .from('webhook_endpoints')
+      .delete()
+      .eq('id', endpointId);
+
+    if (error) {
+      console.error('Error deleting webhook endpoint:', error);
+      return {
+        success: false,
+        error: 'Failed to delete webhook',
+        details: error
+      };
+    }
+
+    return { success: true, data: undefined };
+
+  } catch (error) {
+    console.error('Webhook endpoint delete error:', error);
+    return {
+      success: false,
+      error: 'Internal server error',
+      details: error
+    };
+  }
+}
+
+/**
+ * Get the most recent webhook deliveries for a geofence
+ *
+ * @param geofenceId - The geofence ID
+ * @returns Promise<ServerActionResult<WebhookDeliveryLogEntry[]>>
+ */
+export async function getWebhookDeliveries(geofenceId: string): Promise<ServerActionResult<WebhookDeliveryLogEntry[]>> {
+  try {
+    // Verify authentication
+    const { getToken, userId } = await auth();
+
+    if (!userId) {
+      return {
+        success: false,
+        error: 'Unauthorized - Please sign in to view webhooks'
+      };
+    }
+
+    // Create authenticated client
+    const token = await getToken({ template: 'supabase' });
+    const supabase = createServerClient(token);
+
+    const ownerError = await checkGeofenceOwner(supabase, geofenceId, userId);
+    if (ownerError) {
+      return {
+        success: false,
+        error: ownerError
+      };
+    }
+
+    const { data, error } = await supabase
+      .from('webhook_deliveries')
+      .select('*, webhook_endpoints(url)')
+      .eq('id_geofence', geofenceId)
+      .order('created_at', { ascending: false })
+      .limit(DELIVERY_LOG_LIMIT)
+      .overrideTypes<Array<WebhookDelivery & { webhook_endpoints: Pick<WebhookEndpoint, 'url'> | null }>, { merge: false }>();
+
+    if (error) {
+      console.error('Error fetching webhook deliveries:', error);
+      return {
+        success: false,
+        error: 'Failed to fetch webhook deliveries',
+        details: error
+      };
+    }
+
+    const deliveries = (data || []).map(({ webhook_endpoints, ...delivery }) => ({
+      ...delivery,
+      endpoint_url: webhook_endpoints?.url ?? ''
+    }));
+
+    return { success: true, data: deliveries };
+
+  } catch (error) {
+    console.error('Webhook deliveries fetch error:', error);
+    return {
+      success: false,
+      error: 'Internal server error',
+      details: error
+    };
+  }
+}
+
+/**
+ * Send a pending or failed delivery again now
+ *
+ * A delivery that had run out of retries gets one more attempt.
+ *
+ * @param deliveryId - Webhook delivery ID
+ * @returns Promise<ServerActionResult<{ delivered: boolean }>>
+ */
+export async function retryWebhookDelivery(deliveryId: string): Promise<ServerActionResult<{ delivered: boolean }>> {
+  try {
+    // Verify authentication
+    const { getToken, userId } = await auth();
+
+    if (!userId) {
+      return {
+        success: false,
+        error: 'Unauthorized - Please sign in to manage webhooks'
+      };
+    }
+
+    // Create authenticated client
+    const token = await getToken({ template: 'supabase' });
+    const supabase = createServerClient(token);
+
+    // Row level security only exposes deliveries of geofences the user owns
+    const { data: delivery, error: deliveryError } = await supabase
+      .from('webhook_deliveries')
+      .select('id, endpoint_id, event_id, payload, attempt_count, status')
+      .eq('id', deliveryId)
+      .single();
+
+    if (deliveryError || !delivery) {
+      return {
+        success: false,
+        error: 'Delivery not found'
+      };
+    }
+
+    if (delivery.status === 'succeeded') {
+      return {
+        success: false,
+        error: 'This delivery already succeeded'
+      };
+    }
+
+    const { data: endpoint, error: endpointError } = await supabase
+      .from('webhook_endpoints')
+      .select('url, secret, enabled')
+      .eq('id', delivery.endpoint_id)
+      .single();
+
+    if (endpointError || !endpoint) {
+      return {
+        success: false,
+        error: 'Webhook not found'
+      };
+    }
+
+    if (!endpoint.enabled) {
+      return {
+        success: false,
+        error: 'Enable the webhook before retrying'
+      };
+    }
+
+    // Delivery rows are only writable by the service role
+    const delivered = await attemptWebhookDelivery(createAdminClient(), delivery, endpoint);
+
+    return { success: true, data: { delivered } };
+
+  } catch (error) {
+    console.error('Webhook retry error:', error);
+    return {
+      success: false,
+      error: 'Internal server error',
+      details: error
+    };
+  }
+}
@@ -0,0 +1,215 @@
+import { z } from 'zod';
+import { validateCoordinates } from './geofence';
+import type { TimedLocationFix } from './geofence';
+
+/**
+ * Track file parsing for presence backfill
+ *
+ * Turns a GPX, GeoJSON FeatureCollection or CSV export into timestamped
+ * points, oldest first. Points without a usable position or time are counted
+ * as skipped rather than failing the whole file.
+ */
+
+export type TrackFormat = 'gpx' | 'geojson' | 'csv';
+
+export interface ParsedTrack {
+  format: TrackFormat;
+  points: TimedLocationFix[];
+  skipped: number;
+}
+
+export const MAX_TRACK_FILE_BYTES = 5 * 1024 * 1024;
+export const MAX_TRACK_POINTS = 20000;
+
+export function detectTrackFormat(fileName: string, content: string): TrackFormat | null {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'gpx') return 'gpx';
+  if (extension === 'geojson' || extension === 'json') return 'geojson';
+  if (extension === 'csv') return 'csv';
+
+  const start = content.trimStart();
+  if (start.startsWith('<')) return 'gpx';
+  if (start.startsWith('{')) return 'geojson';
+  return start.length > 0 ? 'csv' : null;
+}
+
+// Accepts ISO strings and epoch seconds or milliseconds
+function toIsoTimestamp(value: unknown): string | null {
+  if (value === null || value === undefined || value === '') {
+    return null;
+  }
+
+  const numeric = typeof value === 'number' ? value : Number(value);
+  const date = isFinite(numeric)
+    ? new Date(numeric < 1e12 ? numeric * 1000 : numeric)
+    : new Date(String(value));
+
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+function toAccuracy(value: unknown): number | undefined {
+  const numeric = typeof value === 'number' ? value : parseFloat(String(value));
+  return isFinite(numeric) && numeric >= 0 ? numeric : undefined;
+}
+
+function parseGpx(content: string): { raw: number; points: TimedLocationFix[] } {
+  const points: TimedLocationFix[] = [];
+  const pointPattern = /<(trkpt|rtept|wpt)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/\1>)/g;
+  let raw = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pointPattern.exec(content)) !== null) {
+    raw++;
+    const attributes = match[2];
+    const body = match[3] || '';
+    const latitude = parseFloat(/\blat\s*=\s*["']([^"']+)["']/.exec(attributes)?.[1] ?? '');
+    const longitude = parseFloat(/\blon\s*=\s*["']([^"']+)["']/.exec(attributes)?.[1] ?? '');
+    const timestamp = toIsoTimestamp(/<time>([^<]+)<\/time>/.exec(body)?.[1]?.trim());
+
+    if (timestamp) {
+      points.push({ latitude, longitude, timestamp });
+    }
+  }
+
+  return { raw, points };
+}
+
+// Only the outer shape is required; each feature is checked on its own so a bad one skips just its points
+const GeoJsonDocumentSchema = z.union([
+  z.looseObject({ type: z.literal('FeatureCollection'), features: z.array(z.unknown()) }).transform(doc => doc.features),
+  z.looseObject({ locations: z.array(z.unknown()) }).transform(doc => doc.locations)
+]);
+
+const GeoJsonFeatureSchema = z.looseObject({
+  geometry: z.discriminatedUnion('type', [
+    z.looseObject({ type: z.literal('Point'), coordinates: z.unknown() }),
+    z.looseObject({ type: z.literal('LineString'), coordinates: z.array(z.unknown()) })
+  ]),
+  properties: z.record(z.string(), z.unknown()).nullish().transform(properties => properties ?? {})
+});
+
+// [longitude, latitude, altitude?]
+const PositionSchema = z.tuple([z.number(), z.number()]).rest(z.number());
+
+// Per-vertex times as written by common GPX-to-GeoJSON converters
+const LineTimesSchema = z.union([
+  z.looseObject({ coordTimes: z.array(z.unknown()) }).transform(properties => properties.coordTimes),
+  z.looseObject({ coordinateProperties: z.looseObject({ times: z.array(z.unknown()) }) })
+    .transform(properties => properties.coordinateProperties.times)
+]).catch([]);
+
+function parseGeoJson(content: string): { raw: number; points: TimedLocationFix[] } {
+  const points: TimedLocationFix[] = [];
+  const document = GeoJsonDocumentSchema.safeParse(JSON.parse(content));
+  const features = document.success ? document.data : [];
+  let raw = 0;
+
+  for (const candidate of features) {
+    const feature = GeoJsonFeatureSchema.safeParse(candidate);
+    if (!feature.success) {
+      continue;
+    }
+
+    const { geometry, properties } = feature.data;
+
+    if (geometry.type === 'Point') {
+      raw++;
+      const position = PositionSchema.safeParse(geometry.coordinates);
+      const timestamp = toIsoTimestamp(properties.timestamp ?? properties.time ?? properties.recorded_at);
+      if (position.success && timestamp) {
+        points.push({
+          latitude: position.data[1],
+          longitude: position.data[0],
+          accuracy_meters: toAccuracy(properties.horizontal_accuracy ?? properties.accuracy),
+          timestamp
+        });
+      }
+    } else {
+      const times = LineTimesSchema.parse(properties);
+      geometry.coordinates.forEach((coordinate, index) => {
+        raw++;
+        const position = PositionSchema.safeParse(coordinate);
+        const timestamp = toIsoTimestamp(times[index]);
+        if (position.success && timestamp) {
+          points.push({ latitude: position.data[1], longitude: position.data[0], timestamp });
+        }
+      });
+    }
+  }
+
+  return { raw, points };
+}
+
+const CSV_COLUMNS = {
+  latitude: ['latitude', 'lat'],
+  longitude: ['longitude', 'lon', 'lng', 'long'],
+  timestamp: ['timestamp', 'time', 'recorded_at', 'datetime', 'date'],
+  accuracy: ['accuracy_meters', 'accuracy', 'horizontal_accuracy', 'acc']
+};
+
+function parseCsv(content: string): { raw: number; points: TimedLocationFix[] } {
+  const points: TimedLocationFix[] = [];
+  const lines = content.split(/\r?\n/).filter(line => line.trim().length > 0);
+  const splitLine = (line: string) => line.split(',').map(cell => cell.trim().replace(/^"(.*)"$/, '$1'));
+
+  if (lines.length === 0) {
+    return { raw: 0, points };
+  }
+
+  const header = splitLine(lines[0]).map(cell => cell.toLowerCase());
+  const column = (names: string[]) => header.findIndex(cell => names.includes(cell));
+  const latIndex = column(CSV_COLUMNS.latitude);
+  const lonIndex = column(CSV_COLUMNS.longitude);
+  const timeIndex = column(CSV_COLUMNS.timestamp);
+  const accuracyIndex = column(CSV_COLUMNS.accuracy);
+
+  if (latIndex < 0 || lonIndex < 0 || timeIndex < 0) {
+    throw new Error('CSV needs a header row with latitude, longitude and timestamp columns');
+  }
+
+  for (const line of lines.slice(1)) {
+    const cells = splitLine(line);
+    const timestamp = toIsoTimestamp(cells[timeIndex]);
+    if (timestamp) {
+      points.push({
+        latitude: parseFloat(cells[latIndex]),
+        longitude: parseFloat(cells[lonIndex]),
+        accuracy_meters: accuracyIndex >= 0 ? toAccuracy(cells[accuracyIndex]) : undefined,
+        timestamp
+      });
+    }
+  }
+
+  return { raw: lines.length - 1, points };
+}
+
+/**
+ * Parse a track file into valid points sorted by time, one per timestamp
+ *
+ * @throws Error with a user-facing message when the file cannot be read at all
+ */
+export function parseTrack(content: string, format: TrackFormat): ParsedTrack {
+  let parsed: { raw: number; points: TimedLocationFix[] };
+
+  try {
+    parsed = format === 'gpx' ? parseGpx(content) : format === 'geojson' ? parseGeoJson(content) : parseCsv(content);
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      throw new Error('File is not valid GeoJSON');
+    }
+    throw error;
+  }
+
+  const byTimestamp = new Map<string, TimedLocationFix>();
+  for (const point of parsed.points) {
+    if (validateCoordinates(point) && !byTimestamp.has(point.timestamp)) {
+      byTimestamp.set(point.timestamp, point);
+    }
+  }
+
+  const points = [...byTimestamp.values()].sort(
+    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+  );
+
+  return { format, points, skipped: parsed.raw - points.length };
+}
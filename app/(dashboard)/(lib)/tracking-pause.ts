@@ -0,0 +1,125 @@
+import type { AdminClient } from './supabase/client';
+import { refreshOccupancy } from './occupancy';
+import { clearMemberStates } from './mqtt-bridge';
+import { NO_PENDING_TRANSITION } from './geofence';
+import { PAUSED_STATUS_OPTION, isPlaceholderStatus } from './status-options';
+import type { TrackingPause } from './types';
+
+/**
+ * Ghost mode
+ *
+ * A user can pause tracking until a given time. Starting a pause shows them
+ * as Paused in every geofence and forgets their shared position. While it
+ * lasts, points from their devices are either dropped or stored in their own
+ * history without being evaluated, depending on their pause mode. Once it
+ * ends, the next conclusive fix sets each status again, so nothing has to
+ * run when the pause expires.
+ */
+
+export function isPauseActive(pause: Pick<TrackingPause, 'paused_until'> | null, at: Date = new Date()): boolean {
+  return !!pause?.paused_until && new Date(pause.paused_until).getTime() > at.getTime();
+}
+
+/**
+ * Whether a point falls under a pause: anything received while one is active,
+ * and points recorded inside the latest pause window but uploaded after it
+ */
+export function isPausedPoint(pause: TrackingPause | null, timestamp: string, now: Date = new Date()): boolean {
+  if (!pause?.paused_at || !pause.paused_until) {
+    return false;
+  }
+
+  if (isPauseActive(pause, now)) {
+    return true;
+  }
+
+  const recordedAt = new Date(timestamp).getTime();
+  return recordedAt >= new Date(pause.paused_at).getTime() && recordedAt < new Date(pause.paused_until).getTime();
+}
+
+export async function getTrackingPause(supabase: AdminClient, userId: string): Promise<TrackingPause | null> {
+  const { data, error } = await supabase
+    .from('tracking_pauses')
+    .select('*')
+    .eq('id_user', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data as TrackingPause | null;
+}
+
+/**
+ * Show a user as Paused in all their geofences
+ *
+ * Records the change in each geofence's history, clears pending transitions,
+ * manual statuses and shared positions, recounts occupancy and removes the
+ * user from Home Assistant. Members are not notified.
+ */
+export async function pauseMemberships(supabase: AdminClient, userId: string, at: string): Promise<void> {
+  const { data: memberships, error: membershipsError } = await supabase
+    .from('geofence_members')
+    .select('id_geofence, status')
+    .eq('id_user', userId);
+
+  if (membershipsError) {
+    throw membershipsError;
+  }
+
+  const changed = (memberships || []).filter(member => !isPlaceholderStatus(member.status));
+
+  if (changed.length > 0) {
+    const { error: eventsError } = await supabase
+      .from('presence_events')
+      .upsert(
+        changed.map(member => ({
+          id_geofence: member.id_geofence,
+          id_user: userId,
+          from_status: member.status,
+          to_status: PAUSED_STATUS_OPTION.key,
+          distance_meters: null,
+          latitude: null,
+          longitude: null,
+          source: 'manual' as const,
+          occurred_at: at
+        })),
+        { onConflict: 'id_geofence,id_user,occurred_at', ignoreDuplicates: true }
+      );
+
+    if (eventsError) {
+      throw eventsError;
+    }
+  }
+
+  const { error: updateError } = await supabase
+    .from('geofence_members')
+    .update({
+      status: PAUSED_STATUS_OPTION.key,
+      status_source: 'gps',
+      manual_expires_at: null,
+      ...NO_PENDING_TRANSITION,
+      distance_band: null,
+      last_latitude: null,
+      last_longitude: null,
+      last_updated: at
+    })
+    .eq('id_user', userId);
+
+  if (updateError) {
+    throw updateError;
+  }
+
+  for (const member of changed) {
+    try {
+      await refreshOccupancy(supabase, member.id_geofence);
+    } catch (error) {
+      console.error(`Error refreshing occupancy for geofence ${member.id_geofence}:`, error);
+    }
+  }
+
+  for (const member of memberships || []) {
+    await clearMemberStates(member.id_geofence, [userId]);
+  }
+}
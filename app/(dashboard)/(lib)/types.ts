@@ -22,31 +22,279 @@ export interface StatusOption {
 // GEOFENCE SYSTEM TYPES (New for Epic-2)
 // =============================================================================
 
+// Geofence boundary geometry
+export type GeofenceShape = 'circle' | 'polygon';
+
+// Single corner of a polygon geofence boundary
+export interface GeofenceVertex {
+  latitude: number;
+  longitude: number;
+}
+
+// Whether a status counts as being inside the geofence; GPS transitions map to these
+export type StatusPresence = 'present' | 'absent';
+
+export type StatusIconName =
+  | 'home' | 'map-pin' | 'book-open' | 'moon' | 'briefcase' | 'academic-cap'
+  | 'heart' | 'bolt' | 'sun' | 'shopping-bag' | 'truck' | 'globe'
+  | 'question-mark-circle'; // Reserved for the Unknown status
+
+export type StatusColorName =
+  | 'green' | 'gray' | 'blue' | 'indigo' | 'purple' | 'pink' | 'red' | 'orange' | 'yellow' | 'teal';
+
+// One entry in a geofence's status vocabulary. IN_ROOM and AWAY always exist
+// and are what GPS sets; other statuses are chosen manually.
+export interface GeofenceStatusOption {
+  key: string; // Stored in geofence_members.status, e.g. 'STUDYING'
+  label: string;
+  icon: StatusIconName;
+  color: StatusColorName;
+  presence: StatusPresence;
+}
+
 // Core geofence interface matching database schema
+// For polygon geofences the center/radius columns hold the polygon centroid and
+// the distance to its farthest vertex, and hysteresis is the edge buffer distance.
 export interface Geofence {
   id_geofence: string;
   id_user: string;
   name: string;
   invite_code: string;
+  shape: GeofenceShape;
   center_latitude: number;
   center_longitude: number;
   radius_meters: number;
   hysteresis_meters: number;
+  max_accuracy_meters?: number | null; // GPS fixes less accurate than this are ignored
+  // Dwell rules: a change must hold this long across this many points to commit
+  enter_dwell_seconds?: number;
+  enter_min_points?: number;
+  exit_dwell_seconds?: number;
+  exit_min_points?: number;
+  stale_after_minutes?: number; // Members without a location for this long show as Unknown; 0 never
+  polygon_vertices?: GeofenceVertex[] | null;
+  status_options?: GeofenceStatusOption[] | null; // null uses the default In Room/Away pair
+  occupancy_count?: number; // Members whose status counts as present
   created_at: string;
   updated_at: string;
 }
 
+// What a member shares with the rest of a geofence
+export type MemberPrivacy = 'status' | 'distance' | 'exact' | 'paused';
+
+// Rough distance from the geofence boundary, shared instead of a position
+export type DistanceBand = 'nearby' | 'in_town' | 'far';
+
 // Geofence member interface matching database schema
 export interface GeofenceMember {
   id_geofence: string;
   id_user: string;
   role: 'owner' | 'member';
-  status: 'IN_ROOM' | 'AWAY';
+  status: string; // A key from the geofence's status options
   last_updated: string;
   last_gps_update?: string;
+  // Device and accuracy of the fix behind last_gps_update, for resolving multi-device conflicts
+  last_gps_device_id?: string | null;
+  last_gps_accuracy_meters?: number | null;
+  // 'manual' while a member-set status is in force; GPS cannot change it until it expires
+  status_source?: 'gps' | 'manual';
+  manual_expires_at?: string | null; // null with a manual source means until cleared
+  // Status change waiting on the geofence dwell rule
+  pending_status?: 'IN_ROOM' | 'AWAY' | null;
+  pending_since?: string | null;
+  pending_point_count?: number;
+  // What other members may see; the database clears fields a level does not allow
+  privacy?: MemberPrivacy;
+  distance_band?: DistanceBand | null; // Only with the distance and exact levels
+  last_latitude?: number | null; // Only with the exact level
+  last_longitude?: number | null;
   joined_at: string;
 }
 
+// Raw GPS point as received from a tracker, kept for history and replay
+export interface LocationHistoryPoint {
+  id: string;
+  id_user: string;
+  device_id: string;
+  latitude: number;
+  longitude: number;
+  accuracy_meters?: number | null;
+  recorded_at: string;
+  received_at: string;
+}
+
+// Where a presence transition came from
+export type PresenceEventSource = 'gps' | 'manual' | 'import';
+
+// Append-only record of a member's status transitions
+// Position fields are null for manual changes
+export interface PresenceEvent {
+  id: string;
+  id_geofence: string;
+  id_user: string;
+  from_status: string;
+  to_status: string;
+  distance_meters: number | null;
+  latitude: number | null;
+  longitude: number | null;
+  device_id?: string | null;
+  source?: PresenceEventSource;
+  occurred_at: string;
+  created_at: string;
+}
+
+// Kinds of presence alerts a member can subscribe to
+export type NotificationEventType = 'arrive' | 'leave' | 'first_arrived' | 'last_left';
+
+// A member's alert settings for one geofence
+// Quiet hours are local HH:MM times in the member's timezone
+export interface NotificationPreferences {
+  id_geofence: string;
+  id_user: string;
+  followed_user_ids: string[] | null;
+  events: NotificationEventType[];
+  quiet_hours_start: string | null;
+  quiet_hours_end: string | null;
+  timezone: string;
+  min_interval_minutes: number;
+  last_notified_at: string | null;
+  updated_at: string;
+}
+
+// A browser or phone that receives Web Push notifications for a user
+export interface PushSubscriptionRecord {
+  id: string;
+  id_user: string;
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+  device_name: string;
+  created_at: string;
+  last_used_at: string | null;
+}
+
+// Derived when a geofence goes from empty to occupied or back
+export type OccupancyEventType = 'occupancy.first_arrived' | 'occupancy.last_left';
+
+export interface OccupancyEvent {
+  id: string;
+  id_geofence: string;
+  event_type: OccupancyEventType;
+  id_user: string | null; // Member whose transition caused the change
+  occupancy_count: number;
+  member_count: number;
+  occurred_at: string;
+  created_at: string;
+}
+
+// Events a geofence owner can subscribe a webhook endpoint to
+export type WebhookEventType = 'member.status_changed' | 'member.joined' | 'member.left' | 'geofence.updated';
+
+// An owner-registered URL that receives signed event deliveries
+export interface WebhookEndpoint {
+  id: string;
+  id_geofence: string;
+  url: string;
+  description: string;
+  secret: string;
+  events: WebhookEventType[];
+  enabled: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+// One event sent to one endpoint, including its retry state
+export interface WebhookDelivery {
+  id: string;
+  endpoint_id: string;
+  id_geofence: string;
+  event_id: string;
+  event_type: WebhookEventType;
+  payload: Record<string, any>;
+  status: WebhookDeliveryStatus;
+  attempt_count: number;
+  next_attempt_at: string | null;
+  last_attempt_at: string | null;
+  response_status: number | null;
+  last_error: string | null;
+  delivered_at: string | null;
+  created_at: string;
+}
+
+// Permissions a personal access token can grant on the /api/v1 REST API
+export type AccessTokenScope = 'geofences:read' | 'history:read';
+
+// A user-generated token for scripting against the REST API
+// Only the SHA-256 hash of the token is stored
+export interface PersonalAccessToken {
+  id: string;
+  id_user: string;
+  name: string;
+  token_prefix: string;
+  token_hash: string;
+  scopes: AccessTokenScope[];
+  expires_at: string | null;
+  last_used_at: string | null;
+  created_at: string;
+}
+
+// What happens to points from a user's devices while tracking is paused
+export type PauseMode = 'drop' | 'store';
+
+// A user's ghost mode setting and their latest pause window
+export interface TrackingPause {
+  id_user: string;
+  pause_mode: PauseMode;
+  paused_at: string | null;
+  paused_until: string | null;
+  updated_at: string;
+}
+
+// How a scheduled job run was started, and how it ended
+export type JobTrigger = 'cron' | 'cli';
+export type JobRunStatus = 'running' | 'succeeded' | 'failed' | 'skipped';
+
+// One run of a scheduled job
+export interface JobRun {
+  id: string;
+  job_name: string;
+  trigger: JobTrigger;
+  status: JobRunStatus;
+  result: Record<string, unknown> | null;
+  error: string | null;
+  started_at: string;
+  finished_at: string | null;
+}
+
+// Held by the run of a job that is in progress
+export interface JobLock {
+  job_name: string;
+  run_id: string;
+  locked_until: string;
+}
+
+// Outcome of replaying an imported track through one geofence
+export interface TrackImportGeofenceResult {
+  id_geofence: string;
+  name: string;
+  initial_status: string | null;
+  transitions: Array<Pick<PresenceEvent, 'from_status' | 'to_status' | 'distance_meters' | 'occurred_at'>>;
+  // The period already has recorded transitions, so nothing is written for this geofence
+  conflict: boolean;
+}
+
+export interface TrackImportSummary {
+  dry_run: boolean;
+  format: 'gpx' | 'geojson' | 'csv';
+  point_count: number;
+  skipped_count: number;
+  from: string;
+  to: string;
+  geofences: TrackImportGeofenceResult[];
+}
+
 // Extended geofence member with user details for display
 export interface GeofenceMemberWithUser extends GeofenceMember {
   users?: {
@@ -67,10 +315,18 @@ export interface User {
 // Geofence creation request interface
 export interface CreateGeofenceRequest {
   name: string;
+  shape: GeofenceShape;
   center_latitude: number;
   center_longitude: number;
   radius_meters: number;
   hysteresis_meters: number;
+  max_accuracy_meters?: number;
+  enter_dwell_seconds?: number;
+  enter_min_points?: number;
+  exit_dwell_seconds?: number;
+  exit_min_points?: number;
+  stale_after_minutes?: number;
+  polygon_vertices?: GeofenceVertex[];
 }
 
 // Geofence creation response interface
@@ -78,10 +334,18 @@ export interface CreateGeofenceResponse {
   id_geofence: string;
   name: string;
   invite_code: string;
+  shape: GeofenceShape;
   center_latitude: number;
   center_longitude: number;
   radius_meters: number;
   hysteresis_meters: number;
+  max_accuracy_meters?: number | null;
+  enter_dwell_seconds?: number;
+  enter_min_points?: number;
+  exit_dwell_seconds?: number;
+  exit_min_points?: number;
+  stale_after_minutes?: number;
+  polygon_vertices?: GeofenceVertex[] | null;
   created_at: string;
 }
 
@@ -90,6 +354,7 @@ export interface GeofenceListItem {
   id_geofence: string;
   name: string;
   member_count: number;
+  occupancy_count: number;
   created_at: string;
   invite_code: string;
   role: 'owner' | 'member';
@@ -137,6 +402,86 @@ export interface Database {
         };
         Update: Partial<Omit<GeofenceMember, 'id_geofence' | 'id_user'>>;
       };
+      location_history: {
+        Row: LocationHistoryPoint;
+        Insert: Omit<LocationHistoryPoint, 'id' | 'received_at'> & {
+          id?: string;
+          received_at?: string;
+        };
+        Update: never;
+      };
+      presence_events: {
+        Row: PresenceEvent;
+        Insert: Omit<PresenceEvent, 'id' | 'created_at'> & {
+          id?: string;
+          created_at?: string;
+        };
+        Update: never;
+      };
+      occupancy_events: {
+        Row: OccupancyEvent;
+        Insert: Omit<OccupancyEvent, 'id' | 'created_at'> & {
+          id?: string;
+          created_at?: string;
+        };
+        Update: never;
+      };
+      push_subscriptions: {
+        Row: PushSubscriptionRecord;
+        Insert: Omit<PushSubscriptionRecord, 'id' | 'created_at' | 'last_used_at' | 'device_name'> & {
+          id?: string;
+          device_name?: string;
+          created_at?: string;
+          last_used_at?: string | null;
+        };
+        Update: Partial<Omit<PushSubscriptionRecord, 'id'>>;
+      };
+      notification_preferences: {
+        Row: NotificationPreferences;
+        Insert: Pick<NotificationPreferences, 'id_geofence' | 'id_user'> & Partial<NotificationPreferences>;
+        Update: Partial<Omit<NotificationPreferences, 'id_geofence' | 'id_user'>>;
+      };
+      webhook_endpoints: {
+        Row: WebhookEndpoint;
+        Insert: Omit<WebhookEndpoint, 'id' | 'description' | 'enabled' | 'created_at' | 'updated_at'> & {
+          id?: string;
+          description?: string;
+          enabled?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: Partial<Omit<WebhookEndpoint, 'id' | 'id_geofence'>>;
+      };
+      webhook_deliveries: {
+        Row: WebhookDelivery;
+        Insert: Pick<WebhookDelivery, 'endpoint_id' | 'id_geofence' | 'event_id' | 'event_type' | 'payload'> & Partial<WebhookDelivery>;
+        Update: Partial<Omit<WebhookDelivery, 'id' | 'endpoint_id'>>;
+      };
+      personal_access_tokens: {
+        Row: PersonalAccessToken;
+        Insert: Omit<PersonalAccessToken, 'id' | 'expires_at' | 'last_used_at' | 'created_at'> & {
+          id?: string;
+          expires_at?: string | null;
+          last_used_at?: string | null;
+          created_at?: string;
+        };
+        Update: Partial<Pick<PersonalAccessToken, 'last_used_at'>>;
+      };
+      tracking_pauses: {
+        Row: TrackingPause;
+        Insert: Pick<TrackingPause, 'id_user'> & Partial<TrackingPause>;
+        Update: Partial<Omit<TrackingPause, 'id_user'>>;
+      };
+      job_runs: {
+        Row: JobRun;
+        Insert: Pick<JobRun, 'job_name' | 'trigger'> & Partial<JobRun>;
+        Update: Partial<Omit<JobRun, 'id' | 'job_name' | 'trigger'>>;
+      };
+      job_locks: {
+        Row: JobLock;
+        Insert: JobLock;
+        Update: Partial<Omit<JobLock, 'job_name'>>;
+      };
       // Keep existing members table for backward compatibility
       members: {
         Row: Member;
@@ -226,6 +571,8 @@ export interface CreateGeofenceFormProps {
   onSubmit: (data: CreateGeofenceRequest) => Promise<void>;
   isLoading?: boolean;
   onCancel?: () => void;
+  // Field errors returned by the server action
+  fieldErrors?: Record<string, string>;
 }
 
 export interface CreateGeofenceModalProps {
@@ -237,7 +584,7 @@ export interface CreateGeofenceModalProps {
 export interface GeofenceDetailsProps {
   geofence: GeofenceWithMembers;
   currentUserId: string;
-  onStatusUpdate?: (status: 'IN_ROOM' | 'AWAY') => Promise<void>;
+  onStatusUpdate?: (status: string, expiresAt?: string | null) => Promise<void>;
   onEditGeofence?: () => void;
   onDeleteGeofence?: () => void;
   onManageMembers?: () => void;
@@ -0,0 +1,123 @@
+/**
+ * Webhook destination checks
+ *
+ * Webhook URLs are chosen by geofence owners but fetched by the server, so
+ * they must not reach the server's own network: loopback, private and
+ * link-local ranges, and cloud metadata endpoints are refused. Hostnames are
+ * checked when a URL is saved, and the addresses they resolve to are checked
+ * again before every delivery (see webhooks.ts), since DNS can change.
+ */
+
+const BLOCKED_HOSTNAMES = ['localhost', 'metadata.google.internal', 'metadata'];
+const BLOCKED_HOSTNAME_SUFFIXES = ['.localhost', '.local', '.internal', '.home.arpa'];
+
+// [network, prefix length] for IPv4 ranges that are not publicly routable
+const BLOCKED_IPV4_RANGES: Array<[string, number]> = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4]
+];
+
+function parseIpv4(address: string): number | null {
+  const parts = address.split('.');
+  if (parts.length !== 4 || !parts.every(part => /^\d{1,3}$/.test(part) && Number(part) <= 255)) {
+    return null;
+  }
+
+  return parts.reduce((value, part) => value * 256 + Number(part), 0);
+}
+
+// The eight 16-bit groups of an IPv6 address, including one ending in dotted IPv4
+function parseIpv6(address: string): number[] | null {
+  let text = address.toLowerCase().split('%')[0];
+
+  const embedded = text.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (embedded) {
+    const ipv4 = parseIpv4(embedded[2]);
+    if (ipv4 === null) {
+      return null;
+    }
+    text = `${embedded[1]}${(ipv4 >>> 16).toString(16)}:${(ipv4 & 0xffff).toString(16)}`;
+  }
+
+  const halves = text.split('::');
+  if (halves.length > 2) {
+    return null;
+  }
+
+  const toGroups = (half: string) => (half ? half.split(':') : []);
+  const head = toGroups(halves[0]);
+  const tail = halves.length === 2 ? toGroups(halves[1]) : [];
+  const missing = 8 - head.length - tail.length;
+
+  if ((halves.length === 2 ? missing < 1 : missing !== 0) || ![...head, ...tail].every(group => /^[0-9a-f]{1,4}$/.test(group))) {
+    return null;
+  }
+
+  return [...head, ...Array(halves.length === 2 ? missing : 0).fill('0'), ...tail].map(group => parseInt(group, 16));
+}
+
+/**
+ * Whether an IP address may be sent webhooks: false for loopback, private,
+ * link-local, multicast and other non-public ranges, and for text that is not
+ * an IP address at all
+ */
+export function isPublicIpAddress(address: string): boolean {
+  const ipv4 = parseIpv4(address);
+  if (ipv4 !== null) {
+    return !BLOCKED_IPV4_RANGES.some(([network, prefix]) => {
+      const size = 2 ** (32 - prefix);
+      return Math.floor(ipv4 / size) === Math.floor(parseIpv4(network)! / size);
+    });
+  }
+
+  const groups = parseIpv6(address);
+  if (!groups) {
+    return false;
+  }
+
+  // IPv4-mapped (::ffff:a.b.c.d) and NAT64 (64:ff9b::a.b.c.d) addresses are judged by their IPv4 part
+  const isMapped = groups.slice(0, 5).every(group => group === 0) && groups[5] === 0xffff;
+  const isNat64 = groups[0] === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every(group => group === 0);
+  if (isMapped || isNat64) {
+    return isPublicIpAddress(`${groups[6] >> 8}.${groups[6] & 0xff}.${groups[7] >> 8}.${groups[7] & 0xff}`);
+  }
+
+  const [first] = groups;
+  const isUnspecifiedOrLoopback = groups.slice(0, 7).every(group => group === 0) && groups[7] <= 1;
+  const isUniqueLocal = (first & 0xfe00) === 0xfc00;
+  const isLinkLocal = (first & 0xffc0) === 0xfe80;
+  const isMulticast = (first & 0xff00) === 0xff00;
+
+  return !(isUnspecifiedOrLoopback || isUniqueLocal || isLinkLocal || isMulticast);
+}
+
+/**
+ * Whether a URL's hostname may be saved as a webhook destination
+ *
+ * Addresses written out in the URL are checked here; names are checked
+ * against their resolved addresses at delivery time.
+ */
+export function isAllowedWebhookHost(hostname: string): boolean {
+  // URL keeps IPv6 literals in brackets and may end a name with the root dot
+  const host = hostname.toLowerCase().replace(/^\[(.*)\]$/, '$1').replace(/\.$/, '');
+
+  if (!host || BLOCKED_HOSTNAMES.includes(host) || BLOCKED_HOSTNAME_SUFFIXES.some(suffix => host.endsWith(suffix))) {
+    return false;
+  }
+
+  if (parseIpv4(host) !== null || host.includes(':')) {
+    return isPublicIpAddress(host);
+  }
+
+  // A name without a dot only resolves on a local network
+  return host.includes('.');
+}
@@ -0,0 +1,418 @@
+import { createHmac, randomBytes, randomUUID } from 'crypto';
+import { lookup } from 'dns/promises';
+import { after } from 'next/server';
+import type { AdminClient } from './supabase/client';
+import { findStatusOption, getStatusOptions, isPresentStatus } from './status-options';
+import { isAllowedWebhookHost, isPublicIpAddress } from './webhook-hosts';
+import type { Geofence, PresenceEvent, WebhookDelivery, WebhookEndpoint, WebhookEventType } from './types';
+
+/**
+ * Outgoing webhooks
+ *
+ * Geofence owners register URLs that receive a JSON POST for the events they
+ * choose. Deliveries are signed the way Svix signs ours from Clerk, so a
+ * receiver can verify them with any Svix library: the webhook-signature
+ * header is "v1,<base64 HMAC-SHA256 of id.timestamp.body>" keyed with the
+ * endpoint secret. Events are queued as delivery rows and sent once the
+ * response has gone out, so a slow endpoint never holds up the request that
+ * caused the event; the retry-webhooks job sends anything left over and
+ * retries failures with exponential backoff. A delivery that still fails
+ * after MAX_WEBHOOK_ATTEMPTS is kept as failed in the geofence's delivery log,
+ * where its owner can send it again.
+ */
+
+type WebhookStatusEvent = Pick<PresenceEvent, 'id_geofence' | 'id_user' | 'from_status' | 'to_status' | 'occurred_at' | 'source'>;
+
+export interface WebhookEnvelope {
+  id: string;
+  type: WebhookEventType;
+  timestamp: string;
+  geofence: { id_geofence: string; name: string };
+  data: Record<string, unknown>;
+}
+
+export interface WebhookEndpointInput {
+  url: string;
+  description: string;
+  events: WebhookEventType[];
+}
+
+export const MAX_WEBHOOK_ATTEMPTS = 6;
+
+const WEBHOOK_TIMEOUT_MS = 10000;
+const RETRY_BASE_SECONDS = 60;
+const RETRY_MAX_SECONDS = 6 * 60 * 60;
+const MAX_ERROR_LENGTH = 500;
+
+/**
+ * Create a signing secret in the whsec_<base64> format Svix libraries accept
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('base64')}`;
+}
+
+/**
+ * Sign a delivery body for the webhook-signature header
+ */
+export function signWebhookPayload(secret: string, id: string, timestamp: number, body: string): string {
+  const key = Buffer.from(secret.replace(/^whsec_/, ''), 'base64');
+  const signature = createHmac('sha256', key).update(`${id}.${timestamp}.${body}`).digest('base64');
+  return `v1,${signature}`;
+}
+
+/**
+ * Seconds to wait before retrying after a failed attempt: 1m, 4m, 16m, ~1h, ~4h, capped at 6h
+ */
+export function getRetryDelaySeconds(attemptCount: number): number {
+  return Math.min(RETRY_BASE_SECONDS * 4 ** Math.max(attemptCount - 1, 0), RETRY_MAX_SECONDS);
+}
+
+/**
+ * Refuse to send to an endpoint whose host is, or now resolves to, a
+ * non-public address
+ */
+async function checkWebhookDestination(url: string): Promise<void> {
+  const { hostname } = new URL(url);
+
+  if (!isAllowedWebhookHost(hostname)) {
+    throw new Error('Webhook host is not allowed');
+  }
+
+  const addresses = await lookup(hostname.replace(/^\[(.*)\]$/, '$1'), { all: true });
+
+  if (addresses.length === 0 || addresses.some(({ address }) => !isPublicIpAddress(address))) {
+    throw new Error('Webhook host resolves to a non-public address');
+  }
+}
+
+/**
+ * POST one delivery to its endpoint and record the outcome
+ *
+ * A 2xx response marks the delivery succeeded. Anything else schedules the
+ * next attempt, until MAX_WEBHOOK_ATTEMPTS have been made.
+ */
+export async function attemptWebhookDelivery(
+  supabase: AdminClient,
+  delivery: Pick<WebhookDelivery, 'id' | 'event_id' | 'payload' | 'attempt_count'>,
+  endpoint: Pick<WebhookEndpoint, 'url' | 'secret'>
+): Promise<boolean> {
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const attemptCount = delivery.attempt_count + 1;
+  const attemptedAt = new Date();
+
+  let responseStatus: number | null = null;
+  let errorMessage: string | null = null;
+
+  try {
+    await checkWebhookDestination(endpoint.url);
+
+    const response = await fetch(endpoint.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'GeoDorm-Webhooks/1.0',
+        'webhook-id': delivery.event_id,
+        'webhook-timestamp': timestamp.toString(),
+        'webhook-signature': signWebhookPayload(endpoint.secret, delivery.event_id, timestamp, body)
+      },
+      body,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS)
+    });
+
+    responseStatus = response.status;
+    if (!response.ok) {
+      errorMessage = `HTTP ${response.status}`;
+    }
+  } catch (error) {
+    errorMessage = error instanceof Error ? error.message : 'Request failed';
+  }
+
+  const succeeded = errorMessage === null;
+  const exhausted = !succeeded && attemptCount >= MAX_WEBHOOK_ATTEMPTS;
+
+  const { error: updateError } = await supabase
+    .from('webhook_deliveries')
+    .update({
+      status: succeeded ? 'succeeded' : exhausted ? 'failed' : 'pending',
+      attempt_count: attemptCount,
+      last_attempt_at: attemptedAt.toISOString(),
+      next_attempt_at: succeeded || exhausted
+        ? null
+        : new Date(attemptedAt.getTime() + getRetryDelaySeconds(attemptCount) * 1000).toISOString(),
+      response_status: responseStatus,
+      last_error: errorMessage?.slice(0, MAX_ERROR_LENGTH) ?? null,
+      delivered_at: succeeded ? attemptedAt.toISOString() : null
+    })
+    .eq('id', delivery.id);
+
+  if (updateError) {
+    console.error('Failed to record webhook delivery:', updateError);
+  }
+
+  return succeeded;
+}
+
+/**
+ * Store a delivery of an event for every enabled endpoint of a geofence that subscribes to it
+ */
+async function queueWebhookEvent(
+  supabase: AdminClient,
+  geofence: Pick<Geofence, 'id_geofence' | 'name'>,
+  type: WebhookEventType,
+  data: Record<string, unknown>
+): Promise<void> {
+  const { data: endpoints, error: endpointsError } = await supabase
+    .from('webhook_endpoints')
+    .select('id')
+    .eq('id_geofence', geofence.id_geofence)
+    .eq('enabled', true)
+    .contains('events', [type]);
+
+  if (endpointsError) {
+    throw endpointsError;
+  }
+
+  if (!endpoints || endpoints.length === 0) {
+    return;
+  }
+
+  const envelope: WebhookEnvelope = {
+    id: `evt_${randomUUID().replace(/-/g, '')}`,
+    type,
+    timestamp: new Date().toISOString(),
+    geofence: { id_geofence: geofence.id_geofence, name: geofence.name },
+    data
+  };
+
+  const { error: insertError } = await supabase
+    .from('webhook_deliveries')
+    .insert(endpoints.map(endpoint => ({
+      endpoint_id: endpoint.id,
+      id_geofence: geofence.id_geofence,
+      event_id: envelope.id,
+      event_type: type,
+      payload: envelope,
+      next_attempt_at: envelope.timestamp
+    })));
+
+  if (insertError) {
+    throw insertError;
+  }
+}
+
+/**
+ * Send the due deliveries of these geofences after the response has been
+ * sent. Outside a request, such as the jobs CLI, they wait for the
+ * retry-webhooks job instead.
+ */
+function deliverAfterResponse(supabase: AdminClient, geofenceIds: string[]): void {
+  try {
+    after(async () => {
+      for (const geofenceId of geofenceIds) {
+        try {
+          await retryDueWebhookDeliveries(supabase, { geofenceId });
+        } catch (error) {
+          console.error(`Error delivering webhooks for geofence ${geofenceId}:`, error);
+        }
+      }
+    });
+  } catch {
+    // Not in a request
+  }
+}
+
+/**
+ * Queue an event for a geofence's subscribed endpoints and deliver it once the response is sent
+ */
+export async function sendWebhookEvent(
+  supabase: AdminClient,
+  geofence: Pick<Geofence, 'id_geofence' | 'name'>,
+  type: WebhookEventType,
+  data: Record<string, unknown>
+): Promise<void> {
+  try {
+    await queueWebhookEvent(supabase, geofence, type, data);
+    deliverAfterResponse(supabase, [geofence.id_geofence]);
+  } catch (error) {
+    console.error(`Error sending ${type} webhook:`, error);
+  }
+}
+
+/**
+ * Send pending deliveries whose next attempt is due
+ *
+ * Each delivery is claimed before it is sent, so runs that overlap never
+ * send it twice. Deliveries to endpoints that have since been disabled are
+ * marked failed.
+ *
+ * @returns The number of deliveries attempted
+ */
+export async function retryDueWebhookDeliveries(
+  supabase: AdminClient,
+  options: { geofenceId?: string; limit?: number } = {}
+): Promise<number> {
+  let query = supabase
+    .from('webhook_deliveries')
+    .select('*, webhook_endpoints(*)')
+    .eq('status', 'pending')
+    .lte('next_attempt_at', new Date().toISOString())
+    .order('next_attempt_at', { ascending: true })
+    .limit(options.limit ?? 50);
+
+  if (options.geofenceId) {
+    query = query.eq('id_geofence', options.geofenceId);
+  }
+
+  const { data: due, error } = await query;
+
+  if (error) {
+    throw error;
+  }
+
+  const deliveries = (due || []) as Array<WebhookDelivery & { webhook_endpoints: WebhookEndpoint | null }>;
+  let attempted = 0;
+
+  await Promise.all(deliveries.map(async delivery => {
+    const endpoint = delivery.webhook_endpoints;
+
+    // Push the next attempt past this one's timeout; whoever moves it first sends
+    const { data: claimed, error: claimError } = await supabase
+      .from('webhook_deliveries')
+      .update({ next_attempt_at: new Date(Date.now() + 2 * WEBHOOK_TIMEOUT_MS).toISOString() })
+      .eq('id', delivery.id)
+      .eq('status', 'pending')
+      .eq('next_attempt_at', delivery.next_attempt_at!)
+      .select('id');
+
+    if (claimError || !claimed || claimed.length === 0) {
+      return;
+    }
+
+    attempted++;
+
+    if (!endpoint?.enabled) {
+      await supabase
+        .from('webhook_deliveries')
+        .update({ status: 'failed', next_attempt_at: null, last_error: 'Endpoint disabled' })
+        .eq('id', delivery.id);
+      return;
+    }
+
+    await attemptWebhookDelivery(supabase, delivery, endpoint);
+  }));
+
+  return attempted;
+}
+
+/**
+ * Send member.status_changed for committed status changes
+ *
+ * Every transition is delivered, unlike push alerts, so receivers such as
+ * Home Assistant can keep an exact copy of each member's state.
+ */
+export async function sendStatusChangeWebhooks(supabase: AdminClient, events: WebhookStatusEvent[]): Promise<void> {
+  if (events.length === 0) {
+    return;
+  }
+
+  try {
+    const geofenceIds = [...new Set(events.map(event => event.id_geofence))];
+    const userIds = [...new Set(events.map(event => event.id_user))];
+
+    const [{ data: geofences }, { data: users }] = await Promise.all([
+      supabase.from('geofences').select('*').in('id_geofence', geofenceIds),
+      supabase.from('users').select('id_user, full_name, email').in('id_user', userIds)
+    ]);
+
+    const ordered = [...events].sort((a, b) => new Date(a.occurred_at).getTime() - new Date(b.occurred_at).getTime());
+
+    for (const event of ordered) {
+      const geofence = (geofences || []).find(g => g.id_geofence === event.id_geofence);
+      if (!geofence) continue;
+
+      const statusOptions = getStatusOptions(geofence);
+      const describe = (key: string) => ({
+        key,
+        label: findStatusOption(key, statusOptions)?.label ?? key,
+        present: isPresentStatus(key, statusOptions)
+      });
+
+      await queueWebhookEvent(supabase, geofence, 'member.status_changed', {
+        member: describeMember(event.id_user, users),
+        from_status: describe(event.from_status),
+        to_status: describe(event.to_status),
+        source: event.source ?? null,
+        occurred_at: event.occurred_at,
+        occupancy_count: geofence.occupancy_count ?? null
+      });
+    }
+
+    deliverAfterResponse(supabase, geofenceIds);
+  } catch (error) {
+    console.error('Error sending status change webhooks:', error);
+  }
+}
+
+/**
+ * Send member.joined or member.left for a membership change
+ */
+export async function sendMembershipWebhook(
+  supabase: AdminClient,
+  geofenceId: string,
+  type: 'member.joined' | 'member.left',
+  member: { id_user: string; role: 'owner' | 'member' },
+  removedBy?: string
+): Promise<void> {
+  try {
+    const [{ data: geofence }, { data: users }] = await Promise.all([
+      supabase.from('geofences').select('id_geofence, name').eq('id_geofence', geofenceId).single(),
+      supabase.from('users').select('id_user, full_name, email').eq('id_user', member.id_user)
+    ]);
+
+    if (!geofence) {
+      return;
+    }
+
+    await sendWebhookEvent(supabase, geofence, type, {
+      member: { ...describeMember(member.id_user, users), role: member.role },
+      ...(type === 'member.left' ? { removed_by: removedBy && removedBy !== member.id_user ? removedBy : null } : {}),
+      occurred_at: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error(`Error sending ${type} webhook:`, error);
+  }
+}
+
+/**
+ * Send geofence.updated with the geofence's new settings
+ */
+export async function sendGeofenceUpdatedWebhook(
+  supabase: AdminClient,
+  geofence: Geofence,
+  changedFields: string[]
+): Promise<void> {
+  await sendWebhookEvent(supabase, geofence, 'geofence.updated', {
+    changed_fields: changedFields,
+    settings: {
+      name: geofence.name,
+      shape: geofence.shape,
+      center_latitude: geofence.center_latitude,
+      center_longitude: geofence.center_longitude,
+      radius_meters: geofence.radius_meters,
+      polygon_vertices: geofence.polygon_vertices ?? null,
+      status_options: getStatusOptions(geofence)
+    },
+    occurred_at: new Date().toISOString()
+  });
+}
+
+// Receivers get a display name alongside the stable user ID
+function describeMember(
+  userId: string,
+  users: Array<{ id_user: string; full_name?: string | null; email: string }> | null
+): { id_user: string; name: string } {
+  const user = (users || []).find(u => u.id_user === userId);
+  return { id_user: userId, name: user?.full_name || user?.email?.split('@')[0] || 'Unknown' };
+}
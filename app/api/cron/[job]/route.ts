@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { timingSafeEqual } from 'crypto';
+import { createAdminClient } from '@/app/(dashboard)/(lib)/supabase/client';
+import { findScheduledJob, runScheduledJob } from '@/app/(dashboard)/(lib)/scheduled-jobs';
+
+const CRON_SECRET = process.env.CRON_SECRET;
+
+// Purging history can take a while on large tables
+export const maxDuration = 60;
+
+// Vercel Cron sends the project's CRON_SECRET as a bearer token
+function isAuthorizedCronRequest(request: NextRequest): boolean {
+  if (!CRON_SECRET) {
+    return false;
+  }
+
+  const expected = Buffer.from(`Bearer ${CRON_SECRET}`);
+  const actual = Buffer.from(request.headers.get('authorization') ?? '');
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Run one scheduled job. The schedules live in vercel.json.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ job: string }> }
+) {
+  if (!CRON_SECRET) {
+    console.error('Missing CRON_SECRET environment variable');
+    return NextResponse.json({ error: 'Cron jobs are not configured' }, { status: 500 });
+  }
+
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { job: jobName } = await params;
+  const job = findScheduledJob(jobName);
+
+  if (!job) {
+    return NextResponse.json({ error: `Unknown job: ${jobName}` }, { status: 404 });
+  }
+
+  try {
+    const run = await runScheduledJob(createAdminClient(), job, 'cron');
+    return NextResponse.json({ data: run }, { status: run.status === 'failed' ? 500 : 200 });
+  } catch (error) {
+    console.error(`Error running scheduled job ${jobName}:`, error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,96 +1,145 @@
 // app/api/location-update/route.ts
 import { NextRequest, NextResponse } from 'next/server';
 import { createAdminClient } from '@/app/(dashboard)/(lib)/supabase/client';
-import { determineStatusChange } from '@/app/(dashboard)/(lib)/geofence';
-import type { Geofence } from '@/app/(dashboard)/(lib)/types';
-
-// Simplified type for this file
-interface LocationData {
-  device_id: string;
-  latitude: number;
-  longitude: number;
-  timestamp: string;
+import { OverlandLocationSchema, SimpleLocationSchema, toIssueList } from '@/app/(dashboard)/(lib)/api-schemas';
+import { extractDeviceToken } from '@/app/(dashboard)/(lib)/device-tokens';
+import { authenticateDevice, processDeviceLocations } from '@/app/(dashboard)/(lib)/location-pipeline';
+import type { LocationPoint, RegisteredDevice } from '@/app/(dashboard)/(lib)/location-pipeline';
+import { dispatchPresenceEvents } from '@/app/(dashboard)/(lib)/presence-dispatch';
+import { z } from 'zod';
+
+type OverlandLocation = z.infer<typeof OverlandLocationSchema>;
+type SimpleLocation = z.infer<typeof SimpleLocationSchema>;
+type ValidationIssue = ReturnType<typeof toIssueList>[number];
+
+// Only the envelope of an Overland batch; each point is validated on its own
+const OverlandEnvelopeSchema = z.looseObject({ locations: z.array(z.unknown()) });
+
+const fromOverland = (location: OverlandLocation): LocationPoint => ({
+  device_id: location.properties.device_id,
+  latitude: location.geometry.coordinates[1],
+  longitude: location.geometry.coordinates[0],
+  timestamp: location.properties.timestamp,
+  accuracy_meters: location.properties.horizontal_accuracy,
+});
+
+const fromSimple = (location: SimpleLocation): LocationPoint => ({
+  device_id: location.device_id,
+  latitude: location.latitude,
+  longitude: location.longitude,
+  timestamp: location.timestamp,
+  accuracy_meters: location.accuracy_meters ?? location.accuracy,
+});
+
+const isOverlandShaped = (loc: unknown) =>
+  typeof loc === 'object' && loc !== null && ('geometry' in loc || 'properties' in loc);
+
+/**
+ * Normalize an Overland batch or a single simple-format point into a list of
+ * valid points, oldest first. Points that fail schema validation are dropped
+ * and their issues returned.
+ */
+function parseLocationBatch(body: unknown): { points: LocationPoint[]; issues: ValidationIssue[] } {
+  const points: LocationPoint[] = [];
+  const issues: ValidationIssue[] = [];
+  const batch = OverlandEnvelopeSchema.safeParse(body);
+  const isBatch = batch.success;
+  const rawPoints = batch.success ? batch.data.locations : [body];
+
+  rawPoints.forEach((loc, index) => {
+    const skip = (error: z.ZodError) => {
+      const prefix = isBatch ? `locations.${index}` : '';
+      const pointIssues = toIssueList(error).map(issue => ({
+        path: [prefix, issue.path].filter(Boolean).join('.'),
+        message: issue.message
+      }));
+      issues.push(...pointIssues);
+      // The point itself carries a position, so only where it failed is logged
+      console.warn('Skipping malformed location point:', pointIssues.map(issue => issue.path || '(root)').join(', '));
+    };
+
+    let point: LocationPoint;
+
+    // Handle Overland GPS format or simple format
+    if (isOverlandShaped(loc)) {
+      const parsed = OverlandLocationSchema.safeParse(loc);
+      if (!parsed.success) {
+        return skip(parsed.error);
+      }
+
+      point = fromOverland(parsed.data);
+    } else {
+      const parsed = SimpleLocationSchema.safeParse(loc);
+      if (!parsed.success) {
+        return skip(parsed.error);
+      }
+
+      point = fromSimple(parsed.data);
+    }
+
+    // A negative or missing accuracy means the tracker did not report one
+    if (point.accuracy_meters !== undefined && point.accuracy_meters < 0) {
+      point.accuracy_meters = undefined;
+    }
+
+    points.push(point);
+  });
+
+  return {
+    points: points.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()),
+    issues
+  };
 }
 
 /**
  * POST handler for location updates from external GPS trackers
+ *
+ * Requests must carry the device's access token as ?token= or a Bearer header.
+ * The body must match LocationUpdateRequest in the OpenAPI document.
+ * Every point in the batch is replayed through the shared location pipeline in
+ * timestamp order, and committed status changes update occupancy and are
+ * pushed to the other members of each geofence. Overland deletes its queued points once it sees
+ * { result: 'ok' }, so that response is only sent after all state is stored.
  */
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
-    let locationData: LocationData;
+    const accessToken = extractDeviceToken(request);
 
-    // Handle Overland GPS format or simple format
-    if (body.locations && Array.isArray(body.locations) && body.locations.length > 0) {
-      const loc = body.locations[0];
-      locationData = {
-        device_id: loc.properties.device_id,
-        latitude: loc.geometry.coordinates[1],
-        longitude: loc.geometry.coordinates[0],
-        timestamp: loc.properties.timestamp,
-      };
-    } else {
-      locationData = body;
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Device access token required' }, { status: 401 });
     }
-    
-    // Create an admin client to bypass RLS for this system-level operation
-    const supabase = createAdminClient();
 
-    // 1. Find the user associated with this device ID
-    const { data: deviceMapping } = await supabase
-      .from('device_mappings')
-      .select('id_user')
-      .eq('device_id', locationData.device_id)
-      .eq('enabled', true)
-      .single();
+    // Malformed JSON fails validation like any other bad body
+    const body = await request.json().catch(() => undefined);
+    const { points, issues } = parseLocationBatch(body);
 
-    if (!deviceMapping) {
-      return NextResponse.json({ error: 'Device not registered or disabled' }, { status: 404 });
+    if (points.length === 0) {
+      return NextResponse.json({ error: 'No valid location points in request', issues }, { status: 400 });
     }
 
-    // 2. Get all geofences this user is a member of
-    const { data: memberships } = await supabase
-      .from('geofence_members')
-      .select('*, geofences(*)')
-      .eq('id_user', deviceMapping.id_user);
-
-    if (!memberships || memberships.length === 0) {
-      // Still update the device's last seen time even if no geofences
-      await supabase
-        .from('device_mappings')
-        .update({ last_location_update: new Date().toISOString() })
-        .eq('device_id', locationData.device_id);
-      return NextResponse.json({ result: 'ok', message: 'No geofences to process.' });
-    }
+    // Create an admin client to bypass RLS for this system-level operation
+    const supabase = createAdminClient();
+
+    const deviceIds = [...new Set(points.map(p => p.device_id))];
+
+    // Check every device before storing anything, so a rejected batch leaves no partial state
+    const devices: RegisteredDevice[] = [];
+    for (const deviceId of deviceIds) {
+      const auth = await authenticateDevice(supabase, deviceId, accessToken);
 
-    // 3. Process each geofence
-    for (const member of memberships) {
-      const geofence = member.geofences as Geofence;
-      
-      const result = determineStatusChange(
-        { latitude: locationData.latitude, longitude: locationData.longitude },
-        geofence,
-        member.status as 'IN_ROOM' | 'AWAY'
-      );
-
-      if (result.status_should_change) {
-        await supabase
-          .from('geofence_members')
-          .update({
-            status: result.new_status,
-            last_updated: new Date().toISOString(),
-            last_gps_update: locationData.timestamp,
-          })
-          .eq('id_geofence', member.id_geofence)
-          .eq('id_user', member.id_user);
+      if (!auth.ok) {
+        return NextResponse.json({ error: auth.error }, { status: auth.status });
       }
+
+      devices.push(auth.device);
     }
 
-    // 4. Update the device's last seen time
-    await supabase
-      .from('device_mappings')
-      .update({ last_location_update: new Date().toISOString() })
-      .eq('device_id', locationData.device_id);
+    for (const device of devices) {
+      const committed = await processDeviceLocations(supabase, device, points.filter(p => p.device_id === device.device_id));
+
+      // Update occupancy and tell the other members about arrivals and departures
+      await dispatchPresenceEvents(supabase, committed);
+    }
 
     return NextResponse.json({ result: 'ok' });
 
@@ -98,4 +147,4 @@ export async function POST(request: NextRequest) {
     console.error('Location update error:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,19 @@
+// app/api/openapi.json/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { buildOpenApiDocument } from '@/app/(dashboard)/(lib)/openapi';
+
+/**
+ * GET /api/openapi.json
+ *
+ * Serves the OpenAPI 3.1 document for every API route, built from the same
+ * schemas the routes validate with. Public so clients can be generated
+ * without credentials.
+ */
+export async function GET(request: NextRequest) {
+  return NextResponse.json(buildOpenApiDocument(request.nextUrl.origin), {
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Cache-Control': 'public, max-age=300'
+    }
+  });
+}
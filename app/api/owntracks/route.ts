@@ -0,0 +1,253 @@
+// app/api/owntracks/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { createAdminClient } from '@/app/(dashboard)/(lib)/supabase/client';
+import type { AdminClient } from '@/app/(dashboard)/(lib)/supabase/client';
+import { OwnTracksLocationSchema, OwnTracksMessageSchema, toIssueList } from '@/app/(dashboard)/(lib)/api-schemas';
+import type { OwnTracksResponse } from '@/app/(dashboard)/(lib)/api-schemas';
+import { extractBasicCredentials } from '@/app/(dashboard)/(lib)/device-tokens';
+import { authenticateDevice, processDeviceLocations } from '@/app/(dashboard)/(lib)/location-pipeline';
+import type { LocationPoint, RegisteredDevice } from '@/app/(dashboard)/(lib)/location-pipeline';
+import { dispatchPresenceEvents } from '@/app/(dashboard)/(lib)/presence-dispatch';
+import { getStatusOptions, isPlaceholderStatus, isPresentStatus } from '@/app/(dashboard)/(lib)/status-options';
+import { sharesPosition } from '@/app/(dashboard)/(lib)/privacy';
+import type { Geofence, User } from '@/app/(dashboard)/(lib)/types';
+import type { z } from 'zod';
+
+type OwnTracksMessage = z.infer<typeof OwnTracksMessageSchema>;
+
+// Cap on friend transitions returned in one response
+const MAX_TRANSITIONS = 20;
+
+/**
+ * Map an OwnTracks location or transition message to a pipeline point.
+ * Both carry the device position; other message types are ignored.
+ */
+function parseOwnTracksMessage(body: OwnTracksMessage, deviceId: string): LocationPoint | null {
+  if (body._type !== 'location' && body._type !== 'transition') {
+    return null;
+  }
+
+  const parsed = OwnTracksLocationSchema.safeParse(body);
+  if (!parsed.success) {
+    console.warn('Skipping malformed OwnTracks message:', body);
+    return null;
+  }
+
+  const { lat, lon, tst, acc } = parsed.data;
+
+  return {
+    device_id: deviceId,
+    latitude: lat,
+    longitude: lon,
+    timestamp: new Date(tst * 1000).toISOString(),
+    accuracy_meters: acc !== undefined && acc >= 0 ? acc : undefined,
+  };
+}
+
+// OwnTracks shows a two-character tracker ID on the map for each friend
+function toTrackerId(name: string | undefined): string {
+  const initials = (name || '?').split(/\s+/).filter(Boolean).map(part => part[0]).join('');
+  return (initials.length >= 2 ? initials : (name || '??')).slice(0, 2).toUpperCase();
+}
+
+const toEpochSeconds = (timestamp: string) => Math.floor(new Date(timestamp).getTime() / 1000);
+
+/**
+ * Build the response messages for a device: a card for each user sharing a
+ * geofence, the last known location of those who share it exactly, their transitions since the device last
+ * reported, and optionally the user's geofences as OwnTracks waypoints.
+ */
+async function buildOwnTracksResponse(
+  supabase: AdminClient,
+  device: RegisteredDevice,
+  includeWaypoints: boolean
+): Promise<OwnTracksResponse> {
+  const messages: OwnTracksResponse = [];
+
+  const { data: memberships, error: membershipsError } = await supabase
+    .from('geofence_members')
+    .select('*, geofences(*)')
+    .eq('id_user', device.id_user);
+
+  if (membershipsError) {
+    throw membershipsError;
+  }
+
+  const geofences = (memberships || []).map(m => m.geofences as Geofence).filter(Boolean);
+  const geofenceIds = geofences.map(g => g.id_geofence);
+
+  if (geofenceIds.length === 0) {
+    return messages;
+  }
+
+  const { data: friends, error: friendsError } = await supabase
+    .from('geofence_members')
+    .select('id_user, privacy, last_latitude, last_longitude, last_gps_accuracy_meters, last_gps_update, users(full_name)')
+    .in('id_geofence', geofenceIds)
+    .neq('id_user', device.id_user)
+    .overrideTypes<Array<{ users: Pick<User, 'full_name'> | null }>>();
+
+  if (friendsError) {
+    throw friendsError;
+  }
+
+  // A friend may share several geofences with the user; positions come only
+  // from memberships where the friend shares their exact position
+  const friendNames = new Map<string, string | undefined>();
+  const friendPositions = new Map<string, NonNullable<typeof friends>[number]>();
+
+  for (const friend of friends || []) {
+    friendNames.set(friend.id_user, friend.users?.full_name);
+
+    if (!sharesPosition(friend.privacy) || friend.last_latitude == null || friend.last_longitude == null || !friend.last_gps_update) {
+      continue;
+    }
+
+    const known = friendPositions.get(friend.id_user);
+    if (!known || new Date(friend.last_gps_update) > new Date(known.last_gps_update!)) {
+      friendPositions.set(friend.id_user, friend);
+    }
+  }
+
+  for (const [friendId, name] of friendNames) {
+    const topic = `owntracks/geodorm/${friendId}`;
+    const tid = toTrackerId(name);
+
+    messages.push({ _type: 'card', name: name || 'Unknown User', tid, topic });
+
+    const latest = friendPositions.get(friendId);
+
+    if (latest) {
+      messages.push({
+        _type: 'location',
+        lat: latest.last_latitude,
+        lon: latest.last_longitude,
+        ...(latest.last_gps_accuracy_meters != null ? { acc: Math.round(latest.last_gps_accuracy_meters) } : {}),
+        tst: toEpochSeconds(latest.last_gps_update!),
+        tid,
+        topic,
+      });
+    }
+  }
+
+  // Transitions are only relayed once, so the first contact starts from now
+  if (device.last_location_update && friendNames.size > 0) {
+    const { data: events, error: eventsError } = await supabase
+      .from('presence_events')
+      .select('*')
+      .in('id_geofence', geofenceIds)
+      .neq('id_user', device.id_user)
+      .gt('occurred_at', device.last_location_update)
+      .order('occurred_at', { ascending: true })
+      .limit(MAX_TRANSITIONS);
+
+    if (eventsError) {
+      throw eventsError;
+    }
+
+    for (const event of events || []) {
+      // Pausing is not a departure
+      if (isPlaceholderStatus(event.to_status)) {
+        continue;
+      }
+
+      const geofence = geofences.find(g => g.id_geofence === event.id_geofence);
+      messages.push({
+        _type: 'transition',
+        event: isPresentStatus(event.to_status, getStatusOptions(geofence)) ? 'enter' : 'leave',
+        desc: geofence?.name,
+        wtst: geofence ? toEpochSeconds(geofence.created_at) : undefined,
+        // Manual changes and members not sharing their exact position carry none
+        lat: event.latitude ?? geofence?.center_latitude,
+        lon: event.longitude ?? geofence?.center_longitude,
+        tst: toEpochSeconds(event.occurred_at),
+        acc: 0,
+        t: 'c',
+        tid: toTrackerId(friendNames.get(event.id_user)),
+        topic: `owntracks/geodorm/${event.id_user}`,
+      });
+    }
+  }
+
+  // Requires "Remote configuration" to be enabled in the OwnTracks app
+  if (includeWaypoints) {
+    messages.push({
+      _type: 'cmd',
+      action: 'setWaypoints',
+      waypoints: {
+        _type: 'waypoints',
+        waypoints: geofences.map(geofence => ({
+          _type: 'waypoint',
+          desc: geofence.name,
+          lat: geofence.center_latitude,
+          lon: geofence.center_longitude,
+          rad: Math.round(geofence.radius_meters),
+          tst: toEpochSeconds(geofence.created_at),
+        })),
+      },
+    });
+  }
+
+  return messages;
+}
+
+/**
+ * POST handler for the OwnTracks HTTP protocol
+ *
+ * Set the OwnTracks UserID to the registered Device ID and the Password to the
+ * device's access token. Locations feed the same pipeline as Overland; the
+ * response is the JSON array OwnTracks expects, carrying friends' cards,
+ * locations and transitions. Geofences are sent as waypoints on the device's
+ * first report and whenever the user publishes manually.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const credentials = extractBasicCredentials(request);
+
+    if (!credentials) {
+      return NextResponse.json(
+        { error: 'Device credentials required' },
+        { status: 401, headers: { 'WWW-Authenticate': 'Basic realm="GeoDorm"' } }
+      );
+    }
+
+    const parsed = OwnTracksMessageSchema.safeParse(await request.json().catch(() => undefined));
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid OwnTracks message', issues: toIssueList(parsed.error) },
+        { status: 400 }
+      );
+    }
+
+    const body = parsed.data;
+
+    // Create an admin client to bypass RLS for this system-level operation
+    const supabase = createAdminClient();
+
+    const auth = await authenticateDevice(supabase, credentials.username, credentials.password);
+
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
+    const point = parseOwnTracksMessage(body, auth.device.device_id);
+
+    // Acknowledge other message types (waypoints, lwt, steps...) without processing
+    if (!point) {
+      return NextResponse.json([]);
+    }
+
+    const committed = await processDeviceLocations(supabase, auth.device, [point]);
+    await dispatchPresenceEvents(supabase, committed);
+
+    const includeWaypoints = !auth.device.last_location_update || body.t === 'u';
+    const messages = await buildOwnTracksResponse(supabase, auth.device, includeWaypoints);
+
+    return NextResponse.json(messages);
+
+  } catch (error) {
+    console.error('OwnTracks update error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,94 @@
+// app/api/v1/geofences/[geofenceId]/history/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { createAdminClient } from '@/app/(dashboard)/(lib)/supabase/client';
+import { apiError, authenticateApiRequest, getApiMembership } from '@/app/(dashboard)/(lib)/api-auth';
+import { PresenceHistoryQuerySchema, toIssueList } from '@/app/(dashboard)/(lib)/api-schemas';
+import type { PresenceHistoryResponse } from '@/app/(dashboard)/(lib)/api-schemas';
+
+const DEFAULT_RANGE_DAYS = 7;
+const MAX_RANGE_DAYS = 31;
+const DEFAULT_LIMIT = 100;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * GET /api/v1/geofences/{geofenceId}/history
+ *
+ * Returns status transitions in a geofence, newest first. Query parameters:
+ * from and to (ISO times, default the last 7 days, at most 31 days apart),
+ * user_id to limit to one member, and limit (default 100, at most 1000).
+ * Requires the history:read scope and membership.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ geofenceId: string }> }
+) {
+  try {
+    const { geofenceId } = await params;
+    const supabase = createAdminClient();
+
+    const auth = await authenticateApiRequest(supabase, request, 'history:read');
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const searchParams = PresenceHistoryQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+    if (!searchParams.success) {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', issues: toIssueList(searchParams.error) },
+        { status: 400 }
+      );
+    }
+
+    const to = searchParams.data.to ? new Date(searchParams.data.to) : new Date();
+    const from = searchParams.data.from ? new Date(searchParams.data.from) : new Date(to.getTime() - DEFAULT_RANGE_DAYS * DAY_MS);
+    const limit = searchParams.data.limit ?? DEFAULT_LIMIT;
+    const userId = searchParams.data.user_id;
+
+    if (from >= to) {
+      return apiError(400, 'from must be before to');
+    }
+
+    if (to.getTime() - from.getTime() > MAX_RANGE_DAYS * DAY_MS) {
+      return apiError(400, `The range can be at most ${MAX_RANGE_DAYS} days`);
+    }
+
+    const role = await getApiMembership(supabase, geofenceId, auth.userId);
+    if (!role) {
+      return apiError(404, 'Geofence not found');
+    }
+
+    let query = supabase
+      .from('presence_events')
+      .select('id, id_user, from_status, to_status, source, occurred_at')
+      .eq('id_geofence', geofenceId)
+      .gte('occurred_at', from.toISOString())
+      .lt('occurred_at', to.toISOString())
+      .order('occurred_at', { ascending: false })
+      // One extra row tells whether there is more
+      .limit(limit + 1);
+
+    if (userId) {
+      query = query.eq('id_user', userId);
+    }
+
+    const { data: events, error } = await query;
+
+    if (error) {
+      throw error;
+    }
+
+    const response: PresenceHistoryResponse = {
+      data: (events || []).slice(0, limit).map(event => ({ ...event, source: event.source ?? null })),
+      has_more: (events || []).length > limit,
+      from: from.toISOString(),
+      to: to.toISOString()
+    };
+
+    return NextResponse.json(response);
+
+  } catch (error) {
+    console.error('API presence history error:', error);
+    return apiError(500, 'Internal server error');
+  }
+}
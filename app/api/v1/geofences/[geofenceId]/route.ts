@@ -0,0 +1,82 @@
+// app/api/v1/geofences/[geofenceId]/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { createAdminClient } from '@/app/(dashboard)/(lib)/supabase/client';
+import { apiError, authenticateApiRequest, getApiMembership } from '@/app/(dashboard)/(lib)/api-auth';
+import type { GeofenceDetail } from '@/app/(dashboard)/(lib)/api-schemas';
+import { findStatusOption, getStatusOptions, isPresentStatus } from '@/app/(dashboard)/(lib)/status-options';
+import type { User } from '@/app/(dashboard)/(lib)/types';
+
+/**
+ * GET /api/v1/geofences/{geofenceId}
+ *
+ * Returns a geofence's boundary and status vocabulary with every member's
+ * current status. Requires the geofences:read scope and membership.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ geofenceId: string }> }
+) {
+  try {
+    const { geofenceId } = await params;
+    const supabase = createAdminClient();
+
+    const auth = await authenticateApiRequest(supabase, request, 'geofences:read');
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const role = await getApiMembership(supabase, geofenceId, auth.userId);
+    if (!role) {
+      return apiError(404, 'Geofence not found');
+    }
+
+    const [{ data: geofence, error: geofenceError }, { data: members, error: membersError }] = await Promise.all([
+      supabase.from('geofences').select('*').eq('id_geofence', geofenceId).single(),
+      supabase
+        .from('geofence_members')
+        .select('*, users(full_name, email)')
+        .eq('id_geofence', geofenceId)
+        .order('joined_at', { ascending: true })
+        .overrideTypes<Array<{ users: Pick<User, 'full_name' | 'email'> | null }>>()
+    ]);
+
+    if (geofenceError || membersError || !geofence) {
+      throw geofenceError || membersError;
+    }
+
+    const statusOptions = getStatusOptions(geofence);
+
+    const data: GeofenceDetail = {
+      id_geofence: geofence.id_geofence,
+      name: geofence.name,
+      shape: geofence.shape,
+      center_latitude: geofence.center_latitude,
+      center_longitude: geofence.center_longitude,
+      radius_meters: geofence.radius_meters,
+      polygon_vertices: geofence.shape === 'polygon' ? geofence.polygon_vertices ?? null : null,
+      status_options: statusOptions,
+      occupancy_count: geofence.occupancy_count ?? 0,
+      role,
+      created_at: geofence.created_at,
+      members: (members || []).map(member => ({
+        id_user: member.id_user,
+        name: member.users?.full_name || member.users?.email?.split('@')[0] || 'Unknown User',
+        role: member.role,
+        status: member.status,
+        status_label: findStatusOption(member.status, statusOptions)?.label ?? member.status,
+        present: isPresentStatus(member.status, statusOptions),
+        status_source: member.status_source ?? 'gps',
+        manual_expires_at: member.manual_expires_at ?? null,
+        last_updated: member.last_updated,
+        last_gps_update: member.last_gps_update ?? null,
+        joined_at: member.joined_at
+      }))
+    };
+
+    return NextResponse.json({ data });
+
+  } catch (error) {
+    console.error('API geofence details error:', error);
+    return apiError(500, 'Internal server error');
+  }
+}
@@ -0,0 +1,62 @@
+// app/api/v1/geofences/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { createAdminClient } from '@/app/(dashboard)/(lib)/supabase/client';
+import { apiError, authenticateApiRequest } from '@/app/(dashboard)/(lib)/api-auth';
+import type { GeofenceSummary } from '@/app/(dashboard)/(lib)/api-schemas';
+
+/**
+ * GET /api/v1/geofences
+ *
+ * Lists the geofences the token's user belongs to, newest first.
+ * Requires the geofences:read scope.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = createAdminClient();
+
+    const auth = await authenticateApiRequest(supabase, request, 'geofences:read');
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const { data: memberships, error: membershipsError } = await supabase
+      .from('geofence_members')
+      .select('id_geofence, role')
+      .eq('id_user', auth.userId);
+
+    if (membershipsError) {
+      throw membershipsError;
+    }
+
+    const geofenceIds = (memberships || []).map(membership => membership.id_geofence);
+
+    const [{ data: geofences, error: geofencesError }, { data: members, error: membersError }] = await Promise.all([
+      supabase
+        .from('geofences')
+        .select('id_geofence, name, shape, occupancy_count, created_at')
+        .in('id_geofence', geofenceIds)
+        .order('created_at', { ascending: false }),
+      supabase.from('geofence_members').select('id_geofence').in('id_geofence', geofenceIds)
+    ]);
+
+    if (geofencesError || membersError) {
+      throw geofencesError || membersError;
+    }
+
+    const data: GeofenceSummary[] = (geofences || []).map(geofence => ({
+      id_geofence: geofence.id_geofence,
+      name: geofence.name,
+      shape: geofence.shape,
+      role: memberships!.find(membership => membership.id_geofence === geofence.id_geofence)?.role ?? 'member',
+      member_count: (members || []).filter(member => member.id_geofence === geofence.id_geofence).length,
+      occupancy_count: geofence.occupancy_count ?? 0,
+      created_at: geofence.created_at
+    }));
+
+    return NextResponse.json({ data });
+
+  } catch (error) {
+    console.error('API geofence list error:', error);
+    return apiError(500, 'Internal server error');
+  }
+}
@@ -2,6 +2,7 @@ import { Webhook } from 'svix';
 import { headers } from 'next/headers';
 import { WebhookEvent } from '@clerk/nextjs/server';
 import { createAdminClient } from '../../../(dashboard)/(lib)/supabase/client';
+import { ClerkWebhookEventSchema } from '../../../(dashboard)/(lib)/api-schemas';
 
 const WEBHOOK_SECRET = process.env.CLERK_WEBHOOK_SECRET;
 
@@ -45,6 +46,14 @@ export async function POST(req: Request) {
     });
   }
 
+  // A verified payload still has to look like a Clerk event
+  if (!ClerkWebhookEventSchema.safeParse(evt).success) {
+    console.error('Malformed webhook event:', evt);
+    return new Response('Error: Malformed event', { 
+      status: 400 
+    });
+  }
+
   // Handle different webhook events
   try {
     switch (evt.type) {
@@ -8,16 +8,24 @@ import {
   ArrowLeftIcon, 
   ShareIcon,
   Cog6ToothIcon,
-  TrashIcon
+  TrashIcon,
+  BellIcon
 } from '@heroicons/react/24/outline';
 import { MemberList } from '../../(dashboard)/(components)/members/member-list';
+import { PresenceTimeline } from '../../(dashboard)/(components)/members/presence-timeline';
+import { StatusOverrideControl } from '../../(dashboard)/(components)/members/status-override-control';
+import { MemberMap } from '../../(dashboard)/(components)/members/member-map';
+import { PrivacyControl } from '../../(dashboard)/(components)/members/privacy-control';
 import { InviteShareModal } from '../../(dashboard)/(components)/modals/invite-share-modal';
 import { GeofenceSettingsModal } from '../../(dashboard)/(components)/modals/geofence-settings-modal';
 import { DeleteGeofenceModal } from '../../(dashboard)/(components)/modals/delete-geofence-modal';
 import { LeaveGeofenceModal } from '../../(dashboard)/(components)/modals/leave-geofence-modal';
+import { NotificationPreferencesModal } from '../../(dashboard)/(components)/modals/notification-preferences-modal';
 import { deleteGeofence } from '../../(dashboard)/(lib)/supabase/geofences';
-import { leaveGeofence } from '../../(dashboard)/(lib)/supabase/members';
+import { leaveGeofence, setManualStatus, clearManualStatus, setMemberPrivacy } from '../../(dashboard)/(lib)/supabase/members';
 import { useMembers } from '../../(dashboard)/(lib)/hooks/use-members';
+import { getStatusOptions } from '../../(dashboard)/(lib)/status-options';
+import type { MemberPrivacy } from '../../(dashboard)/(lib)/types';
 
 interface GeofenceDetailClientProps {
   initialGeofence: any;
@@ -37,8 +45,10 @@ export function GeofenceDetailClient({
   const [showSettingsModal, setShowSettingsModal] = useState(false);
   const [showDeleteModal, setShowDeleteModal] = useState(false);
   const [showLeaveModal, setShowLeaveModal] = useState(false);
+  const [showAlertsModal, setShowAlertsModal] = useState(false);
   
   const isOwner = geofence?.role === 'owner';
+  const statusOptions = getStatusOptions(geofence);
 
   const { members, isLoading: membersLoading, error: membersError } = useMembers(geofenceId);
 
@@ -74,6 +84,30 @@ export function GeofenceDetailClient({
     }
   };
 
+  const handleStatusUpdate = async (status: string, expiresAt?: string | null) => {
+    const result = await setManualStatus(geofenceId, status, expiresAt ?? null);
+
+    if (!result.success) {
+      throw new Error(result.error);
+    }
+  };
+
+  const handleClearOverride = async () => {
+    const result = await clearManualStatus(geofenceId);
+
+    if (!result.success) {
+      throw new Error(result.error);
+    }
+  };
+
+  const handlePrivacyChange = async (privacy: MemberPrivacy) => {
+    const result = await setMemberPrivacy(geofenceId, privacy);
+
+    if (!result.success) {
+      throw new Error(result.error);
+    }
+  };
+
   const handleMemberRemoved = () => {
     // Refresh members list - for now reload the page
     // In a more sophisticated implementation, we could optimistically update
@@ -109,6 +143,14 @@ export function GeofenceDetailClient({
           </div>
           
           <div className="flex items-center gap-3">
+            <button
+              onClick={() => setShowAlertsModal(true)}
+              className="flex items-center gap-2 px-4 py-2 bg-gray-600 hover:bg-gray-700 text-white font-semibold rounded-lg transition-colors"
+            >
+              <BellIcon className="h-4 w-4" />
+              Alerts
+            </button>
+
             {isOwner && (
               <button
                 onClick={() => setShowShareModal(true)}
@@ -172,12 +214,21 @@ export function GeofenceDetailClient({
                     {geofence.center_longitude?.toFixed(6) || 'N/A'}
                   </span>
                 </div>
-                <div>
-                  <span className="text-gray-400">Radius:</span>
-                  <span className="text-white ml-2">
-                    {geofence.radius_meters ? `${geofence.radius_meters}m` : 'N/A'}
-                  </span>
-                </div>
+                {geofence.shape === 'polygon' ? (
+                  <div>
+                    <span className="text-gray-400">Shape:</span>
+                    <span className="text-white ml-2">
+                      Polygon ({geofence.polygon_vertices?.length || 0} corners, {geofence.hysteresis_meters}m edge buffer)
+                    </span>
+                  </div>
+                ) : (
+                  <div>
+                    <span className="text-gray-400">Radius:</span>
+                    <span className="text-white ml-2">
+                      {geofence.radius_meters ? `${geofence.radius_meters}m` : 'N/A'}
+                    </span>
+                  </div>
+                )}
                 <div>
                   <span className="text-gray-400">Created:</span>
                   <span className="text-white ml-2">
@@ -214,6 +265,32 @@ export function GeofenceDetailClient({
           )}
         </div>
 
+        {/* Live Member Map */}
+        <div className="bg-gray-800 rounded-2xl p-6 mb-8">
+          <MemberMap
+            geofence={geofence}
+            members={members}
+            currentUserId={user?.id}
+            statusOptions={statusOptions}
+          />
+        </div>
+
+        {/* Own Status Section */}
+        <div className="bg-gray-800 rounded-2xl p-6 mb-8">
+          <StatusOverrideControl
+            member={members.find(member => member.id_user === user?.id)}
+            statusOptions={statusOptions}
+            onStatusUpdate={handleStatusUpdate}
+            onClearOverride={handleClearOverride}
+          />
+          <div className="mt-6 pt-6 border-t border-gray-700">
+            <PrivacyControl
+              member={members.find(member => member.id_user === user?.id)}
+              onPrivacyChange={handlePrivacyChange}
+            />
+          </div>
+        </div>
+
         {/* Members Section */}
         <div className="bg-gray-800 rounded-2xl p-6">
           <MemberList 
@@ -222,10 +299,21 @@ export function GeofenceDetailClient({
             currentUserId={user?.id}
             currentUserRole={geofence?.role}
             geofenceId={geofenceId}
+            statusOptions={statusOptions}
             onMemberRemoved={handleMemberRemoved}
           />
         </div>
 
+        {/* Presence Timeline Section */}
+        <div className="bg-gray-800 rounded-2xl p-6 mt-8">
+          <PresenceTimeline
+            geofenceId={geofenceId}
+            members={members}
+            currentUserId={user?.id}
+            statusOptions={statusOptions}
+          />
+        </div>
+
         {/* Share Modal */}
         <InviteShareModal
           isOpen={showShareModal}
@@ -237,6 +325,18 @@ export function GeofenceDetailClient({
           }}
         />
 
+        {/* Alert Preferences Modal */}
+        <NotificationPreferencesModal
+          isOpen={showAlertsModal}
+          onClose={() => setShowAlertsModal(false)}
+          geofence={{
+            id_geofence: geofence.id_geofence,
+            name: geofence.name
+          }}
+          members={members}
+          currentUserId={user?.id}
+        />
+
         {/* Settings Modal */}
         {isOwner && (
           <GeofenceSettingsModal
@@ -6,6 +6,9 @@ import { useAuth } from '@clerk/nextjs';
 import { GeofenceList } from '../(dashboard)/(components)/geofence/geofence-list';
 import { CreateGeofenceModal } from '../(dashboard)/(components)/modals/create-geofence-modal';
 import { DeviceManagementCard } from '../(dashboard)/(components)/device/device-management-card';
+import { PushNotificationsCard } from '../(dashboard)/(components)/notifications/push-notifications-card';
+import { GhostModeCard } from '../(dashboard)/(components)/tracking/ghost-mode-card';
+import { AccessTokensCard } from '../(dashboard)/(components)/api-tokens/access-tokens-card';
 import { XCircleIcon } from '@heroicons/react/24/outline';
 import { useGeofences } from '../(dashboard)/(lib)/hooks/use-geofences';
 import type { GeofenceListItem } from '../(dashboard)/(lib)/types';
@@ -112,6 +115,21 @@ export function DashboardClient() {
             <DeviceManagementCard />
           </div>
 
+          {/* Ghost Mode */}
+          <div className="mb-6">
+            <GhostModeCard />
+          </div>
+
+          {/* Push Notifications */}
+          <div className="mb-6">
+            <PushNotificationsCard />
+          </div>
+
+          {/* REST API Access Tokens */}
+          <div className="mb-6">
+            <AccessTokensCard />
+          </div>
+
           {/* Geofences Section */}
           <div className="bg-white shadow rounded-lg">
             <div className="px-4 py-5 sm:p-6">
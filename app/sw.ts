@@ -372,6 +372,8 @@ self.addEventListener('push', (event) => {
     icon: '/icon-192x192.png?v=3',
     badge: '/icon-192x192.png?v=3',
     vibrate: [200, 100, 200],
+    // Replaces an older alert about the same roommate instead of stacking
+    tag: data.tag,
     data: data.data || {},
     actions: [
       {
@@ -392,8 +394,30 @@ self.addEventListener('notificationclick', (event) => {
   console.log('Service Worker: Notification clicked');
   
   event.notification.close();
-  
-  event.waitUntil(
-    self.clients.openWindow('/')
-  );
-}); 
\ No newline at end of file
+
+  const url = new URL(event.notification.data?.url || '/', self.location.origin).href;
+
+  event.waitUntil(openOrFocusWindow(url));
+});
+
+// Reuse an open GeoDorm tab when there is one. Only tabs this worker
+// controls can be navigated, so uncontrolled ones are left alone.
+async function openOrFocusWindow(url: string) {
+  const windows = await self.clients.matchAll({ type: 'window' });
+
+  const client = windows.find(candidate => new URL(candidate.url).origin === self.location.origin);
+
+  if (client) {
+    try {
+      await client.focus();
+      const navigated = await client.navigate(url);
+      if (navigated) {
+        return navigated;
+      }
+    } catch (error) {
+      console.warn('Service Worker: Could not reuse an open tab:', error);
+    }
+  }
+
+  return self.clients.openWindow(url);
+} 
\ No newline at end of file
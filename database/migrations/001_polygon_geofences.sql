@@ -0,0 +1,15 @@
+-- Polygon geofences alongside circular ones
+-- For polygons, center_latitude/center_longitude hold the vertex centroid and
+-- radius_meters the distance to the farthest vertex.
+
+ALTER TABLE geofences
+  ADD COLUMN shape TEXT NOT NULL DEFAULT 'circle'
+    CHECK (shape IN ('circle', 'polygon')),
+  ADD COLUMN polygon_vertices JSONB;
+
+ALTER TABLE geofences
+  ADD CONSTRAINT geofences_polygon_vertices_check
+    CHECK (
+      shape = 'circle'
+      OR (jsonb_typeof(polygon_vertices) = 'array' AND jsonb_array_length(polygon_vertices) >= 3)
+    );
@@ -0,0 +1,51 @@
+-- Raw location history and append-only presence transition log
+
+CREATE TABLE location_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  id_user TEXT NOT NULL REFERENCES users(id_user) ON DELETE CASCADE,
+  device_id TEXT NOT NULL,
+  latitude DOUBLE PRECISION NOT NULL,
+  longitude DOUBLE PRECISION NOT NULL,
+  accuracy_meters DOUBLE PRECISION,
+  recorded_at TIMESTAMPTZ NOT NULL,
+  received_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX location_history_device_recorded_key ON location_history (device_id, recorded_at);
+CREATE INDEX location_history_user_recorded_idx ON location_history (id_user, recorded_at DESC);
+
+CREATE TABLE presence_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  id_geofence UUID NOT NULL REFERENCES geofences(id_geofence) ON DELETE CASCADE,
+  id_user TEXT NOT NULL REFERENCES users(id_user) ON DELETE CASCADE,
+  from_status TEXT NOT NULL,
+  to_status TEXT NOT NULL,
+  distance_meters DOUBLE PRECISION NOT NULL,
+  latitude DOUBLE PRECISION NOT NULL,
+  longitude DOUBLE PRECISION NOT NULL,
+  device_id TEXT,
+  occurred_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX presence_events_member_occurred_key
+  ON presence_events (id_geofence, id_user, occurred_at);
+
+ALTER TABLE location_history ENABLE ROW LEVEL SECURITY;
+ALTER TABLE presence_events ENABLE ROW LEVEL SECURITY;
+
+-- Users can read their own raw points
+CREATE POLICY "Users can view own location history" ON location_history
+  FOR SELECT USING (id_user = (auth.jwt() ->> 'sub'));
+
+-- Members can read transitions of anyone in a geofence they belong to
+CREATE POLICY "Members can view geofence presence events" ON presence_events
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM geofence_members gm
+      WHERE gm.id_geofence = presence_events.id_geofence
+        AND gm.id_user = (auth.jwt() ->> 'sub')
+    )
+  );
+
+-- Inserts come only from the service role; no UPDATE or DELETE policies keep the log append-only
@@ -0,0 +1,5 @@
+-- Per-geofence limit on GPS fix uncertainty; less accurate fixes never change status
+
+ALTER TABLE geofences
+  ADD COLUMN max_accuracy_meters INTEGER NOT NULL DEFAULT 100
+    CHECK (max_accuracy_meters BETWEEN 5 AND 1000);
@@ -0,0 +1,12 @@
+-- Dwell-time rules per geofence and pending transitions per membership
+
+ALTER TABLE geofences
+  ADD COLUMN enter_dwell_seconds INTEGER NOT NULL DEFAULT 0 CHECK (enter_dwell_seconds BETWEEN 0 AND 3600),
+  ADD COLUMN enter_min_points INTEGER NOT NULL DEFAULT 1 CHECK (enter_min_points BETWEEN 1 AND 20),
+  ADD COLUMN exit_dwell_seconds INTEGER NOT NULL DEFAULT 0 CHECK (exit_dwell_seconds BETWEEN 0 AND 3600),
+  ADD COLUMN exit_min_points INTEGER NOT NULL DEFAULT 1 CHECK (exit_min_points BETWEEN 1 AND 20);
+
+ALTER TABLE geofence_members
+  ADD COLUMN pending_status TEXT CHECK (pending_status IN ('IN_ROOM', 'AWAY')),
+  ADD COLUMN pending_since TIMESTAMPTZ,
+  ADD COLUMN pending_point_count INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,4 @@
+-- Per-device access tokens for location ingestion (SHA-256 hash only)
+
+ALTER TABLE device_mappings
+  ADD COLUMN token_hash TEXT;
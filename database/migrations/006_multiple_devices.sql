@@ -0,0 +1,14 @@
+-- Multiple named devices per user, and the device behind each membership's latest fix
+
+ALTER TABLE device_mappings
+  DROP CONSTRAINT IF EXISTS device_mappings_id_user_key;
+
+ALTER TABLE device_mappings
+  ADD COLUMN name TEXT NOT NULL DEFAULT 'My Device' CHECK (char_length(name) BETWEEN 1 AND 50);
+
+CREATE INDEX IF NOT EXISTS device_mappings_id_user_idx
+  ON device_mappings (id_user);
+
+ALTER TABLE geofence_members
+  ADD COLUMN last_gps_device_id TEXT,
+  ADD COLUMN last_gps_accuracy_meters DOUBLE PRECISION;
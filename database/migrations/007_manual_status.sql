@@ -0,0 +1,12 @@
+-- Manual status overrides with optional expiry, and manual entries in the presence log
+
+ALTER TABLE geofence_members
+  ADD COLUMN status_source TEXT NOT NULL DEFAULT 'gps' CHECK (status_source IN ('gps', 'manual')),
+  ADD COLUMN manual_expires_at TIMESTAMPTZ;
+
+-- Manual and imported transitions have no GPS fix behind them
+ALTER TABLE presence_events
+  ADD COLUMN source TEXT NOT NULL DEFAULT 'gps' CHECK (source IN ('gps', 'manual', 'import')),
+  ALTER COLUMN distance_meters DROP NOT NULL,
+  ALTER COLUMN latitude DROP NOT NULL,
+  ALTER COLUMN longitude DROP NOT NULL;
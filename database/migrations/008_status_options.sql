@@ -0,0 +1,8 @@
+-- Per-geofence status vocabulary; NULL uses the default In Room/Away pair
+
+ALTER TABLE geofences
+  ADD COLUMN status_options JSONB;
+
+-- Members may now hold any status key configured on their geofence
+ALTER TABLE geofence_members
+  DROP CONSTRAINT IF EXISTS geofence_members_status_check;
@@ -0,0 +1,29 @@
+-- Web Push subscriptions, one per browser or phone a user enables notifications on
+
+CREATE TABLE push_subscriptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  id_user TEXT NOT NULL REFERENCES users(id_user) ON DELETE CASCADE,
+  endpoint TEXT NOT NULL UNIQUE,
+  p256dh TEXT NOT NULL,
+  auth TEXT NOT NULL,
+  device_name TEXT NOT NULL DEFAULT 'This device' CHECK (char_length(device_name) BETWEEN 1 AND 100),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_used_at TIMESTAMPTZ
+);
+
+CREATE INDEX push_subscriptions_id_user_idx ON push_subscriptions (id_user);
+
+ALTER TABLE push_subscriptions ENABLE ROW LEVEL SECURITY;
+
+-- Users manage their own subscriptions; fan-out reads them with the service role
+CREATE POLICY "Users can view own push subscriptions" ON push_subscriptions
+  FOR SELECT USING (id_user = (auth.jwt() ->> 'sub'));
+
+CREATE POLICY "Users can add own push subscriptions" ON push_subscriptions
+  FOR INSERT WITH CHECK (id_user = (auth.jwt() ->> 'sub'));
+
+CREATE POLICY "Users can update own push subscriptions" ON push_subscriptions
+  FOR UPDATE USING (id_user = (auth.jwt() ->> 'sub'));
+
+CREATE POLICY "Users can delete own push subscriptions" ON push_subscriptions
+  FOR DELETE USING (id_user = (auth.jwt() ->> 'sub'));
@@ -0,0 +1,50 @@
+-- Per-member alert settings for each geofence, removed along with the membership
+
+CREATE TABLE notification_preferences (
+  id_geofence UUID NOT NULL REFERENCES geofences(id_geofence) ON DELETE CASCADE,
+  id_user TEXT NOT NULL REFERENCES users(id_user) ON DELETE CASCADE,
+  -- NULL follows every member
+  followed_user_ids TEXT[],
+  events TEXT[] NOT NULL DEFAULT ARRAY['arrive', 'leave']
+    CHECK (events <@ ARRAY['arrive', 'leave', 'first_arrived', 'last_left']),
+  quiet_hours_start TIME,
+  quiet_hours_end TIME,
+  timezone TEXT NOT NULL DEFAULT 'UTC',
+  min_interval_minutes INTEGER NOT NULL DEFAULT 0 CHECK (min_interval_minutes BETWEEN 0 AND 1440),
+  last_notified_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (id_geofence, id_user),
+  CHECK ((quiet_hours_start IS NULL) = (quiet_hours_end IS NULL))
+);
+
+ALTER TABLE notification_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own notification preferences" ON notification_preferences
+  FOR SELECT USING (id_user = (auth.jwt() ->> 'sub'));
+
+CREATE POLICY "Members can add own notification preferences" ON notification_preferences
+  FOR INSERT WITH CHECK (
+    id_user = (auth.jwt() ->> 'sub')
+    AND EXISTS (
+      SELECT 1 FROM geofence_members gm
+      WHERE gm.id_geofence = notification_preferences.id_geofence
+        AND gm.id_user = notification_preferences.id_user
+    )
+  );
+
+CREATE POLICY "Users can update own notification preferences" ON notification_preferences
+  FOR UPDATE USING (id_user = (auth.jwt() ->> 'sub'));
+
+-- Leaving or being removed from a geofence drops its alert settings
+CREATE OR REPLACE FUNCTION delete_member_notification_preferences()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM notification_preferences
+  WHERE id_geofence = OLD.id_geofence AND id_user = OLD.id_user;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER geofence_members_delete_notification_preferences
+  AFTER DELETE ON geofence_members
+  FOR EACH ROW EXECUTE FUNCTION delete_member_notification_preferences();
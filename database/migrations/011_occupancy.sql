@@ -0,0 +1,47 @@
+-- Geofence-level occupancy: how many members are currently present, and
+-- derived events when a geofence goes from empty to occupied or back
+
+ALTER TABLE geofences
+  ADD COLUMN occupancy_count INTEGER NOT NULL DEFAULT 0 CHECK (occupancy_count >= 0);
+
+-- IN_ROOM is always present; custom statuses count when marked present
+UPDATE geofences g
+SET occupancy_count = (
+  SELECT COUNT(*)
+  FROM geofence_members gm
+  WHERE gm.id_geofence = g.id_geofence
+    AND (
+      gm.status = 'IN_ROOM'
+      OR EXISTS (
+        SELECT 1 FROM jsonb_array_elements(COALESCE(g.status_options, '[]'::jsonb)) option
+        WHERE option ->> 'key' = gm.status AND option ->> 'presence' = 'present'
+      )
+    )
+);
+
+CREATE TABLE occupancy_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  id_geofence UUID NOT NULL REFERENCES geofences(id_geofence) ON DELETE CASCADE,
+  event_type TEXT NOT NULL CHECK (event_type IN ('occupancy.first_arrived', 'occupancy.last_left')),
+  -- The member whose transition caused the change
+  id_user TEXT REFERENCES users(id_user) ON DELETE SET NULL,
+  occupancy_count INTEGER NOT NULL,
+  member_count INTEGER NOT NULL,
+  occurred_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX occupancy_events_geofence_occurred_idx ON occupancy_events (id_geofence, occurred_at DESC);
+
+ALTER TABLE occupancy_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view geofence occupancy events" ON occupancy_events
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM geofence_members gm
+      WHERE gm.id_geofence = occupancy_events.id_geofence
+        AND gm.id_user = (auth.jwt() ->> 'sub')
+    )
+  );
+
+-- Inserts come only from the service role
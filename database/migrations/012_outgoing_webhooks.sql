@@ -0,0 +1,90 @@
+-- Outgoing webhooks: URLs a geofence owner registers to receive signed event
+-- deliveries, and a log of every delivery attempt
+
+CREATE TABLE webhook_endpoints (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  id_geofence UUID NOT NULL REFERENCES geofences(id_geofence) ON DELETE CASCADE,
+  url TEXT NOT NULL CHECK (url LIKE 'https://%' AND char_length(url) <= 2048),
+  description TEXT NOT NULL DEFAULT '' CHECK (char_length(description) <= 100),
+  -- Svix-style signing secret, e.g. whsec_<base64>
+  secret TEXT NOT NULL,
+  events TEXT[] NOT NULL CHECK (
+    cardinality(events) > 0
+    AND events <@ ARRAY['member.status_changed', 'member.joined', 'member.left', 'geofence.updated']
+  ),
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX webhook_endpoints_geofence_idx ON webhook_endpoints (id_geofence);
+
+CREATE TABLE webhook_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  endpoint_id UUID NOT NULL REFERENCES webhook_endpoints(id) ON DELETE CASCADE,
+  id_geofence UUID NOT NULL REFERENCES geofences(id_geofence) ON DELETE CASCADE,
+  -- Shared by every endpoint that receives the same event, sent as webhook-id
+  event_id TEXT NOT NULL,
+  event_type TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed')),
+  attempt_count INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ,
+  last_attempt_at TIMESTAMPTZ,
+  response_status INTEGER,
+  last_error TEXT,
+  delivered_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX webhook_deliveries_geofence_created_idx ON webhook_deliveries (id_geofence, created_at DESC);
+CREATE INDEX webhook_deliveries_due_idx ON webhook_deliveries (next_attempt_at) WHERE status = 'pending';
+
+ALTER TABLE webhook_endpoints ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- Only the geofence owner manages endpoints; deliveries are written by the service role
+CREATE POLICY "Owners can view webhook endpoints" ON webhook_endpoints
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM geofences g
+      WHERE g.id_geofence = webhook_endpoints.id_geofence
+        AND g.id_user = (auth.jwt() ->> 'sub')
+    )
+  );
+
+CREATE POLICY "Owners can add webhook endpoints" ON webhook_endpoints
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM geofences g
+      WHERE g.id_geofence = webhook_endpoints.id_geofence
+        AND g.id_user = (auth.jwt() ->> 'sub')
+    )
+  );
+
+CREATE POLICY "Owners can update webhook endpoints" ON webhook_endpoints
+  FOR UPDATE USING (
+    EXISTS (
+      SELECT 1 FROM geofences g
+      WHERE g.id_geofence = webhook_endpoints.id_geofence
+        AND g.id_user = (auth.jwt() ->> 'sub')
+    )
+  );
+
+CREATE POLICY "Owners can delete webhook endpoints" ON webhook_endpoints
+  FOR DELETE USING (
+    EXISTS (
+      SELECT 1 FROM geofences g
+      WHERE g.id_geofence = webhook_endpoints.id_geofence
+        AND g.id_user = (auth.jwt() ->> 'sub')
+    )
+  );
+
+CREATE POLICY "Owners can view webhook deliveries" ON webhook_deliveries
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM geofences g
+      WHERE g.id_geofence = webhook_deliveries.id_geofence
+        AND g.id_user = (auth.jwt() ->> 'sub')
+    )
+  );
@@ -0,0 +1,31 @@
+-- Personal access tokens for the /api/v1 REST API (SHA-256 hash only)
+
+CREATE TABLE personal_access_tokens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  id_user TEXT NOT NULL REFERENCES users(id_user) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 50),
+  -- First characters of the token, shown so users can tell tokens apart
+  token_prefix TEXT NOT NULL,
+  token_hash TEXT NOT NULL UNIQUE,
+  scopes TEXT[] NOT NULL CHECK (
+    cardinality(scopes) > 0
+    AND scopes <@ ARRAY['geofences:read', 'history:read']
+  ),
+  expires_at TIMESTAMPTZ,
+  last_used_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX personal_access_tokens_id_user_idx ON personal_access_tokens (id_user);
+
+ALTER TABLE personal_access_tokens ENABLE ROW LEVEL SECURITY;
+
+-- Users manage their own tokens; API requests look them up with the service role
+CREATE POLICY "Users can view own access tokens" ON personal_access_tokens
+  FOR SELECT USING (id_user = (auth.jwt() ->> 'sub'));
+
+CREATE POLICY "Users can add own access tokens" ON personal_access_tokens
+  FOR INSERT WITH CHECK (id_user = (auth.jwt() ->> 'sub'));
+
+CREATE POLICY "Users can delete own access tokens" ON personal_access_tokens
+  FOR DELETE USING (id_user = (auth.jwt() ->> 'sub'));
@@ -0,0 +1,13 @@
+-- Opt-in sharing of each member's last known position on the geofence map
+
+ALTER TABLE geofence_members
+  ADD COLUMN share_location BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN last_latitude DOUBLE PRECISION,
+  ADD COLUMN last_longitude DOUBLE PRECISION;
+
+-- Members can read every row of a geofence they belong to, so a position is
+-- only kept while its member shares it
+ALTER TABLE geofence_members
+  ADD CONSTRAINT geofence_members_position_shared CHECK (
+    share_location OR (last_latitude IS NULL AND last_longitude IS NULL)
+  );
@@ -0,0 +1,74 @@
+-- Per-membership privacy levels: status only, distance band, exact position or paused
+
+ALTER TABLE geofence_members
+  ADD COLUMN privacy TEXT NOT NULL DEFAULT 'status'
+    CHECK (privacy IN ('status', 'distance', 'exact', 'paused')),
+  ADD COLUMN distance_band TEXT CHECK (distance_band IN ('nearby', 'in_town', 'far'));
+
+-- Members already sharing their position on the map keep sharing it
+UPDATE geofence_members SET privacy = 'exact' WHERE share_location;
+
+ALTER TABLE geofence_members
+  DROP CONSTRAINT geofence_members_position_shared,
+  DROP COLUMN share_location;
+
+-- Every member of a geofence can read its membership rows, so a row only
+-- holds what its member's privacy level lets the others see
+CREATE OR REPLACE FUNCTION enforce_member_privacy()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.privacy <> 'exact' THEN
+    NEW.last_latitude := NULL;
+    NEW.last_longitude := NULL;
+  END IF;
+
+  IF NEW.privacy NOT IN ('distance', 'exact') THEN
+    NEW.distance_band := NULL;
+  END IF;
+
+  -- Paused members show a placeholder until their next fix after resuming
+  IF NEW.privacy = 'paused' THEN
+    NEW.status := 'PAUSED';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER geofence_members_enforce_privacy
+  BEFORE INSERT OR UPDATE ON geofence_members
+  FOR EACH ROW EXECUTE FUNCTION enforce_member_privacy();
+
+-- Presence events are readable by every member too; only exact sharers keep
+-- the position and distance from center of their transitions
+CREATE OR REPLACE FUNCTION enforce_presence_event_privacy()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM geofence_members gm
+    WHERE gm.id_geofence = NEW.id_geofence
+      AND gm.id_user = NEW.id_user
+      AND gm.privacy = 'exact'
+  ) THEN
+    NEW.latitude := NULL;
+    NEW.longitude := NULL;
+    NEW.distance_meters := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER presence_events_enforce_privacy
+  BEFORE INSERT ON presence_events
+  FOR EACH ROW EXECUTE FUNCTION enforce_presence_event_privacy();
+
+UPDATE presence_events pe
+SET latitude = NULL, longitude = NULL, distance_meters = NULL
+WHERE (pe.latitude IS NOT NULL OR pe.distance_meters IS NOT NULL)
+  AND NOT EXISTS (
+    SELECT 1 FROM geofence_members gm
+    WHERE gm.id_geofence = pe.id_geofence
+      AND gm.id_user = pe.id_user
+      AND gm.privacy = 'exact'
+  );
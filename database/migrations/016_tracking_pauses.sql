@@ -0,0 +1,18 @@
+-- Ghost mode: a user-wide, time-limited pause of location tracking
+
+CREATE TABLE tracking_pauses (
+  id_user TEXT PRIMARY KEY REFERENCES users(id_user) ON DELETE CASCADE,
+  -- 'drop' discards points from the user's devices, 'store' keeps them in history without evaluating them
+  pause_mode TEXT NOT NULL DEFAULT 'store' CHECK (pause_mode IN ('drop', 'store')),
+  -- The latest pause window; kept after it ends so late uploads from inside it stay unevaluated
+  paused_at TIMESTAMPTZ,
+  paused_until TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (paused_until IS NULL OR paused_until >= paused_at)
+);
+
+ALTER TABLE tracking_pauses ENABLE ROW LEVEL SECURITY;
+
+-- Pausing rewrites the user's statuses, so changes go through the service role
+CREATE POLICY "Users can view own tracking pause" ON tracking_pauses
+  FOR SELECT USING (id_user = (auth.jwt() ->> 'sub'));
@@ -0,0 +1,6 @@
+-- Staleness threshold per geofence: members without a location for this long
+-- are marked UNKNOWN until their next conclusive fix (0 turns it off)
+
+ALTER TABLE geofences
+  ADD COLUMN stale_after_minutes INTEGER NOT NULL DEFAULT 720
+    CHECK (stale_after_minutes = 0 OR stale_after_minutes BETWEEN 60 AND 10080);
@@ -0,0 +1,27 @@
+-- Scheduled jobs: a record of every run, and a lock per job so runs from
+-- Vercel Cron and the command line never overlap
+
+CREATE TABLE job_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_name TEXT NOT NULL,
+  trigger TEXT NOT NULL CHECK (trigger IN ('cron', 'cli')),
+  -- 'skipped' means another run of the same job held the lock
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'succeeded', 'failed', 'skipped')),
+  result JSONB,
+  error TEXT,
+  started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  finished_at TIMESTAMPTZ
+);
+
+CREATE INDEX job_runs_job_started_idx ON job_runs (job_name, started_at DESC);
+
+CREATE TABLE job_locks (
+  job_name TEXT PRIMARY KEY,
+  run_id UUID NOT NULL REFERENCES job_runs(id) ON DELETE CASCADE,
+  -- A run that crashes loses the lock once this passes
+  locked_until TIMESTAMPTZ NOT NULL
+);
+
+-- Only the service role runs jobs; no policies
+ALTER TABLE job_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE job_locks ENABLE ROW LEVEL SECURITY;
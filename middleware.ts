@@ -1,9 +1,15 @@
 import { clerkMiddleware, createRouteMatcher } from "@clerk/nextjs/server";
 import { NextRequest, NextResponse } from "next/server";
+import { extractAccessToken } from "./app/(dashboard)/(lib)/access-tokens";
 
 const isPublicRoute = createRouteMatcher(["/", "/join", "/sign-in(.*)", "/sign-up(.*)"]);
 const isWebhookRoute = createRouteMatcher(["/api/webhooks/(.*)"]);
-const isPublicAPIRoute = createRouteMatcher(["/api/geofences/join/(.*)", "/api/location-update"]);
+// Location ingestion skips Clerk; the routes verify a per-device access token instead
+const isPublicAPIRoute = createRouteMatcher(["/api/geofences/join/(.*)", "/api/location-update", "/api/owntracks", "/api/openapi.json"]);
+// The REST API skips Clerk; the routes resolve the personal access token and check its scopes
+const isTokenAPIRoute = createRouteMatcher(["/api/v1(.*)"]);
+// Scheduled jobs skip Clerk; the routes check the CRON_SECRET bearer token
+const isCronRoute = createRouteMatcher(["/api/cron/(.*)"]);
 const isAPIRoute = createRouteMatcher(["/api(.*)"]);
 const isProtectedRoute = createRouteMatcher(["/dashboard(.*)", "/create(.*)"]);
 
@@ -49,6 +55,32 @@ export default clerkMiddleware(async (auth, req: NextRequest) => {
       return NextResponse.next();
     }
 
+    if (isCronRoute(req)) {
+      logAuthEvent('SUCCESS', pathname, 'Cron route accessed');
+      return NextResponse.next();
+    }
+
+    if (isTokenAPIRoute(req)) {
+      if (!extractAccessToken(req)) {
+        logAuthEvent('FAILURE', pathname, { reason: 'No personal access token', apiCall: true });
+
+        return new NextResponse(
+          JSON.stringify({ 
+            error: 'Unauthorized', 
+            message: 'Personal access token required',
+            code: 'TOKEN_REQUIRED'
+          }), 
+          { 
+            status: 401,
+            headers: { 'Content-Type': 'application/json' }
+          }
+        );
+      }
+
+      logAuthEvent('SUCCESS', pathname, 'Token API route accessed');
+      return NextResponse.next();
+    }
+
     if (isProtectedRoute(req)) {
       const { userId, sessionId } = await auth();
       
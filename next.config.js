@@ -55,6 +55,13 @@ const nextConfig = {
     ];
   },
   
+  // Track imports are uploaded through a server action (5 MB files plus form overhead)
+  experimental: {
+    serverActions: {
+      bodySizeLimit: '6mb',
+    },
+  },
+  
   // Image optimization
   images: {
     formats: ['image/webp', 'image/avif'],
@@ -0,0 +1,75 @@
+import { createClient } from '@supabase/supabase-js';
+import type { Database } from '../app/(dashboard)/(lib)/types';
+
+/**
+ * Run scheduled jobs from the command line
+ *
+ *   npm run jobs                      every job, in registry order
+ *   npm run jobs -- stale-members     only the named jobs
+ *   npm run jobs -- --list            list the jobs
+ *
+ * Reads .env.local like `next dev`. Runs take the same locks and are
+ * recorded like the ones Vercel Cron starts, so this is safe to run against
+ * a deployed database.
+ */
+
+// The app's client module pulls in Clerk and React, so build the admin client
+// here. The job modules only import its AdminClient type, which is erased, but
+// they do load next/server. Its after() throws outside a request, so MQTT
+// publishes run straight away and webhook deliveries wait for retry-webhooks.
+function createJobsClient() {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    throw new Error('NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set, e.g. in .env.local');
+  }
+
+  return createClient<Database>(supabaseUrl, supabaseServiceKey, {
+    auth: { autoRefreshToken: false, persistSession: false }
+  });
+}
+
+async function main(args: string[]): Promise<number> {
+  // Loaded after the environment, since modules read their settings on import
+  const { SCHEDULED_JOBS, findScheduledJob, runScheduledJob } = await import('../app/(dashboard)/(lib)/scheduled-jobs');
+
+  if (args.includes('--list')) {
+    for (const job of SCHEDULED_JOBS) {
+      console.log(`${job.name.padEnd(20)} ${job.description}`);
+    }
+    return 0;
+  }
+
+  const unknown = args.filter(name => !findScheduledJob(name));
+  if (unknown.length > 0) {
+    console.error(`Unknown job: ${unknown.join(', ')}. Run with --list to see the jobs.`);
+    return 1;
+  }
+
+  const jobs = args.length > 0 ? args.map(name => findScheduledJob(name)!) : SCHEDULED_JOBS;
+  const supabase = createJobsClient();
+  let failed = false;
+
+  for (const job of jobs) {
+    const run = await runScheduledJob(supabase, job, 'cli');
+    const detail = run.status === 'failed' ? run.error : JSON.stringify(run.result ?? {});
+    console.log(`${job.name}: ${run.status}${run.status === 'skipped' ? ' (already running)' : ` ${detail}`}`);
+    failed ||= run.status === 'failed';
+  }
+
+  return failed ? 1 : 0;
+}
+
+try {
+  process.loadEnvFile('.env.local');
+} catch {
+  // Fall back to the environment, e.g. in CI
+}
+
+main(process.argv.slice(2))
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error(error);
+    process.exit(1);
+  });